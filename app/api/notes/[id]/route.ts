@@ -0,0 +1,96 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import {
+  ApiError,
+  authenticate,
+  getNoteRow,
+  handle,
+  optionalString,
+  readJson,
+  rowToApiNote,
+} from '@/lib/api'
+import type { NoteRow } from '@/lib/sync'
+import { extractTags } from '@/lib/tags'
+
+type Context = { params: Promise<{ id: string }> }
+
+export async function GET(request: NextRequest, { params }: Context) {
+  return handle(async () => {
+    const { supabase } = await authenticate(request)
+    const { id } = await params
+    return NextResponse.json(rowToApiNote(await getNoteRow(supabase, id)))
+  })
+}
+
+// Changes the title, content or folder. With `revision`, the update is
+// refused with 409 if the note changed since that revision was read.
+export async function PATCH(request: NextRequest, { params }: Context) {
+  return handle(async () => {
+    const { supabase } = await authenticate(request)
+    const { id } = await params
+    const body = await readJson(request)
+    const title = optionalString(body, 'title')
+    const content = optionalString(body, 'content')
+    const folderId =
+      body.folderId === null ? null : optionalString(body, 'folderId')
+    const revision = body.revision
+    if (revision !== undefined && !Number.isInteger(revision)) {
+      throw new ApiError(400, 'revision must be an integer')
+    }
+
+    const current = await getNoteRow(supabase, id)
+    if (revision !== undefined && revision !== current.revision) {
+      throw new ApiError(409, 'The note was changed in the meantime')
+    }
+    if (
+      current.encrypted_content &&
+      (title !== undefined || content !== undefined)
+    ) {
+      throw new ApiError(422, 'Encrypted notes cannot be changed here')
+    }
+
+    const changes: Partial<NoteRow> = {
+      updated_at: new Date().toISOString(),
+      revision: current.revision + 1,
+    }
+    if (title !== undefined) changes.title = title
+    if (content !== undefined) {
+      changes.content = content
+      changes.tags = extractTags(content)
+    }
+    if (folderId !== undefined) changes.folder_id = folderId
+
+    const { data, error } = await supabase
+      .from('notes')
+      .update(changes)
+      .eq('id', id)
+      .select()
+      .single<NoteRow>()
+    if (error) throw error
+    return NextResponse.json(rowToApiNote(data))
+  })
+}
+
+// Moves the note to the trash, where the app deletes it for good once the
+// retention period is over
+export async function DELETE(request: NextRequest, { params }: Context) {
+  return handle(async () => {
+    const { supabase } = await authenticate(request)
+    const { id } = await params
+    const current = await getNoteRow(supabase, id)
+    if (current.deleted) return new NextResponse(null, { status: 204 })
+
+    const now = new Date().toISOString()
+    const { error } = await supabase
+      .from('notes')
+      .update({
+        deleted: true,
+        deleted_at: now,
+        updated_at: now,
+        revision: current.revision + 1,
+      })
+      .eq('id', id)
+    if (error) throw error
+    return new NextResponse(null, { status: 204 })
+  })
+}
@@ -0,0 +1,57 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import {
+  ApiError,
+  authenticate,
+  handle,
+  listNotes,
+  optionalString,
+  parsePageParams,
+  readJson,
+  rowToApiNote,
+} from '@/lib/api'
+import type { NoteRow } from '@/lib/sync'
+import { extractTags } from '@/lib/tags'
+
+// Notes of the account, oldest change first. Pass the `modifiedAt` of the
+// last note as `updatedSince` to fetch what changed after a previous run,
+// and `cursor` to read the next page.
+export async function GET(request: NextRequest) {
+  return handle(async () => {
+    const { supabase, userId } = await authenticate(request)
+    const params = parsePageParams(request.nextUrl.searchParams)
+    return NextResponse.json(await listNotes(supabase, userId, params, {}))
+  })
+}
+
+export async function POST(request: NextRequest) {
+  return handle(async () => {
+    const { supabase, userId } = await authenticate(request)
+    const body = await readJson(request)
+    const title = optionalString(body, 'title') ?? ''
+    const content = optionalString(body, 'content') ?? ''
+    const folderId = optionalString(body, 'folderId') ?? null
+    if (!title.trim() && !content.trim()) {
+      throw new ApiError(400, 'A note needs a title or content')
+    }
+
+    const now = new Date().toISOString()
+    const { data, error } = await supabase
+      .from('notes')
+      .insert({
+        id: crypto.randomUUID(),
+        user_id: userId,
+        title,
+        content,
+        folder_id: folderId,
+        tags: extractTags(content),
+        created_at: now,
+        updated_at: now,
+        revision: 1,
+      })
+      .select()
+      .single<NoteRow>()
+    if (error) throw error
+    return NextResponse.json(rowToApiNote(data), { status: 201 })
+  })
+}
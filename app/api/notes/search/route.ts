@@ -0,0 +1,24 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import {
+  ApiError,
+  authenticate,
+  handle,
+  listNotes,
+  parsePageParams,
+} from '@/lib/api'
+
+// Notes whose title or content contains `q`, most recently changed first.
+// Encrypted notes cannot be searched on the server.
+export async function GET(request: NextRequest) {
+  return handle(async () => {
+    const { supabase, userId } = await authenticate(request)
+    const searchParams = request.nextUrl.searchParams
+    const search = searchParams.get('q')?.trim()
+    if (!search) throw new ApiError(400, 'Missing search query q')
+    const params = parsePageParams(searchParams)
+    return NextResponse.json(
+      await listNotes(supabase, userId, params, { search, newestFirst: true })
+    )
+  })
+}
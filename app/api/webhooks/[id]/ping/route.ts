@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { ApiError, handle } from '@/lib/api'
+import { createClient } from '@/lib/supabase/server'
+import { deliverWebhooks } from '@/lib/webhook-delivery'
+import { createDeliveryStore } from '@/lib/webhook-store'
+
+// Test button of the webhook settings: queues a ping for the signed-in
+// owner and sends it right away instead of waiting for the worker
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handle(async () => {
+    const { id } = await params
+    const supabase = await createClient()
+    const { data: deliveryId, error } = await supabase.rpc('ping_webhook', {
+      webhook: id,
+    })
+    if (error) throw error
+    if (!deliveryId) throw new ApiError(404, 'Webhook not found')
+
+    const result = await deliverWebhooks(createDeliveryStore(), {
+      onlyId: deliveryId as string,
+    })
+    return NextResponse.json({ id: deliveryId, ok: result.succeeded === 1 })
+  })
+}
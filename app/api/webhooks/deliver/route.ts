@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { ApiError, handle } from '@/lib/api'
+import { deliverWebhooks } from '@/lib/webhook-delivery'
+import { createDeliveryStore } from '@/lib/webhook-store'
+
+// Sends due webhook deliveries. Meant to be called every minute by a
+// scheduler that sends `Authorization: Bearer $CRON_SECRET`.
+export async function GET(request: NextRequest) {
+  return handle(async () => {
+    const secret = process.env.CRON_SECRET
+    if (
+      !secret ||
+      request.headers.get('authorization') !== `Bearer ${secret}`
+    ) {
+      throw new ApiError(401, 'Unauthorized')
+    }
+    return NextResponse.json(await deliverWebhooks(createDeliveryStore()))
+  })
+}
+
+export const POST = GET
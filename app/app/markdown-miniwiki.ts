@@ -36,6 +36,8 @@ Ordered lists with numbers:
 ### Links and Images
 - Links: \`[text](url)\`
 - Images: \`![alt text](url)\`
+- Attachments: paste or drop images and files into the editor
+- Other notes: \`[[Note title]]\` or \`[[Note title|label]]\`
 
 ### Tables
 Create tables with \`|\` and \`-\`:
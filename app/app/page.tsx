@@ -1,46 +1,123 @@
 'use client'
 
-import { useCallback, useEffect, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import Link from 'next/link'
 import {
+  AlertCircleIcon,
+  ApiIcon,
+  Archive02Icon,
+  ArrowLeft01Icon,
+  Clock01Icon,
+  CloudSavingDoneIcon,
+  CloudUploadIcon,
   ComputerIcon,
+  DatabaseRestoreIcon,
   Delete01Icon,
+  Download01Icon,
   File02Icon,
+  FileImportIcon,
   FileUnlockedIcon,
   GithubIcon,
+  GitMergeIcon,
+  Key01Icon,
   Loading03Icon,
   LockIcon,
   Logout01Icon,
   Menu01Icon,
   Moon02Icon,
   PlusSignIcon,
+  RefreshIcon,
+  RestoreBinIcon,
+  Search01Icon,
+  SecurityLockIcon,
+  Share01Icon,
   SourceCodeIcon,
   TextAlignLeft01Icon,
+  UserGroupIcon,
   UserIcon,
   ViewIcon,
+  WebhookIcon,
   Wrench01Icon,
 } from '@hugeicons/core-free-icons'
 import { HugeiconsIcon } from '@hugeicons/react'
 import { VariantProps } from 'class-variance-authority'
 import { useTheme } from 'next-themes'
 import { useHotkeys } from 'react-hotkeys-hook'
-import ReactMarkdown from 'react-markdown'
+import ReactMarkdown, { defaultUrlTransform } from 'react-markdown'
 import { remark } from 'remark'
 import remarkGfm from 'remark-gfm'
 import remarkStringify from 'remark-stringify'
 import { toast } from 'sonner'
 
+import {
+  addAttachment,
+  collectAttachments,
+  downloadAttachment,
+  isAttachmentUrl,
+  sealAttachments,
+} from '@/lib/attachments'
+import { hasCollabTransport } from '@/lib/collab-transport'
 import {
   cachePassword,
   clearPasswordCache,
-  decryptContent,
-  encryptContent,
-  getCachedPassword,
+  configureKdf,
+  type KdfName,
 } from '@/lib/crypto'
-import { notesDB, type Note } from '@/lib/db'
+import { notesDB, type Folder, type Note, type NoteConflict } from '@/lib/db'
+import { merge3 } from '@/lib/diff'
+import { downloadBlob, exportEncryptedNote, toFileName } from '@/lib/export'
+import {
+  decryptWithSecret,
+  encryptWithSecret,
+  isEnvelopeEncrypted,
+  isLegacyEnvelope,
+  isVaultEnvelope,
+  needsEnvelopeUpgrade,
+  NO_ENVELOPE,
+  resolveSecret,
+  tryDecrypt,
+  type NotePayload,
+  type NoteSecret,
+} from '@/lib/note-crypto'
+import { canEditNote, isSharedWithMe, leaveSharedNote } from '@/lib/note-shares'
+import { hasSupabaseFeatures } from '@/lib/repository'
+import {
+  IDLE_SNAPSHOT_DELAY,
+  rewrapRevisions,
+  snapshotNote,
+  type RevisionContent,
+  type SnapshotReason,
+} from '@/lib/revisions'
+import { removeFromIndex } from '@/lib/search'
+import { getSettings, updateSettings } from '@/lib/settings'
+import { extractTags, matchesTag } from '@/lib/tags'
 import { cn } from '@/lib/utils'
+import { createNoteKey, lockVault, unlockVault } from '@/lib/vault'
+import {
+  extractLinks,
+  linkContext,
+  linkifyWikiLinks,
+  normalizeTitle,
+  parseWikiHref,
+  renameLinks,
+} from '@/lib/wiki-links'
 import { useAuth } from '@/hooks/use-auth'
+import { useCollab } from '@/hooks/use-collab'
+import { useServiceWorker } from '@/hooks/use-service-worker'
+import { useSync } from '@/hooks/use-sync'
+import { useVault } from '@/hooks/use-vault'
 import { usePWAInstall } from '@/hooks/user-pwa-install'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Badge } from '@/components/ui/badge'
 import { Button, buttonVariants } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 import {
@@ -55,7 +132,13 @@ import {
   DropdownMenuContent,
   DropdownMenuGroup,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 import { Input } from '@/components/ui/input'
@@ -64,11 +147,65 @@ import { Label } from '@/components/ui/label'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet'
 import { Switch } from '@/components/ui/switch'
-import { Textarea } from '@/components/ui/textarea'
+import ApiTokensDialog from '@/components/api-tokens-dialog'
+import BacklinksPanel, { type Backlink } from '@/components/backlinks-panel'
+import BackupDialog from '@/components/backup-dialog'
+import ConflictDialog, {
+  type ConflictResolution,
+  type ConflictVersion,
+} from '@/components/conflict-dialog'
+import ExportDialog from '@/components/export-dialog'
+import FolderTree, { NOTE_DRAG_TYPE } from '@/components/folder-tree'
+import HistoryPanel from '@/components/history-panel'
+import ImportDialog from '@/components/import-dialog'
+import MarkdownImage from '@/components/markdown-image'
+import NoteEditor from '@/components/note-editor'
 import PasswordValidator from '@/components/password-validator'
+import SearchDialog from '@/components/search-dialog'
+import ShareDialog from '@/components/share-dialog'
+import VaultDialog from '@/components/vault-dialog'
+import WebhooksDialog from '@/components/webhooks-dialog'
 
 import { mdWiki } from './markdown-miniwiki'
 
+// react-markdown drops URLs with unknown schemes, attachments are resolved
+// by the preview itself
+const transformUrl = (url: string) =>
+  isAttachmentUrl(url) ? url : defaultUrlTransform(url)
+
+// Title a wiki link can match, null while the title is sealed
+function linkableTitle(note: Note, unlocked: NotePayload | undefined) {
+  if (unlocked) return unlocked.title
+  if (isEnvelopeEncrypted(note) && !isLegacyEnvelope(note)) return null
+  return note.title
+}
+
+// Versions of the open note before and after it was changed in another
+// tab or on another device. Null while it is locked, as there is no
+// editor text to keep then.
+async function openNoteVersions(
+  before: Note,
+  after: Note,
+  unlocked: NotePayload | undefined
+): Promise<{ base: NotePayload; incoming: NotePayload } | null> {
+  if (!isEnvelopeEncrypted(after)) {
+    return {
+      base: { title: before.title, content: before.content },
+      incoming: { title: after.title, content: after.content },
+    }
+  }
+  const incoming = unlocked ? await tryDecrypt(after.id, after) : null
+  return unlocked && incoming ? { base: unlocked, incoming } : null
+}
+
+// Text typed since `base` was saved is merged line by line with the
+// incoming version, or kept as is when both changed the same lines
+function mergeIntoEditor(base: string, editor: string, incoming: string) {
+  if (editor === base) return incoming
+  const merged = merge3(base, editor, incoming)
+  return merged.clean ? merged.content : editor
+}
+
 export default function NotesApp() {
   const [notes, setNotes] = useState<Note[]>([])
   const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null)
@@ -86,30 +223,92 @@ export default function NotesApp() {
   const [encryptDialogOpen, setEncryptDialogOpen] = useState(false)
   const [unlockDialogOpen, setUnlockDialogOpen] = useState(false)
   const [encryptPassword, setEncryptPassword] = useState('')
+  const [encryptionMode, setEncryptionMode] = useState<'password' | 'vault'>(
+    'password'
+  )
+  const [vaultDialogOpen, setVaultDialogOpen] = useState(false)
   const [unlockPassword, setUnlockPassword] = useState('')
   const [isEncrypting, setIsEncrypting] = useState(false)
   const [isDecrypting, setIsDecrypting] = useState(false)
-  const [decryptedContents, setDecryptedContents] = useState<
-    Map<string, string>
+  const [decryptedNotes, setDecryptedNotes] = useState<
+    Map<string, NotePayload>
   >(new Map())
 
+  // Trash states
+  const [showTrash, setShowTrash] = useState(false)
+  const [trashNotes, setTrashNotes] = useState<Note[]>([])
+  const [trashRetentionDays, setTrashRetentionDays] = useState(30)
+  const [kdf, setKdf] = useState<KdfName>('argon2id')
+  const [pendingDeletion, setPendingDeletion] = useState<Note[] | null>(null)
+
+  const [historyOpen, setHistoryOpen] = useState(false)
+  // Title when the title input was focused, to update links after a rename
+  const titleBeforeEdit = useRef<string | null>(null)
+  const [searchOpen, setSearchOpen] = useState(false)
+  const [importOpen, setImportOpen] = useState(false)
+  const [backupOpen, setBackupOpen] = useState(false)
+  const [apiTokensOpen, setApiTokensOpen] = useState(false)
+  const [webhooksOpen, setWebhooksOpen] = useState(false)
+  const [exportOpen, setExportOpen] = useState<'note' | 'backup' | null>(null)
+  const [shareOpen, setShareOpen] = useState(false)
+
+  // Organization states
+  const [folders, setFolders] = useState<Folder[]>([])
+  const [folderFilter, setFolderFilter] = useState<string | null>(null)
+  const [tagFilter, setTagFilter] = useState<string | null>(null)
+
+  // Sync conflict states
+  const [conflictDialogOpen, setConflictDialogOpen] = useState(false)
+  const [conflictState, setConflictState] = useState<{
+    conflict: NoteConflict
+    base: string
+    local: ConflictVersion
+    remote: ConflictVersion
+  } | null>(null)
+
   const { user, loading, signInWithOTP, verifyOTP, signOut } = useAuth()
+  const { vault, isUnlocked: isVaultOpen } = useVault(user?.id)
   const { setTheme, resolvedTheme } = useTheme()
   const { isInstallable, install } = usePWAInstall()
+  const { isUpdateAvailable, update } = useServiceWorker()
 
   const isNoteEncrypted = (note: Note) => {
-    return !!(note.encryptedContent && note.salt && note.nonce && note.authTag)
+    return isEnvelopeEncrypted(note)
   }
 
   const isNoteUnlocked = (noteId: string) => {
-    return decryptedContents.has(noteId)
+    return decryptedNotes.has(noteId)
+  }
+
+  // Sealed titles stay hidden until the note is unlocked
+  const noteTitle = (note: Note) => {
+    const unlocked = decryptedNotes.get(note.id)
+    if (unlocked) return unlocked.title || 'Untitled'
+    if (isNoteEncrypted(note) && !isLegacyEnvelope(note)) return 'Locked note'
+    return note.title || 'Untitled'
+  }
+
+  // Tags of encrypted notes are sealed with the content
+  const noteTags = (note: Note) => {
+    const unlocked = decryptedNotes.get(note.id)
+    if (unlocked) return unlocked.tags ?? extractTags(unlocked.content)
+    return note.tags ?? []
   }
 
   const loadNotes = useCallback(async () => {
     try {
       await notesDB.init()
+      const settings = await getSettings()
+      setTrashRetentionDays(settings.trashRetentionDays)
+      setKdf(settings.kdf)
+      configureKdf(settings.kdf)
+      await notesDB.purgeTrash(settings.trashRetentionDays, user?.id)
+      await collectAttachments(user?.id)
+
       const loadedNotes = await notesDB.getAllNotes(user?.id)
       setNotes(loadedNotes)
+      setTrashNotes(await notesDB.getDeletedNotes(user?.id))
+      setFolders(await notesDB.getFolders(user?.id))
       if (loadedNotes.length > 0) {
         const firstNote = loadedNotes[0]
         setSelectedNoteId(firstNote.id)
@@ -117,27 +316,13 @@ export default function NotesApp() {
 
         // Check if encrypted
         if (isNoteEncrypted(firstNote)) {
-          const cachedPassword = getCachedPassword(firstNote.id)
-          if (cachedPassword) {
-            try {
-              const decrypted = await decryptContent(
-                {
-                  encryptedContent: firstNote.encryptedContent!,
-                  salt: firstNote.salt!,
-                  nonce: firstNote.nonce!,
-                  authTag: firstNote.authTag!,
-                },
-                cachedPassword
-              )
-              setContent(decrypted)
-              setDecryptedContents(new Map([[firstNote.id, decrypted]]))
-            } catch {
-              setContent('')
-              setUnlockDialogOpen(true)
-            }
-          } else {
-            setContent('')
-            setUnlockDialogOpen(true)
+          // Stays locked until the user asks to unlock it, unless its
+          // password is cached or the vault is already unlocked
+          const decrypted = await tryDecrypt(firstNote.id, firstNote)
+          setContent(decrypted?.content ?? '')
+          if (decrypted !== null) {
+            setTitle(decrypted.title)
+            setDecryptedNotes(new Map([[firstNote.id, decrypted]]))
           }
         } else {
           setContent(firstNote.content)
@@ -152,12 +337,114 @@ export default function NotesApp() {
     loadNotes()
   }, [loadNotes])
 
+  // State as of the last render, for refreshes triggered from outside
+  const latest = useRef({ selectedNoteId, notes, decryptedNotes })
+  useEffect(() => {
+    latest.current = { selectedNoteId, notes, decryptedNotes }
+  }, [selectedNoteId, notes, decryptedNotes])
+
+  // Picks up sync status changes and notes written by other tabs or
+  // pulled from other devices, keeping what is being typed
+  const refreshNotes = useCallback(async () => {
+    try {
+      const { selectedNoteId, notes: known } = latest.current
+      const fresh = await notesDB.getAllNotes(user?.id)
+      setNotes(fresh)
+      setTrashNotes(await notesDB.getDeletedNotes(user?.id))
+      setFolders(await notesDB.getFolders(user?.id))
+
+      const before = known.find((n) => n.id === selectedNoteId)
+      const after = fresh.find((n) => n.id === selectedNoteId)
+      if (!before || !after || after.updatedAt === before.updatedAt) return
+      // Collaborative content arrives through the shared document instead
+      if (after.collabDocId) return
+
+      const versions = await openNoteVersions(
+        before,
+        after,
+        latest.current.decryptedNotes.get(after.id)
+      )
+      if (!versions || latest.current.selectedNoteId !== after.id) return
+      const { base, incoming } = versions
+      if (isEnvelopeEncrypted(after)) {
+        setDecryptedNotes((prev) => new Map(prev).set(after.id, incoming))
+      }
+      setTitle((title) => mergeIntoEditor(base.title, title, incoming.title))
+      setContent((content) =>
+        mergeIntoEditor(base.content, content, incoming.content)
+      )
+    } catch {}
+  }, [user])
+
+  useEffect(() => notesDB.onOtherTabChange(refreshNotes), [refreshNotes])
+
+  const { isOnline, isSyncing, syncNow } = useSync(user?.id, refreshNotes)
+
+  useEffect(() => {
+    if (!isUpdateAvailable) return
+    const id = toast('A new version is available', {
+      duration: Infinity,
+      action: { label: 'Reload', onClick: update },
+    })
+    return () => {
+      toast.dismiss(id)
+    }
+  }, [isUpdateAvailable, update])
+
+  const selectedSyncStatus = notes.find(
+    (n) => n.id === selectedNoteId
+  )?.syncStatus
+
+  useEffect(() => {
+    if (!selectedNoteId || selectedSyncStatus !== 'conflict') return
+    let cancelled = false
+
+    const loadConflict = async () => {
+      const conflict = await notesDB.getConflict(selectedNoteId)
+      const local = await notesDB.notes.get(selectedNoteId)
+      if (!conflict || !local || cancelled) return
+
+      // Encrypted versions can only be compared while their key is at hand
+      const plaintext = async (note: Note): Promise<ConflictVersion> => {
+        if (!isNoteEncrypted(note)) {
+          return { title: note.title, content: note.content }
+        }
+        const payload = await tryDecrypt(note.id, note)
+        return payload ?? { title: note.title, content: null }
+      }
+
+      const localVersion = await plaintext(local)
+      const remoteVersion = await plaintext(conflict.remote)
+      if (cancelled) return
+      setConflictState({
+        conflict,
+        base: local.baseContent ?? '',
+        local: localVersion,
+        remote: remoteVersion,
+      })
+      setConflictDialogOpen(true)
+    }
+
+    loadConflict()
+    return () => {
+      cancelled = true
+    }
+  }, [selectedNoteId, selectedSyncStatus])
+
   useEffect(() => {
     if (!selectedNoteId) return
     const timeout = setTimeout(async () => {
       const updatedNote = notes.find((n) => n.id === selectedNoteId)
       if (!updatedNote) return
 
+      // Selecting a note or refreshing the list must not count as an edit
+      const unlocked = decryptedNotes.get(selectedNoteId)
+      const titleChanged = title !== (unlocked?.title ?? updatedNote.title)
+      const contentChanged = isNoteEncrypted(updatedNote)
+        ? !!unlocked && content !== unlocked.content
+        : content !== updatedNote.content
+      if (!titleChanged && !contentChanged) return
+
       let noteToSave = {
         ...updatedNote,
         title,
@@ -165,57 +452,137 @@ export default function NotesApp() {
         userId: user?.id,
       }
 
-      // If note is encrypted, update encrypted content
+      // If note is encrypted, seal the title and content again
       if (isNoteEncrypted(updatedNote)) {
-        const cachedPassword = getCachedPassword(selectedNoteId)
-        if (cachedPassword && content) {
+        const secret = await resolveSecret(selectedNoteId, updatedNote)
+        if (secret) {
           try {
-            const encrypted = await encryptContent(content, cachedPassword)
             noteToSave = {
               ...noteToSave,
-              content: '', // Clear plaintext
-              encryptedContent: encrypted.encryptedContent,
-              salt: encrypted.salt,
-              nonce: encrypted.nonce,
-              authTag: encrypted.authTag,
+              ...(await encryptWithSecret(
+                { title, content },
+                secret,
+                updatedNote
+              )),
             }
-            setDecryptedContents((prev) =>
-              new Map(prev).set(selectedNoteId, content)
+            setDecryptedNotes((prev) =>
+              new Map(prev).set(selectedNoteId, { title, content })
             )
           } catch {
             toast.error('Failed to encrypt content')
             return
           }
+        } else if (!isLegacyEnvelope(updatedNote)) {
+          // A sealed title cannot change without the key
+          return
         }
       } else {
         noteToSave.content = content
       }
 
       try {
-        await notesDB.saveNote(noteToSave)
+        const saved = await notesDB.saveNote(noteToSave)
         setNotes((prev) =>
-          prev.map((n) => (n.id === selectedNoteId ? noteToSave : n))
+          prev.map((n) => (n.id === selectedNoteId ? saved : n))
         )
       } catch {
         toast.error('Failed to save note')
+        return
       }
+
+      snapshotNote(noteToSave, { title, content }, 'edit').catch(() => {})
     }, 500)
     return () => clearTimeout(timeout)
-  }, [title, content, selectedNoteId, notes, user])
+  }, [title, content, selectedNoteId, notes, user, decryptedNotes])
+
+  // Snapshot after a pause in typing
+  useEffect(() => {
+    if (!selectedNoteId) return
+    const timeout = setTimeout(async () => {
+      const note = await notesDB.notes.get(selectedNoteId)
+      if (!note) return
+      if (isEnvelopeEncrypted(note) && !decryptedNotes.has(note.id)) return
+      snapshotNote(note, { title, content }, 'idle').catch(() => {})
+    }, IDLE_SNAPSHOT_DELAY)
+    return () => clearTimeout(timeout)
+  }, [title, content, selectedNoteId, decryptedNotes])
+
+  // Notes sealed with an older layout or KDF are upgraded once unlocked.
+  // Only by their owner: editors may not change how a note is sealed.
+  useEffect(() => {
+    const outdated = notes.filter(
+      (n) =>
+        needsEnvelopeUpgrade(n) &&
+        decryptedNotes.has(n.id) &&
+        canEditNote(n) &&
+        !isSharedWithMe(n)
+    )
+    if (outdated.length === 0) return
 
-  const createNewNote = async () => {
+    const upgrade = async () => {
+      const upgraded = new Map<string, Note>()
+      for (const note of outdated) {
+        const stored = await notesDB.notes.get(note.id)
+        if (!stored || !needsEnvelopeUpgrade(stored)) continue
+        const secret = await resolveSecret(stored.id, stored)
+        if (!secret) continue
+
+        const payload = await decryptWithSecret(stored, secret)
+        // History first, while its old envelopes are still readable
+        await rewrapRevisions(stored.id, secret)
+        const sealed: Note = {
+          ...stored,
+          ...(await encryptWithSecret(payload, secret)),
+          updatedAt: Date.now(),
+        }
+        await notesDB.saveNote(sealed)
+        upgraded.set(sealed.id, sealed)
+      }
+      if (upgraded.size > 0) {
+        setNotes((prev) => prev.map((n) => upgraded.get(n.id) ?? n))
+      }
+    }
+
+    upgrade().catch(() => {})
+  }, [notes, decryptedNotes])
+
+  const snapshotCurrentNote = async (reason: SnapshotReason) => {
+    if (!selectedNoteId) return
+    const note = await notesDB.notes.get(selectedNoteId)
+    if (!note || (isNoteEncrypted(note) && !isNoteUnlocked(note.id))) return
+    try {
+      await snapshotNote(note, { title, content }, reason)
+    } catch {}
+  }
+
+  const restoreRevision = async (revision: RevisionContent) => {
+    // Keep the state being replaced so the restore can be undone
+    await snapshotCurrentNote('restore')
+    setTitle(revision.title)
+    setContent(revision.content)
+    setHistoryOpen(false)
+    toast.success('Revision restored')
+  }
+
+  // `linkTitle` creates the target of a wiki link that does not exist yet
+  const createNewNote = async (linkTitle?: string) => {
     const isFirstNote = notes.length === 0
     const newNote: Note = {
       id: crypto.randomUUID(),
-      title: isFirstNote ? 'Welcome to Notes' : 'New note',
-      content: isFirstNote ? mdWiki : '# New note\n\nStart writing here...',
+      title: linkTitle ?? (isFirstNote ? 'Welcome to Notes' : 'New note'),
+      content: linkTitle
+        ? `# ${linkTitle}\n\n`
+        : isFirstNote
+          ? mdWiki
+          : '# New note\n\nStart writing here...',
       createdAt: Date.now(),
       updatedAt: Date.now(),
       userId: user?.id,
+      folderId: folderFilter,
     }
     try {
-      await notesDB.saveNote(newNote)
-      setNotes([newNote, ...notes])
+      const saved = await notesDB.saveNote(newNote)
+      setNotes([saved, ...notes])
       setSelectedNoteId(newNote.id)
       setTitle(newNote.title)
       setContent(newNote.content)
@@ -224,13 +591,166 @@ export default function NotesApp() {
     }
   }
 
-  const deleteNote = async (id: string) => {
+  // Keeps wiki links pointing at the selected note after it is renamed.
+  // Locked notes keep their old links.
+  const updateLinksTo = async (from: string, to: string) => {
+    const fromKey = normalizeTitle(from)
+    if (!selectedNoteId || !fromKey || fromKey === normalizeTitle(to)) return
+    // Links to a title another note still has belong to that note
+    const stillTaken = notes.some((n) => {
+      if (n.id === selectedNoteId) return false
+      const other = linkableTitle(n, decryptedNotes.get(n.id))
+      return other !== null && normalizeTitle(other) === fromKey
+    })
+    if (stillTaken) return
+
+    const updated = new Map<string, Note>()
+    const updatedPayloads = new Map<string, NotePayload>()
+    for (const note of notes) {
+      if (note.id === selectedNoteId || !canEditNote(note)) continue
+      const unlocked = decryptedNotes.get(note.id)
+      const source = unlocked ?? (isNoteEncrypted(note) ? null : note)
+      if (!source) continue
+      const renamed = renameLinks(source.content, from, to)
+      if (renamed === source.content) continue
+
+      try {
+        if (unlocked) {
+          const secret = await resolveSecret(note.id, note)
+          if (!secret) continue
+          const payload = { title: unlocked.title, content: renamed }
+          const saved = await notesDB.saveNote({
+            ...note,
+            ...(await encryptWithSecret(payload, secret, note)),
+            updatedAt: Date.now(),
+          })
+          updated.set(note.id, saved)
+          updatedPayloads.set(note.id, payload)
+        } else {
+          const saved = await notesDB.saveNote({
+            ...note,
+            content: renamed,
+            updatedAt: Date.now(),
+          })
+          updated.set(note.id, saved)
+        }
+      } catch {}
+    }
+
+    // Links from the note to itself
+    setContent((prev) => renameLinks(prev, from, to))
+    if (updated.size === 0) return
+    setNotes((prev) => prev.map((n) => updated.get(n.id) ?? n))
+    setDecryptedNotes((prev) => {
+      const next = new Map(prev)
+      updatedPayloads.forEach((payload, id) => next.set(id, payload))
+      return next
+    })
+    toast.success(
+      updated.size === 1
+        ? 'Updated links in 1 note'
+        : `Updated links in ${updated.size} notes`
+    )
+  }
+
+  const openWikiLink = (target: string) => {
+    const linked = linkIndex.get(normalizeTitle(target))
+    if (linked) selectNote(linked.note)
+    else createNewNote(target)
+  }
+
+  const moveNote = async (noteId: string, folderId: string | null) => {
+    const note = notes.find((n) => n.id === noteId)
+    // Folders are per account, a shared note stays where its owner put it
+    if (!note || isSharedWithMe(note)) return
+    if ((note.folderId ?? null) === folderId) return
+    try {
+      const saved = await notesDB.saveNote({
+        ...note,
+        folderId,
+        updatedAt: Date.now(),
+      })
+      setNotes((prev) => prev.map((n) => (n.id === noteId ? saved : n)))
+    } catch {
+      toast.error('Failed to move note')
+    }
+  }
+
+  const createFolder = async (name: string, parentId: string | null) => {
+    const folder: Folder = {
+      id: crypto.randomUUID(),
+      name,
+      parentId,
+      userId: user?.id,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    }
+    try {
+      await notesDB.saveFolder(folder)
+      setFolders(await notesDB.getFolders(user?.id))
+    } catch {
+      toast.error('Failed to create folder')
+    }
+  }
+
+  const renameFolder = async (folder: Folder, name: string) => {
+    try {
+      await notesDB.saveFolder({ ...folder, name })
+      setFolders(await notesDB.getFolders(user?.id))
+    } catch {
+      toast.error('Failed to rename folder')
+    }
+  }
+
+  // Notes and subfolders move up to the parent of the deleted folder
+  const deleteFolder = async (folder: Folder) => {
+    try {
+      await notesDB.deleteFolder(folder.id)
+      if (folderFilter === folder.id) setFolderFilter(folder.parentId)
+      await refreshNotes()
+      toast.success(`Deleted folder "${folder.name}"`)
+    } catch {
+      toast.error('Failed to delete folder')
+    }
+  }
+
+  // Notes shared with this account are not deleted, only left
+  const leaveNote = async (note: Note) => {
+    try {
+      await leaveSharedNote(note)
+      if (selectedNoteId === note.id) setSelectedNoteId(null)
+      await refreshNotes()
+      toast.success(`Removed "${noteTitle(note)}" from your notes`)
+    } catch {
+      toast.error('Failed to leave shared note')
+    }
+  }
+
+  // Stores pasted or dropped files with the current note and returns the
+  // markdown referring to them
+  const attachFiles = async (files: File[]) => {
+    const note = notes.find((n) => n.id === selectedNoteId)
+    if (!note) return ''
+    const references: string[] = []
+    for (const file of files) {
+      try {
+        references.push(await addAttachment(note, file))
+      } catch (error) {
+        toast.error(
+          error instanceof Error ? error.message : 'Failed to attach file'
+        )
+      }
+    }
+    return references.join('\n')
+  }
+
+  const trashNote = async (id: string) => {
     try {
-      await notesDB.deleteNote(id, user?.id)
+      await notesDB.moveToTrash(id)
       const updated = notes.filter((n) => n.id !== id)
       setNotes(updated)
       clearPasswordCache(id)
-      setDecryptedContents((prev) => {
+      setDecryptedNotes((prev) => {
         const newMap = new Map(prev)
         newMap.delete(id)
         return newMap
@@ -245,78 +765,135 @@ export default function NotesApp() {
           setContent('')
         }
       }
-      toast.success('Note deleted')
+      setTrashNotes(await notesDB.getDeletedNotes(user?.id))
+      toast.success('Moved to trash', {
+        action: { label: 'Undo', onClick: () => restoreNote(id) },
+      })
     } catch {
       toast.error('Failed to delete note')
     }
   }
 
+  const restoreNote = async (id: string) => {
+    try {
+      await notesDB.restoreNote(id)
+      await refreshNotes()
+      toast.success('Note restored')
+    } catch {
+      toast.error('Failed to restore note')
+    }
+  }
+
+  // Permanent deletion always goes through the confirmation dialog
+  const confirmDeleteForever = async () => {
+    if (!pendingDeletion) return
+    try {
+      for (const note of pendingDeletion) {
+        await notesDB.deleteNote(note.id, note.userId)
+        clearPasswordCache(note.id)
+      }
+      const deletedIds = new Set(pendingDeletion.map((n) => n.id))
+      setTrashNotes((prev) => prev.filter((n) => !deletedIds.has(n.id)))
+      toast.success(
+        pendingDeletion.length === 1
+          ? 'Note deleted permanently'
+          : 'Trash emptied'
+      )
+    } catch {
+      toast.error('Failed to delete note')
+    } finally {
+      setPendingDeletion(null)
+    }
+  }
+
+  const changeKdf = async (name: KdfName) => {
+    try {
+      await updateSettings({ kdf: name })
+      setKdf(name)
+      configureKdf(name)
+    } catch {
+      toast.error('Failed to save setting')
+    }
+  }
+
+  const changeTrashRetention = async (days: number) => {
+    try {
+      await updateSettings({ trashRetentionDays: days })
+      setTrashRetentionDays(days)
+      if (await notesDB.purgeTrash(days, user?.id)) await refreshNotes()
+    } catch {
+      toast.error('Failed to save setting')
+    }
+  }
+
   const selectNote = async (note: Note) => {
+    if (selectedNoteId && selectedNoteId !== note.id) {
+      snapshotCurrentNote('switch')
+    }
     setSelectedNoteId(note.id)
     setTitle(note.title)
 
     if (isNoteEncrypted(note)) {
-      // Check cache first
-      const cachedPassword = getCachedPassword(note.id)
-      if (cachedPassword) {
-        try {
-          const decrypted = await decryptContent(
-            {
-              encryptedContent: note.encryptedContent!,
-              salt: note.salt!,
-              nonce: note.nonce!,
-              authTag: note.authTag!,
-            },
-            cachedPassword
-          )
-          setContent(decrypted)
-          setDecryptedContents((prev) => new Map(prev).set(note.id, decrypted))
-          return
-        } catch {
-          // Cache invalid, ask for password
-        }
+      // Cached password or unlocked vault first
+      const decrypted = await tryDecrypt(note.id, note)
+      if (decrypted !== null) {
+        setTitle(decrypted.title)
+        setContent(decrypted.content)
+        setDecryptedNotes((prev) => new Map(prev).set(note.id, decrypted))
+        return
       }
 
       // Check if already unlocked
-      const unlocked = decryptedContents.get(note.id)
-      if (unlocked) {
-        setContent(unlocked)
-      } else {
-        setContent('')
-        setUnlockDialogOpen(true)
-      }
+      const unlocked = decryptedNotes.get(note.id)
+      if (unlocked) setTitle(unlocked.title)
+      setContent(unlocked?.content ?? '')
     } else {
       setContent(note.content)
     }
   }
 
   const handleSetEncryption = async () => {
-    if (!selectedNoteId || !encryptPassword) return
+    if (!selectedNoteId) return
+    const withVault = encryptionMode === 'vault' && isVaultOpen
+    if (!withVault && !encryptPassword) return
     setIsEncrypting(true)
 
     try {
       const currentNote = notes.find((n) => n.id === selectedNoteId)
       if (!currentNote) return
 
-      const encrypted = await encryptContent(content, encryptPassword)
+      const secret: NoteSecret = withVault
+        ? await createNoteKey(user?.id)
+        : { password: encryptPassword }
+      // References then carry the keys of the attachments
+      const addKeys = await sealAttachments(currentNote, content)
+      const sealedContent = addKeys(content)
+      const sealed = await encryptWithSecret(
+        { title, content: sealedContent },
+        secret
+      )
 
       const updatedNote: Note = {
         ...currentNote,
-        content: '', // Clear plaintext
-        encryptedContent: encrypted.encryptedContent,
-        salt: encrypted.salt,
-        nonce: encrypted.nonce,
-        authTag: encrypted.authTag,
+        ...sealed, // Clears the plaintext title and content
+        // Shared documents are not encrypted
+        collabDocId: null,
         updatedAt: Date.now(),
       }
 
       await notesDB.saveNote(updatedNote)
+      await removeFromIndex(selectedNoteId)
+      await notesDB.clearCollabUpdates(selectedNoteId)
+      await rewrapRevisions(selectedNoteId, secret, addKeys)
       setNotes((prev) =>
         prev.map((n) => (n.id === selectedNoteId ? updatedNote : n))
       )
 
-      cachePassword(selectedNoteId, encryptPassword)
-      setDecryptedContents((prev) => new Map(prev).set(selectedNoteId, content))
+      if ('password' in secret) cachePassword(selectedNoteId, secret.password)
+      setDecryptedNotes((prev) =>
+        new Map(prev).set(selectedNoteId, { title, content: sealedContent })
+      )
+      setContent(sealedContent)
 
       toast.success('Note encrypted')
       setEncryptDialogOpen(false)
@@ -338,21 +915,21 @@ export default function NotesApp() {
 
       const updatedNote: Note = {
         ...currentNote,
-        content: content,
-        encryptedContent: undefined,
-        salt: undefined,
-        nonce: undefined,
-        authTag: undefined,
+        title,
+        content,
+        ...NO_ENVELOPE,
         updatedAt: Date.now(),
       }
 
+      // History is decrypted while the old key is still cached
+      await rewrapRevisions(selectedNoteId, null)
       await notesDB.saveNote(updatedNote)
       setNotes((prev) =>
         prev.map((n) => (n.id === selectedNoteId ? updatedNote : n))
       )
 
       clearPasswordCache(selectedNoteId)
-      setDecryptedContents((prev) => {
+      setDecryptedNotes((prev) => {
         const newMap = new Map(prev)
         newMap.delete(selectedNoteId)
         return newMap
@@ -376,21 +953,28 @@ export default function NotesApp() {
       const currentNote = notes.find((n) => n.id === selectedNoteId)
       if (!currentNote || !isNoteEncrypted(currentNote)) return
 
-      const decrypted = await decryptContent(
-        {
-          encryptedContent: currentNote.encryptedContent!,
-          salt: currentNote.salt!,
-          nonce: currentNote.nonce!,
-          authTag: currentNote.authTag!,
-        },
-        unlockPassword
-      )
+      if (isVaultEnvelope(currentNote)) {
+        // One passphrase opens every vault note for the session
+        await unlockVault(unlockPassword, user?.id)
+        const decrypted = await tryDecrypt(currentNote.id, currentNote)
+        if (decrypted === null) throw new Error('Vault key does not match')
+        setTitle(decrypted.title)
+        setContent(decrypted.content)
+        await decryptVaultNotes()
+        toast.success('Vault unlocked')
+        setUnlockDialogOpen(false)
+        setUnlockPassword('')
+        return
+      }
+
+      const decrypted = await decryptWithSecret(currentNote, {
+        password: unlockPassword,
+      })
 
-      setContent(decrypted)
+      setTitle(decrypted.title)
+      setContent(decrypted.content)
       cachePassword(selectedNoteId, unlockPassword)
-      setDecryptedContents((prev) =>
-        new Map(prev).set(selectedNoteId, decrypted)
-      )
+      setDecryptedNotes((prev) => new Map(prev).set(selectedNoteId, decrypted))
 
       toast.success('Note unlocked')
       setUnlockDialogOpen(false)
@@ -402,6 +986,66 @@ export default function NotesApp() {
     }
   }
 
+  // Fills in every vault note whose key is available after an unlock
+  const decryptVaultNotes = async () => {
+    const unlocked = new Map<string, NotePayload>()
+    for (const note of notes) {
+      if (!isVaultEnvelope(note)) continue
+      const decrypted = await tryDecrypt(note.id, note)
+      if (decrypted !== null) unlocked.set(note.id, decrypted)
+    }
+    setDecryptedNotes((prev) => new Map([...prev, ...unlocked]))
+    return unlocked
+  }
+
+  const handleResolveConflict = async (resolution: ConflictResolution) => {
+    if (!conflictState) return
+    const { noteId, remote } = conflictState.conflict
+
+    try {
+      if (resolution === 'remote') {
+        await notesDB.resolveConflict(noteId)
+        await refreshNotes()
+        if (selectedNoteId === noteId) await selectNote(remote)
+      } else {
+        const local = await notesDB.notes.get(noteId)
+        if (!local) return
+        let resolved: Note = local
+
+        if (resolution !== 'local') {
+          resolved = {
+            ...local,
+            title: resolution.title,
+            content: resolution.content,
+            updatedAt: Date.now(),
+          }
+          if (isNoteEncrypted(local)) {
+            const secret = await resolveSecret(noteId, local)
+            if (!secret) return toast.error('Unlock the note first')
+            resolved = {
+              ...resolved,
+              ...(await encryptWithSecret(resolution, secret)),
+            }
+            setDecryptedNotes((prev) => new Map(prev).set(noteId, resolution))
+          }
+          if (selectedNoteId === noteId) {
+            setTitle(resolution.title)
+            setContent(resolution.content)
+          }
+        }
+
+        await notesDB.resolveConflict(noteId, resolved)
+        await refreshNotes()
+      }
+
+      setConflictDialogOpen(false)
+      setConflictState(null)
+      toast.success('Conflict resolved')
+    } catch {
+      toast.error('Failed to resolve conflict')
+    }
+  }
+
   const formatMarkdown = async () => {
     if (!content || isFormatting) return
     setIsFormatting(true)
@@ -424,6 +1068,15 @@ export default function NotesApp() {
     }
   }
 
+  useHotkeys(
+    'mod+k',
+    (e) => {
+      e.preventDefault()
+      setSearchOpen(true)
+    },
+    { enableOnFormTags: ['INPUT', 'TEXTAREA'] }
+  )
+
   useHotkeys(
     'mod+f',
     (e) => {
@@ -464,82 +1117,282 @@ export default function NotesApp() {
     try {
       await signOut()
       clearPasswordCache()
-      setDecryptedContents(new Map())
+      lockVault()
+      setDecryptedNotes(new Map())
       toast.success('Signed out')
     } catch {}
   }
 
   const selectedNote = notes.find((n) => n.id === selectedNoteId)
+
+  // Encrypted notes never join a shared document, see lib/collab.ts
+  const { session: collab, peers } = useCollab(
+    user &&
+      hasCollabTransport &&
+      selectedNote?.collabDocId &&
+      !isNoteEncrypted(selectedNote) &&
+      canEditNote(selectedNote)
+      ? { id: selectedNote.id, collabDocId: selectedNote.collabDocId }
+      : null,
+    user ?? null,
+    content,
+    setContent
+  )
+
+  const toggleCollaboration = async () => {
+    if (!selectedNote || !user || isNoteEncrypted(selectedNote)) return
+    try {
+      const saved = await notesDB.saveNote({
+        ...selectedNote,
+        title,
+        content,
+        // A new document each time, older ones may have fallen behind
+        collabDocId: selectedNote.collabDocId ? null : crypto.randomUUID(),
+        updatedAt: Date.now(),
+      })
+      if (!saved.collabDocId) await notesDB.clearCollabUpdates(saved.id)
+      setNotes((prev) => prev.map((n) => (n.id === saved.id ? saved : n)))
+      toast.success(
+        saved.collabDocId
+          ? 'Collaborative editing on'
+          : 'Collaborative editing off'
+      )
+    } catch {
+      toast.error('Failed to update note')
+    }
+  }
+
+  // Wiki link targets by normalized title. The most recently updated note
+  // wins when titles collide.
+  const linkIndex = useMemo(() => {
+    const index = new Map<string, { note: Note; title: string }>()
+    for (const note of [...notes].sort((a, b) => b.updatedAt - a.updatedAt)) {
+      const linkTitle = linkableTitle(note, decryptedNotes.get(note.id))
+      const key = linkTitle && normalizeTitle(linkTitle)
+      if (key && !index.has(key)) index.set(key, { note, title: linkTitle })
+    }
+    return index
+  }, [notes, decryptedNotes])
+
+  const linkTargets = [...linkIndex.values()]
+    .filter((target) => target.note.id !== selectedNoteId)
+    .map((target) => target.title)
+
+  const backlinks = useMemo(() => {
+    const key = normalizeTitle(title)
+    const found: Backlink[] = []
+    let locked = 0
+    if (!selectedNoteId || !key) return { found, locked }
+
+    for (const note of notes) {
+      if (note.id === selectedNoteId) continue
+      const unlocked = decryptedNotes.get(note.id)
+      const source = unlocked ?? (isEnvelopeEncrypted(note) ? null : note)
+      if (!source) {
+        locked++
+      } else if (extractLinks(source.content).includes(key)) {
+        found.push({
+          noteId: note.id,
+          title: source.title || 'Untitled',
+          context: linkContext(source.content, title),
+        })
+      }
+    }
+    return { found, locked }
+  }, [notes, decryptedNotes, selectedNoteId, title])
+  const searchableIds = useMemo(() => new Set(notes.map((n) => n.id)), [notes])
+
+  // The selected folder and everything nested below it
+  const folderScope = useMemo(() => {
+    if (!folderFilter) return null
+    const scope = new Set([folderFilter])
+    let grew = true
+    while (grew) {
+      grew = false
+      for (const folder of folders) {
+        if (folder.parentId && scope.has(folder.parentId)) {
+          if (!scope.has(folder.id)) grew = true
+          scope.add(folder.id)
+        }
+      }
+    }
+    return scope
+  }, [folders, folderFilter])
+
+  const allTags = [...new Set(notes.flatMap(noteTags))].sort()
+  const visibleNotes = notes.filter(
+    (n) =>
+      (!folderScope || (!!n.folderId && folderScope.has(n.folderId))) &&
+      (!tagFilter || noteTags(n).some((tag) => matchesTag(tag, tagFilter)))
+  )
+  const lockedCount = notes.filter(
+    (n) => isEnvelopeEncrypted(n) && !decryptedNotes.has(n.id)
+  ).length
   const isCurrentNoteEncrypted = selectedNote
     ? isNoteEncrypted(selectedNote)
     : false
+  const encryptWithVault = encryptionMode === 'vault' && isVaultOpen
+  const isTitleSealed =
+    !!selectedNote &&
+    isCurrentNoteEncrypted &&
+    !isLegacyEnvelope(selectedNote) &&
+    !decryptedNotes.has(selectedNote.id)
   const isCurrentNoteUnlocked = selectedNoteId
     ? isNoteUnlocked(selectedNoteId)
     : false
+  const isCurrentNoteShared = !!selectedNote && isSharedWithMe(selectedNote)
+  const isCurrentNoteReadOnly = !!selectedNote && !canEditNote(selectedNote)
+
+  const syncIcons = {
+    synced: CloudSavingDoneIcon,
+    pending: CloudUploadIcon,
+    failed: AlertCircleIcon,
+    conflict: GitMergeIcon,
+  }
+
+  const syncLabels = {
+    synced: 'Synced',
+    pending: 'Waiting to sync',
+    failed: 'Sync failed',
+    conflict: 'Edited on another device',
+  }
 
   const SidebarContent = () => {
     return (
       <>
         <div className="p-4 border-b">
-          <Button onClick={createNewNote} className="w-full">
-            <HugeiconsIcon icon={PlusSignIcon} strokeWidth={2} />
-            New note
-          </Button>
+          {showTrash ? (
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => setShowTrash(false)}
+              >
+                <HugeiconsIcon icon={ArrowLeft01Icon} strokeWidth={2} />
+                <span className="sr-only">Back to notes</span>
+              </Button>
+              <h2 className="flex-1 font-medium">Trash</h2>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setPendingDeletion(trashNotes)}
+                disabled={trashNotes.length === 0}
+                className="text-destructive"
+              >
+                Empty
+              </Button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <Button onClick={() => createNewNote()} className="flex-1">
+                <HugeiconsIcon icon={PlusSignIcon} strokeWidth={2} />
+                New note
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setSearchOpen(true)}
+              >
+                <HugeiconsIcon icon={Search01Icon} strokeWidth={2} />
+                <span className="sr-only">Search notes</span>
+              </Button>
+            </div>
+          )}
         </div>
         <ScrollArea className="flex-1">
-          <div className="p-4 space-y-2">
-            {notes.map((note) => {
-              const encrypted = isNoteEncrypted(note)
-              const unlocked = isNoteUnlocked(note.id)
-
-              return (
-                <Card
-                  key={note.id}
-                  className={cn(
-                    'p-3 cursor-pointer transition-colors bg-card',
-                    selectedNoteId === note.id
-                      ? 'bg-accent text-accent-foreground'
-                      : 'hover:bg-secondary hover:text-secondary-foreground'
-                  )}
-                  onClick={() => selectNote(note)}
-                >
+          {!showTrash && (
+            <div className="p-4 pb-0 space-y-4">
+              <FolderTree
+                folders={folders}
+                selectedFolderId={folderFilter}
+                onSelect={setFolderFilter}
+                onMoveNote={moveNote}
+                onCreate={createFolder}
+                onRename={renameFolder}
+                onDelete={deleteFolder}
+              />
+              {allTags.length > 0 && (
+                <div className="space-y-1">
+                  <p className="px-1 text-xs font-medium text-muted-foreground">
+                    Tags
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {allTags.map((tag) => (
+                      <Badge
+                        key={tag}
+                        render={<button type="button" />}
+                        variant={tagFilter === tag ? 'default' : 'secondary'}
+                        onClick={() =>
+                          setTagFilter((prev) => (prev === tag ? null : tag))
+                        }
+                      >
+                        #{tag}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+          {showTrash ? (
+            <div className="p-4 space-y-2">
+              {trashNotes.map((note) => (
+                <Card key={note.id} className="p-3 bg-card">
                   <div className="flex items-start justify-between gap-2">
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center gap-2 mb-1">
                         <HugeiconsIcon
-                          icon={encrypted ? LockIcon : File02Icon}
+                          icon={isNoteEncrypted(note) ? LockIcon : File02Icon}
                           strokeWidth={2}
-                          className={cn(
-                            'size-4 shrink-0',
-                            encrypted
-                              ? unlocked
-                                ? 'text-green-500'
-                                : 'text-yellow-500'
-                              : note.userId
-                                ? 'text-green-500'
-                                : 'text-muted-foreground'
-                          )}
+                          className="size-4 shrink-0 text-muted-foreground"
                         />
                         <h3 className="font-medium text-sm truncate">
-                          {note.title || 'Untitled'}
+                          {noteTitle(note)}
                         </h3>
                       </div>
-                      <p className="text-xs text-muted-foreground line-clamp-2">
-                        {encrypted && !unlocked
-                          ? '🔒 Encrypted'
-                          : encrypted && unlocked
-                            ? decryptedContents.get(note.id)?.substring(0, 60) +
-                              '...'
-                            : note.content.substring(0, 60) + '...'}
+                      <p className="text-xs text-muted-foreground">
+                        {trashRetentionDays > 0 && note.deletedAt
+                          ? `Deleted forever in ${Math.max(
+                              0,
+                              Math.ceil(
+                                (note.deletedAt +
+                                  trashRetentionDays * 24 * 60 * 60 * 1000 -
+                                  Date.now()) /
+                                  (24 * 60 * 60 * 1000)
+                              )
+                            )} days`
+                          : 'Kept until you delete it'}
                       </p>
                     </div>
+                    {isNoteEncrypted(note) && (
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        onClick={() =>
+                          downloadBlob(
+                            exportEncryptedNote(note),
+                            toFileName(noteTitle(note), 'json')
+                          )
+                        }
+                        className="shrink-0"
+                      >
+                        <HugeiconsIcon icon={Download01Icon} strokeWidth={2} />
+                        <span className="sr-only">Export encrypted</span>
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="icon-sm"
-                      onClick={(e) => {
-                        e.stopPropagation()
-                        deleteNote(note.id)
-                      }}
+                      onClick={() => restoreNote(note.id)}
+                      className="shrink-0"
+                    >
+                      <HugeiconsIcon icon={RestoreBinIcon} strokeWidth={2} />
+                      <span className="sr-only">Restore</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => setPendingDeletion([note])}
                       className="shrink-0"
                     >
                       <HugeiconsIcon
@@ -547,21 +1400,179 @@ export default function NotesApp() {
                         strokeWidth={2}
                         className="text-destructive"
                       />
+                      <span className="sr-only">Delete forever</span>
                     </Button>
                   </div>
                 </Card>
-              )
-            })}
-            {notes.length === 0 && (
-              <p className="text-center text-muted-foreground text-sm py-8">
-                No notes yet.
-                <br />
-                Create a new note to get started.
-              </p>
-            )}
-          </div>
+              ))}
+              {trashNotes.length === 0 && (
+                <p className="text-center text-muted-foreground text-sm py-8">
+                  Trash is empty.
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="p-4 space-y-2">
+              {visibleNotes.map((note) => {
+                const encrypted = isNoteEncrypted(note)
+                const unlocked = isNoteUnlocked(note.id)
+
+                return (
+                  <Card
+                    key={note.id}
+                    draggable={!isSharedWithMe(note)}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData(NOTE_DRAG_TYPE, note.id)
+                      e.dataTransfer.effectAllowed = 'move'
+                    }}
+                    className={cn(
+                      'p-3 cursor-pointer transition-colors bg-card',
+                      selectedNoteId === note.id
+                        ? 'bg-accent text-accent-foreground'
+                        : 'hover:bg-secondary hover:text-secondary-foreground'
+                    )}
+                    onClick={() => selectNote(note)}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <HugeiconsIcon
+                            icon={encrypted ? LockIcon : File02Icon}
+                            strokeWidth={2}
+                            className={cn(
+                              'size-4 shrink-0',
+                              encrypted
+                                ? unlocked
+                                  ? 'text-green-500'
+                                  : 'text-yellow-500'
+                                : 'text-muted-foreground'
+                            )}
+                          />
+                          <h3 className="font-medium text-sm truncate">
+                            {noteTitle(note)}
+                          </h3>
+                          {isSharedWithMe(note) && (
+                            <HugeiconsIcon
+                              icon={UserGroupIcon}
+                              strokeWidth={2}
+                              aria-label={`Shared by ${note.ownerEmail}`}
+                              className="size-3.5 shrink-0 text-muted-foreground"
+                            />
+                          )}
+                          {note.userId && (
+                            <HugeiconsIcon
+                              icon={syncIcons[note.syncStatus ?? 'pending']}
+                              strokeWidth={2}
+                              aria-label={
+                                syncLabels[note.syncStatus ?? 'pending']
+                              }
+                              className={cn(
+                                'size-3.5 shrink-0 ml-auto',
+                                note.syncStatus === 'synced'
+                                  ? 'text-green-500'
+                                  : note.syncStatus === 'failed'
+                                    ? 'text-destructive'
+                                    : note.syncStatus === 'conflict'
+                                      ? 'text-yellow-500'
+                                      : 'text-muted-foreground'
+                              )}
+                            />
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground line-clamp-2">
+                          {encrypted && !unlocked
+                            ? '🔒 Encrypted'
+                            : encrypted && unlocked
+                              ? decryptedNotes
+                                  .get(note.id)
+                                  ?.content.substring(0, 60) + '...'
+                              : note.content.substring(0, 60) + '...'}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        title={
+                          isSharedWithMe(note) ? 'Leave shared note' : undefined
+                        }
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          if (isSharedWithMe(note)) leaveNote(note)
+                          else trashNote(note.id)
+                        }}
+                        className="shrink-0"
+                      >
+                        <HugeiconsIcon
+                          icon={Delete01Icon}
+                          strokeWidth={2}
+                          className="text-destructive"
+                        />
+                      </Button>
+                    </div>
+                  </Card>
+                )
+              })}
+              {notes.length > 0 && visibleNotes.length === 0 && (
+                <p className="text-center text-muted-foreground text-sm py-8">
+                  No notes here.
+                </p>
+              )}
+              {notes.length === 0 && (
+                <p className="text-center text-muted-foreground text-sm py-8">
+                  No notes yet.
+                  <br />
+                  Create a new note to get started.
+                </p>
+              )}
+            </div>
+          )}
         </ScrollArea>
-        <div className="p-4">
+        <div className="p-4 space-y-2">
+          <div className="flex items-center gap-2">
+            <Button
+              variant={showTrash ? 'secondary' : 'ghost'}
+              className="flex-1 justify-start"
+              onClick={() => setShowTrash(!showTrash)}
+            >
+              <HugeiconsIcon icon={Delete01Icon} strokeWidth={2} />
+              Trash
+              {trashNotes.length > 0 && (
+                <span className="ml-auto text-xs text-muted-foreground">
+                  {trashNotes.length}
+                </span>
+              )}
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger
+                render={<Button variant="ghost" size="icon-sm" />}
+              >
+                <HugeiconsIcon icon={Clock01Icon} strokeWidth={2} />
+                <span className="sr-only">Trash retention</span>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent side="top">
+                <DropdownMenuGroup>
+                  <DropdownMenuLabel>
+                    Empty trash automatically
+                  </DropdownMenuLabel>
+                  <DropdownMenuRadioGroup
+                    value={trashRetentionDays}
+                    onValueChange={(value) =>
+                      changeTrashRetention(value as number)
+                    }
+                  >
+                    {[7, 30, 90].map((days) => (
+                      <DropdownMenuRadioItem key={days} value={days}>
+                        After {days} days
+                      </DropdownMenuRadioItem>
+                    ))}
+                    <DropdownMenuRadioItem value={0}>
+                      Never
+                    </DropdownMenuRadioItem>
+                  </DropdownMenuRadioGroup>
+                </DropdownMenuGroup>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
           <DropdownMenu>
             <DropdownMenuTrigger
               className={cn(
@@ -635,7 +1646,130 @@ export default function NotesApp() {
                   />
                   Install
                 </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="group"
+                  onClick={() => setVaultDialogOpen(true)}
+                >
+                  <HugeiconsIcon
+                    icon={Key01Icon}
+                    strokeWidth={2}
+                    className="size-4 shrink-0"
+                  />
+                  Vault
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {!vault ? 'Set up' : isVaultOpen ? 'Unlocked' : 'Locked'}
+                  </span>
+                </DropdownMenuItem>
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger className="group">
+                    <HugeiconsIcon
+                      icon={SecurityLockIcon}
+                      strokeWidth={2}
+                      className="size-4 shrink-0"
+                    />
+                    Key derivation
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    <DropdownMenuGroup>
+                      <DropdownMenuLabel>
+                        Used for new passwords. Older notes are upgraded when
+                        unlocked.
+                      </DropdownMenuLabel>
+                      <DropdownMenuRadioGroup
+                        value={kdf}
+                        onValueChange={(value) => changeKdf(value as KdfName)}
+                      >
+                        <DropdownMenuRadioItem value="argon2id">
+                          Argon2id (recommended)
+                        </DropdownMenuRadioItem>
+                        <DropdownMenuRadioItem value="pbkdf2">
+                          PBKDF2 (faster on old devices)
+                        </DropdownMenuRadioItem>
+                      </DropdownMenuRadioGroup>
+                    </DropdownMenuGroup>
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+                <DropdownMenuItem
+                  className="group"
+                  onClick={() => setImportOpen(true)}
+                >
+                  <HugeiconsIcon
+                    icon={FileImportIcon}
+                    strokeWidth={2}
+                    className="size-4 shrink-0"
+                  />
+                  Import notes
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="group"
+                  onClick={() => setExportOpen('backup')}
+                >
+                  <HugeiconsIcon
+                    icon={Archive02Icon}
+                    strokeWidth={2}
+                    className="size-4 shrink-0"
+                  />
+                  Back up all notes
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="group"
+                  onClick={() => setBackupOpen(true)}
+                >
+                  <HugeiconsIcon
+                    icon={DatabaseRestoreIcon}
+                    strokeWidth={2}
+                    className="size-4 shrink-0"
+                  />
+                  Encrypted backup
+                </DropdownMenuItem>
+                {user && hasSupabaseFeatures && (
+                  <DropdownMenuItem
+                    className="group"
+                    onClick={() => setApiTokensOpen(true)}
+                  >
+                    <HugeiconsIcon
+                      icon={ApiIcon}
+                      strokeWidth={2}
+                      className="size-4 shrink-0"
+                    />
+                    API tokens
+                  </DropdownMenuItem>
+                )}
+                {user && hasSupabaseFeatures && (
+                  <DropdownMenuItem
+                    className="group"
+                    onClick={() => setWebhooksOpen(true)}
+                  >
+                    <HugeiconsIcon
+                      icon={WebhookIcon}
+                      strokeWidth={2}
+                      className="size-4 shrink-0"
+                    />
+                    Webhooks
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuSeparator />
+                {user && (
+                  <DropdownMenuItem
+                    className="group"
+                    onClick={syncNow}
+                    disabled={!isOnline || isSyncing}
+                  >
+                    <HugeiconsIcon
+                      icon={isSyncing ? Loading03Icon : RefreshIcon}
+                      strokeWidth={2}
+                      className={cn(
+                        'size-4 shrink-0',
+                        isSyncing && 'animate-spin'
+                      )}
+                    />
+                    {!isOnline
+                      ? 'Offline'
+                      : isSyncing
+                        ? 'Syncing...'
+                        : 'Sync now'}
+                  </DropdownMenuItem>
+                )}
                 {user ? (
                   <DropdownMenuItem
                     variant="destructive"
@@ -659,7 +1793,18 @@ export default function NotesApp() {
 
   const menuActions = [
     {
-      show: isCurrentNoteEncrypted && isCurrentNoteUnlocked,
+      show:
+        selectedSyncStatus === 'conflict' &&
+        conflictState?.conflict.noteId === selectedNoteId,
+      label: 'Resolve conflict',
+      icon: GitMergeIcon,
+      onClick: () => setConflictDialogOpen(true),
+      buttonVariant: 'destructive',
+      dropdownVariant: 'destructive',
+    },
+    {
+      show:
+        isCurrentNoteEncrypted && isCurrentNoteUnlocked && !isCurrentNoteShared,
       label: 'Encrypted',
       icon: LockIcon,
       onClick: () => setEncryptDialogOpen(true),
@@ -667,7 +1812,7 @@ export default function NotesApp() {
       dropdownVariant: 'default',
     },
     {
-      show: !isCurrentNoteEncrypted,
+      show: !isCurrentNoteEncrypted && !isCurrentNoteShared,
       label: 'No encryption',
       icon: FileUnlockedIcon,
       onClick: () => setEncryptDialogOpen(true),
@@ -682,6 +1827,44 @@ export default function NotesApp() {
       buttonVariant: 'outline',
       dropdownVariant: 'default',
     },
+    {
+      show:
+        !!user &&
+        hasCollabTransport &&
+        !isCurrentNoteEncrypted &&
+        !isCurrentNoteShared,
+      label: selectedNote?.collabDocId ? 'Collaborating' : 'Collaborate',
+      icon: UserGroupIcon,
+      onClick: toggleCollaboration,
+      buttonVariant: selectedNote?.collabDocId ? 'default' : 'outline',
+      dropdownVariant: 'default',
+    },
+    {
+      show: !!user && hasSupabaseFeatures && !isCurrentNoteShared,
+      label: 'Share',
+      icon: Share01Icon,
+      onClick: () => setShareOpen(true),
+      disabled: !isCurrentNoteUnlocked && isCurrentNoteEncrypted,
+      buttonVariant: 'outline',
+      dropdownVariant: 'default',
+    },
+    {
+      show: true,
+      label: 'Export',
+      icon: Download01Icon,
+      onClick: () => setExportOpen('note'),
+      buttonVariant: 'outline',
+      dropdownVariant: 'default',
+    },
+    {
+      show: !isCurrentNoteReadOnly,
+      label: 'History',
+      icon: Clock01Icon,
+      onClick: () => setHistoryOpen(true),
+      disabled: !isCurrentNoteUnlocked && isCurrentNoteEncrypted,
+      buttonVariant: 'outline',
+      dropdownVariant: 'default',
+    },
     {
       show: true,
       label: isFormatting ? 'Formatting...' : 'Format',
@@ -690,6 +1873,7 @@ export default function NotesApp() {
       disabled:
         showPreview ||
         isFormatting ||
+        isCurrentNoteReadOnly ||
         (!isCurrentNoteUnlocked && isCurrentNoteEncrypted),
       kbd: 'Cmd + F',
       buttonVariant: 'default',
@@ -868,30 +2052,64 @@ export default function NotesApp() {
                 className="space-y-4"
               >
                 <p className="text-muted-foreground">
-                  This feature only encrypt the note content. It does not
-                  encrypt title and other metadata.
+                  The title and content are encrypted together. Only dates stay
+                  readable so the note can sync.
                 </p>
-                <div className="space-y-2">
-                  <Label htmlFor="encryptPassword">Password</Label>
-                  <Input
-                    id="encryptPassword"
-                    type="password"
-                    placeholder="Enter a strong password"
-                    value={encryptPassword}
-                    onChange={(e) => setEncryptPassword(e.target.value)}
-                    autoComplete="new-password"
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    If you lose this password, the note cannot be recovered.
-                  </p>
-
-                  <PasswordValidator value={encryptPassword} />
+                <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="encryptWithVault">Use vault key</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {!vault
+                        ? 'Set up a vault to unlock all notes with one passphrase.'
+                        : isVaultOpen
+                          ? 'Unlocks with your master passphrase.'
+                          : 'Unlock your vault to encrypt with it.'}
+                    </p>
+                  </div>
+                  {vault && isVaultOpen ? (
+                    <Switch
+                      id="encryptWithVault"
+                      checked={encryptionMode === 'vault'}
+                      onCheckedChange={(checked) =>
+                        setEncryptionMode(checked ? 'vault' : 'password')
+                      }
+                    />
+                  ) : (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setVaultDialogOpen(true)}
+                    >
+                      {vault ? 'Unlock' : 'Set up'}
+                    </Button>
+                  )}
                 </div>
+                {!encryptWithVault && (
+                  <div className="space-y-2">
+                    <Label htmlFor="encryptPassword">Password</Label>
+                    <Input
+                      id="encryptPassword"
+                      type="password"
+                      placeholder="Enter a strong password"
+                      value={encryptPassword}
+                      onChange={(e) => setEncryptPassword(e.target.value)}
+                      autoComplete="new-password"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      If you lose this password, the note cannot be recovered.
+                    </p>
+
+                    <PasswordValidator value={encryptPassword} />
+                  </div>
+                )}
                 <Button
                   type="submit"
                   className="w-full"
                   size="lg"
-                  disabled={isEncrypting || !encryptPassword}
+                  disabled={
+                    isEncrypting || (!encryptWithVault && !encryptPassword)
+                  }
                 >
                   {isEncrypting ? (
                     <>
@@ -915,13 +2133,183 @@ export default function NotesApp() {
         </DialogContent>
       </Dialog>
 
+      {/* Search Dialog */}
+      <SearchDialog
+        open={searchOpen}
+        onOpenChange={setSearchOpen}
+        noteIds={searchableIds}
+        unlocked={decryptedNotes}
+        lockedCount={lockedCount}
+        onSelect={(noteId) => {
+          const note = notes.find((n) => n.id === noteId)
+          if (note) selectNote(note)
+        }}
+      />
+
+      {/* Vault Dialog */}
+      <VaultDialog
+        open={vaultDialogOpen}
+        onOpenChange={setVaultDialogOpen}
+        userId={user?.id}
+        vault={vault}
+        isUnlocked={isVaultOpen}
+        onUnlocked={async () => {
+          const unlocked = await decryptVaultNotes()
+          const current = selectedNoteId && unlocked.get(selectedNoteId)
+          if (current) {
+            setTitle(current.title)
+            setContent(current.content)
+          }
+        }}
+      />
+
+      {/* Permanent Deletion Dialog */}
+      <AlertDialog
+        open={!!pendingDeletion}
+        onOpenChange={(open) => !open && setPendingDeletion(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingDeletion?.length === 1
+                ? 'Delete note forever?'
+                : `Delete ${pendingDeletion?.length ?? 0} notes forever?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              This cannot be undone. Deleted notes are removed from this device
+              and from every synced device.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {pendingDeletion?.some(isNoteEncrypted) && (
+            <div className="p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
+              <p className="text-sm text-yellow-600 dark:text-yellow-500">
+                ⚠️ Encrypted notes are included. Their content cannot be
+                recovered once deleted, not even with the password. Export the
+                encrypted note first if you may need it later.
+              </p>
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              variant="destructive"
+              onClick={confirmDeleteForever}
+            >
+              Delete forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <ImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        existing={notes.map((n) => ({
+          id: n.id,
+          title: linkableTitle(n, decryptedNotes.get(n.id)) ?? '',
+          content: isNoteEncrypted(n)
+            ? (decryptedNotes.get(n.id)?.content ?? null)
+            : n.content,
+        }))}
+        userId={user?.id}
+        folderId={folderFilter}
+        onImported={() => refreshNotes()}
+      />
+
+      <BackupDialog
+        open={backupOpen}
+        onOpenChange={setBackupOpen}
+        userId={user?.id}
+        onRestored={() => {
+          // Restored notes may use another vault or passwords
+          lockVault()
+          clearPasswordCache()
+          setDecryptedNotes(new Map())
+          loadNotes()
+        }}
+      />
+
+      <ApiTokensDialog
+        open={apiTokensOpen}
+        onOpenChange={setApiTokensOpen}
+        userId={user?.id}
+      />
+
+      <WebhooksDialog
+        open={webhooksOpen}
+        onOpenChange={setWebhooksOpen}
+        userId={user?.id}
+      />
+
+      <ExportDialog
+        open={exportOpen !== null}
+        onOpenChange={(open) => !open && setExportOpen(null)}
+        target={
+          exportOpen === 'backup'
+            ? {
+                type: 'backup',
+                notes,
+                folders,
+                unlocked: decryptedNotes,
+              }
+            : exportOpen === 'note' && selectedNote
+              ? {
+                  type: 'note',
+                  note: selectedNote,
+                  payload:
+                    isCurrentNoteEncrypted && !isCurrentNoteUnlocked
+                      ? null
+                      : { title, content },
+                }
+              : null
+        }
+      />
+
+      <ShareDialog
+        open={shareOpen}
+        onOpenChange={setShareOpen}
+        note={selectedNote ?? null}
+        payload={
+          isCurrentNoteEncrypted && !isCurrentNoteUnlocked
+            ? null
+            : { title, content }
+        }
+        user={user}
+      />
+
+      {/* History Panel */}
+      {selectedNote && (
+        <HistoryPanel
+          open={historyOpen}
+          onOpenChange={setHistoryOpen}
+          note={selectedNote}
+          current={{ title, content }}
+          onRestore={restoreRevision}
+        />
+      )}
+
+      {/* Sync Conflict Dialog */}
+      {conflictState && (
+        <ConflictDialog
+          key={`${conflictState.conflict.noteId}:${conflictState.conflict.detectedAt}`}
+          open={conflictDialogOpen}
+          onOpenChange={setConflictDialogOpen}
+          base={conflictState.base}
+          local={conflictState.local}
+          remote={conflictState.remote}
+          onResolve={handleResolveConflict}
+        />
+      )}
+
       {/* Unlock Dialog */}
       <Dialog open={unlockDialogOpen} onOpenChange={setUnlockDialogOpen}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>🔒 Note Encrypted</DialogTitle>
             <DialogDescription>
-              Enter the password to unlock this note.
+              {selectedNote && isVaultEnvelope(selectedNote)
+                ? 'Enter your master passphrase to unlock all vault notes.'
+                : 'Enter the password to unlock this note.'}
             </DialogDescription>
           </DialogHeader>
           <form
@@ -986,9 +2374,47 @@ export default function NotesApp() {
               <Input
                 value={title}
                 onChange={(e) => setTitle(e.target.value)}
-                placeholder="Note title"
+                onFocus={() => {
+                  titleBeforeEdit.current = title
+                }}
+                onBlur={() => {
+                  const from = titleBeforeEdit.current
+                  titleBeforeEdit.current = null
+                  if (from !== null && from !== title) {
+                    updateLinksTo(from, title)
+                  }
+                }}
+                placeholder={isTitleSealed ? 'Locked note' : 'Note title'}
+                disabled={isTitleSealed}
+                readOnly={isCurrentNoteReadOnly}
                 className="rounded-none font-semibold border-none bg-transparent focus-visible:ring-0 px-0"
               />
+              {isCurrentNoteShared && (
+                <Badge
+                  variant="secondary"
+                  title={`Shared by ${selectedNote?.ownerEmail}`}
+                  className="shrink-0"
+                >
+                  <HugeiconsIcon icon={UserGroupIcon} strokeWidth={2} />
+                  {selectedNote?.sharedRole === 'viewer'
+                    ? 'Can view'
+                    : 'Can edit'}
+                </Badge>
+              )}
+              {peers.length > 0 && (
+                <div className="flex -space-x-2">
+                  {peers.map((peer) => (
+                    <span
+                      key={peer.clientId}
+                      title={peer.user.name}
+                      className="size-7 shrink-0 rounded-full border-2 border-card flex items-center justify-center text-xs font-semibold text-white uppercase"
+                      style={{ backgroundColor: peer.user.color }}
+                    >
+                      {peer.user.name.slice(0, 1)}
+                    </span>
+                  ))}
+                </div>
+              )}
               <div className="items-center gap-2 hidden md:flex">
                 {menuActions
                   .filter((a) => a.show)
@@ -1053,20 +2479,92 @@ export default function NotesApp() {
               ) : showPreview ? (
                 <ScrollArea className="h-full">
                   <div className="p-8 max-w-5xl mx-auto markdown-preview">
-                    <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                      {content}
+                    <ReactMarkdown
+                      remarkPlugins={[remarkGfm]}
+                      urlTransform={transformUrl}
+                      components={{
+                        img: ({ src, alt }) =>
+                          typeof src === 'string' && src ? (
+                            <MarkdownImage src={src} alt={alt} />
+                          ) : null,
+                        a: ({ href, title, children }) => {
+                          if (isAttachmentUrl(href)) {
+                            return (
+                              <a
+                                href={href}
+                                title={title}
+                                onClick={(e) => {
+                                  e.preventDefault()
+                                  downloadAttachment(
+                                    href!,
+                                    typeof children === 'string'
+                                      ? children
+                                      : 'attachment'
+                                  ).catch(() =>
+                                    toast.error('Failed to open attachment')
+                                  )
+                                }}
+                              >
+                                {children}
+                              </a>
+                            )
+                          }
+                          const target = parseWikiHref(href)
+                          if (target === null) {
+                            return (
+                              <a href={href} title={title}>
+                                {children}
+                              </a>
+                            )
+                          }
+                          const exists = linkIndex.has(normalizeTitle(target))
+                          return (
+                            <a
+                              href={href}
+                              title={exists ? target : `Create "${target}"`}
+                              className={cn(
+                                !exists &&
+                                  'text-muted-foreground decoration-dashed'
+                              )}
+                              onClick={(e) => {
+                                e.preventDefault()
+                                openWikiLink(target)
+                              }}
+                            >
+                              {children}
+                            </a>
+                          )
+                        },
+                      }}
+                    >
+                      {linkifyWikiLinks(content)}
                     </ReactMarkdown>
                   </div>
                 </ScrollArea>
               ) : (
-                <Textarea
+                <NoteEditor
                   value={content}
-                  onChange={(e) => setContent(e.target.value)}
+                  onChange={setContent}
+                  linkTargets={linkTargets}
+                  collab={collab}
+                  onAttach={attachFiles}
+                  readOnly={isCurrentNoteReadOnly}
                   placeholder="Write your note in markdown..."
                   className="rounded-none h-full resize-none border-none focus-visible:ring-0 p-8 font-mono text-sm"
                 />
               )}
             </div>
+            {(!isCurrentNoteEncrypted || isCurrentNoteUnlocked) && (
+              <BacklinksPanel
+                key={selectedNoteId}
+                backlinks={backlinks.found}
+                lockedCount={backlinks.locked}
+                onSelect={(noteId) => {
+                  const note = notes.find((n) => n.id === noteId)
+                  if (note) selectNote(note)
+                }}
+              />
+            )}
           </>
         ) : (
           <div className="flex-1 flex items-center justify-center">
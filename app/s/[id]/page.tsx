@@ -0,0 +1,29 @@
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+
+import type { SharedSnapshotRow } from '@/lib/share'
+import { createClient } from '@/lib/supabase/server'
+import SharedNoteView from '@/components/shared-note-view'
+
+// Titles may be encrypted, and links are not meant to be found
+export const metadata: Metadata = {
+  title: 'Shared note · MCX.NOTES',
+  robots: { index: false, follow: false },
+}
+
+const SharedNotePage = async ({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) => {
+  const { id } = await params
+  const supabase = await createClient()
+  const { data } = await supabase
+    .rpc('get_shared_note', { share_id: id })
+    .maybeSingle()
+  if (!data) notFound()
+
+  return <SharedNoteView snapshot={data as SharedSnapshotRow} />
+}
+
+export default SharedNotePage
@@ -0,0 +1,269 @@
+#!/usr/bin/env bun
+// Command-line client for mcx-notes, see `mcx-notes help`
+import { spawnSync } from 'node:child_process'
+import { randomUUID } from 'node:crypto'
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { parseArgs } from 'node:util'
+
+import type { Note } from '@/lib/db'
+import { exportEncryptedNote, noteToMarkdown, toFileName } from '@/lib/export'
+import { isEnvelopeEncrypted, type NotePayload } from '@/lib/note-crypto'
+import { makeSnippet, tokenize } from '@/lib/search'
+
+import {
+  createNote,
+  fetchNotes,
+  findNote,
+  newSecret,
+  noteTitle,
+  openNote,
+  trashNote,
+  updateNote,
+} from './notes'
+import { ask, readStdin } from './prompt'
+import {
+  createCliClient,
+  requireUser,
+  saveProject,
+  type CliClient,
+} from './session'
+
+const USAGE = `Usage: mcx-notes <command> [options]
+
+Commands:
+  login [email]             Sign in with a one-time code sent by email
+  logout                    Forget the session
+  ls [--trash]              List notes, most recently changed first
+  cat <note>                Print a note's markdown
+  new [title]               Create a note from stdin or in $EDITOR
+      --encrypt [--vault]   Encrypt it with a password or the vault
+  edit <note> [--title t]   Edit a note in $EDITOR
+  rm <note>                 Move a note to the trash
+  search <query>            Find notes that are not encrypted
+  export [dir] [--decrypt]  Write every note to dir as markdown; encrypted
+                            notes stay encrypted unless --decrypt is given
+
+<note> is an id prefix as shown by ls, or a title.`
+
+const dateOf = (timestamp: number) =>
+  new Date(timestamp).toISOString().slice(0, 10)
+
+// Opens `text` in the user's editor and returns what was saved
+function editText(text: string) {
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi'
+  // A random name, nothing of the note ends up in the path
+  const file = join(tmpdir(), `mcx-${randomUUID()}.md`)
+  // Plaintext of encrypted notes only touches the disk while editing
+  writeFileSync(file, text, { mode: 0o600 })
+  try {
+    // The editor may carry arguments, so the shell splits it. The path is
+    // passed as a positional argument and never parsed as shell code.
+    const { status } = spawnSync('sh', ['-c', '$MCX_EDITOR "$1"', 'sh', file], {
+      env: { ...process.env, MCX_EDITOR: editor },
+      stdio: 'inherit',
+    })
+    if (status !== 0) throw new Error(`${editor} exited with ${status}`)
+    return readFileSync(file, 'utf8')
+  } finally {
+    rmSync(file, { force: true })
+  }
+}
+
+async function login(supabase: CliClient, email?: string) {
+  const address = email || (await ask('Email: '))
+  const { error } = await supabase.auth.signInWithOtp({ email: address })
+  if (error) throw error
+  const token = await ask(`Code sent to ${address}: `)
+  const { data, error: verifyError } = await supabase.auth.verifyOtp({
+    email: address,
+    token,
+    type: 'magiclink',
+  })
+  if (verifyError) throw verifyError
+  saveProject()
+  console.error(`Logged in as ${data.user?.email ?? address}`)
+}
+
+async function list(supabase: CliClient, userId: string, trash: boolean) {
+  for (const note of await fetchNotes(supabase, userId, { trash })) {
+    const marks =
+      (isEnvelopeEncrypted(note) ? 'E' : '-') + (note.ownerId ? 'S' : '-')
+    console.log(
+      `${note.id.slice(0, 8)}  ${dateOf(note.updatedAt)}  ${marks}  ${noteTitle(note)}`
+    )
+  }
+}
+
+async function search(supabase: CliClient, userId: string, query: string) {
+  const terms = tokenize(query)
+  if (terms.length === 0) throw new Error('Nothing to search for')
+  const notes = await fetchNotes(supabase, userId)
+  const plain = notes.filter((note) => !isEnvelopeEncrypted(note))
+
+  for (const note of plain) {
+    const tokens = new Set(tokenize(`${note.title} ${note.content}`))
+    const matches = terms.every((term) =>
+      [...tokens].some((token) => token.startsWith(term))
+    )
+    if (!matches) continue
+    const snippet = makeSnippet(note.content, terms).text.replace(/\s+/g, ' ')
+    console.log(`${note.id.slice(0, 8)}  ${noteTitle(note)}`)
+    if (snippet) console.log(`          ${snippet}`)
+  }
+  const skipped = notes.length - plain.length
+  if (skipped) console.error(`${skipped} encrypted notes were not searched`)
+}
+
+async function createFromInput(
+  supabase: CliClient,
+  userId: string,
+  title: string,
+  { encrypt, vault }: { encrypt: boolean; vault: boolean }
+) {
+  const piped = await readStdin()
+  const content = piped ?? editText('')
+  if (!title.trim() && !content.trim()) throw new Error('Nothing to save')
+  const secret = encrypt ? await newSecret(supabase, userId, vault) : null
+  const note = await createNote(supabase, userId, { title, content }, secret)
+  console.log(note.id)
+}
+
+async function edit(
+  supabase: CliClient,
+  userId: string,
+  note: Note,
+  title?: string
+) {
+  const { payload, secret } = await openNote(supabase, userId, note)
+  const content = editText(payload.content)
+  const next: NotePayload = { title: title ?? payload.title, content }
+  if (next.title === payload.title && next.content === payload.content) {
+    console.error('No changes')
+    return
+  }
+  await updateNote(supabase, note, next, secret)
+  console.error(`Saved "${next.title || 'Untitled'}"`)
+}
+
+async function exportNotes(
+  supabase: CliClient,
+  userId: string,
+  dir: string,
+  decrypt: boolean
+) {
+  mkdirSync(dir, { recursive: true })
+  const used = new Set<string>()
+  // Notes with the same title get numbered files
+  const fileFor = (title: string, extension: string) => {
+    let name = toFileName(title, extension)
+    for (let i = 2; used.has(name) || existsSync(join(dir, name)); i++) {
+      name = toFileName(`${title} ${i}`, extension)
+    }
+    used.add(name)
+    return join(dir, name)
+  }
+
+  let count = 0
+  for (const note of await fetchNotes(supabase, userId)) {
+    if (isEnvelopeEncrypted(note) && !decrypt) {
+      const file = fileFor(noteTitle(note), 'json')
+      writeFileSync(file, await exportEncryptedNote(note).text())
+    } else {
+      const { payload } = await openNote(supabase, userId, note)
+      const file = fileFor(payload.title || 'Untitled', 'md')
+      writeFileSync(file, noteToMarkdown({ ...note, ...payload }))
+    }
+    count++
+  }
+  console.error(`Exported ${count} notes to ${dir}`)
+}
+
+async function run(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      trash: { type: 'boolean', default: false },
+      encrypt: { type: 'boolean', default: false },
+      vault: { type: 'boolean', default: false },
+      decrypt: { type: 'boolean', default: false },
+      title: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  })
+  const [command, ...args] = positionals
+  if (!command || command === 'help' || values.help) {
+    console.log(USAGE)
+    return
+  }
+
+  const supabase = createCliClient()
+  if (command === 'login') return login(supabase, args[0])
+  if (command === 'logout') {
+    await supabase.auth.signOut({ scope: 'local' })
+    console.error('Logged out')
+    return
+  }
+
+  const user = await requireUser(supabase)
+  const target = async () => {
+    if (!args[0]) throw new Error(`Usage: mcx-notes ${command} <note>`)
+    return findNote(await fetchNotes(supabase, user.id), args.join(' '))
+  }
+
+  switch (command) {
+    case 'ls':
+      return list(supabase, user.id, values.trash)
+    case 'cat': {
+      const { payload } = await openNote(supabase, user.id, await target())
+      process.stdout.write(payload.content)
+      if (!payload.content.endsWith('\n')) process.stdout.write('\n')
+      return
+    }
+    case 'new':
+      return createFromInput(supabase, user.id, args.join(' '), {
+        encrypt: values.encrypt || values.vault,
+        vault: values.vault,
+      })
+    case 'edit':
+      return edit(supabase, user.id, await target(), values.title)
+    case 'rm': {
+      const note = await target()
+      await trashNote(supabase, note)
+      console.error(`Moved "${noteTitle(note)}" to the trash`)
+      return
+    }
+    case 'search':
+      return search(supabase, user.id, args.join(' '))
+    case 'export':
+      return exportNotes(
+        supabase,
+        user.id,
+        args[0] ?? 'mcx-notes-export',
+        values.decrypt
+      )
+    default:
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`)
+  }
+}
+
+run(process.argv.slice(2)).then(
+  // lib/crypto.ts keeps a timer running, exit explicitly
+  () => process.exit(0),
+  (error) => {
+    console.error(
+      error instanceof Error
+        ? error.message
+        : ((error as { message?: string })?.message ?? String(error))
+    )
+    process.exit(1)
+  }
+)
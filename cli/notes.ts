@@ -0,0 +1,265 @@
+// Notes as the command-line client sees them: read from and written to
+// Supabase with the same `Note` model and envelopes as the web app.
+// Encrypted notes are opened here with a password or the vault
+// passphrase, plaintext never leaves the machine.
+
+import {
+  generateKey,
+  unwrapKey,
+  unwrapKeyWithPrivateKey,
+  unwrapPrivateKey,
+  wrapKey,
+} from '@/lib/crypto'
+import type { Note } from '@/lib/db'
+import {
+  decryptWithSecret,
+  encryptWithSecret,
+  isEnvelopeEncrypted,
+  isLegacyEnvelope,
+  type NotePayload,
+  type NoteSecret,
+} from '@/lib/note-crypto'
+import {
+  noteToRow,
+  rowToNote,
+  rowToVault,
+  type NoteRow,
+  type ReceivedShareRow,
+  type VaultRow,
+} from '@/lib/sync'
+import { extractTags } from '@/lib/tags'
+import { openVault } from '@/lib/vault'
+
+import { askHidden } from './prompt'
+import type { CliClient } from './session'
+
+// Postgres error code of a write on top of a stale copy, see lib/sync.ts
+const STALE_REVISION = '40001'
+
+export function noteTitle(note: Note) {
+  if (isEnvelopeEncrypted(note) && !isLegacyEnvelope(note)) {
+    return 'Locked note'
+  }
+  return note.title || 'Untitled'
+}
+
+// Notes of the account and notes shared with it, most recent first
+export async function fetchNotes(
+  supabase: CliClient,
+  userId: string,
+  { trash = false } = {}
+): Promise<Note[]> {
+  const [{ data, error }, { data: shareData, error: shareError }] =
+    await Promise.all([
+      supabase
+        .from('notes')
+        .select('*')
+        .eq('deleted', trash)
+        .order('updated_at', { ascending: false }),
+      supabase
+        .from('note_shares')
+        .select('note_id, owner_id, owner_email, role, wrapped_key')
+        .eq('recipient_id', userId),
+    ])
+  if (error) throw error
+  if (shareError) throw shareError
+
+  const shares = new Map(
+    ((shareData ?? []) as ReceivedShareRow[]).map((s) => [s.note_id, s])
+  )
+  return ((data ?? []) as NoteRow[]).map((row) => {
+    const note = rowToNote(row)
+    const share = shares.get(row.id)
+    if (!share) return note
+    return {
+      ...note,
+      userId,
+      ownerId: share.owner_id,
+      ownerEmail: share.owner_email,
+      sharedRole: share.role,
+      sharedKey: share.wrapped_key ?? undefined,
+    }
+  })
+}
+
+// The note `ref` names: a unique id prefix or a title
+export function findNote(notes: Note[], ref: string) {
+  const byId = notes.filter((note) => note.id.startsWith(ref))
+  if (byId.length === 1) return byId[0]
+  if (byId.length > 1) throw new Error(`"${ref}" matches several notes`)
+
+  const title = ref.toLowerCase()
+  const byTitle = notes.filter(
+    (note) => noteTitle(note).toLowerCase() === title
+  )
+  if (byTitle.length === 1) return byTitle[0]
+  if (byTitle.length > 1) {
+    throw new Error(`Several notes are titled "${ref}", use the id`)
+  }
+  throw new Error(`No note matches "${ref}"`)
+}
+
+// Vault key and private key of the account, unlocked once per run
+let vaultKeys: Promise<{
+  dek: CryptoKey
+  privateKey: CryptoKey | null
+}> | null = null
+
+function unlockVault(supabase: CliClient, userId: string) {
+  vaultKeys ??= (async () => {
+    const { data, error } = await supabase
+      .from('vaults')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle()
+    if (error) throw error
+    if (!data) throw new Error('This account has no vault')
+    const vault = rowToVault(data as VaultRow)
+    const dek = await openVault(vault, await askHidden('Vault passphrase: '))
+    const privateKey = vault.wrappedPrivateKey
+      ? await unwrapPrivateKey(vault.wrappedPrivateKey, dek)
+      : null
+    return { dek, privateKey }
+  })()
+  return vaultKeys
+}
+
+// Asks for whatever opens the note's envelope
+async function resolveSecret(
+  supabase: CliClient,
+  userId: string,
+  note: Note
+): Promise<NoteSecret> {
+  if (!note.wrappedKey) {
+    return { password: await askHidden(`Password for ${note.id}: `) }
+  }
+  const { dek, privateKey } = await unlockVault(supabase, userId)
+  if (note.sharedKey) {
+    if (!privateKey) throw new Error('The vault has no key for shared notes')
+    return {
+      key: await unwrapKeyWithPrivateKey(note.sharedKey, privateKey),
+      wrappedKey: note.wrappedKey,
+    }
+  }
+  return {
+    key: await unwrapKey(note.wrappedKey, dek),
+    wrappedKey: note.wrappedKey,
+  }
+}
+
+// Title and content of the note, with the secret that opened it so an edit
+// can be sealed the same way
+export async function openNote(
+  supabase: CliClient,
+  userId: string,
+  note: Note
+): Promise<{ payload: NotePayload; secret: NoteSecret | null }> {
+  if (!isEnvelopeEncrypted(note)) {
+    return {
+      payload: { title: note.title, content: note.content, tags: note.tags },
+      secret: null,
+    }
+  }
+  const secret = await resolveSecret(supabase, userId, note)
+  try {
+    return { payload: await decryptWithSecret(note, secret), secret }
+  } catch {
+    throw new Error('Wrong password or passphrase')
+  }
+}
+
+// Secret for a new encrypted note: a password, or a fresh content key
+// wrapped with the vault key
+export async function newSecret(
+  supabase: CliClient,
+  userId: string,
+  useVault: boolean
+): Promise<NoteSecret> {
+  if (useVault) {
+    const { dek } = await unlockVault(supabase, userId)
+    const key = await generateKey()
+    return { key, wrappedKey: await wrapKey(key, dek) }
+  }
+  const password = await askHidden('New password: ')
+  if (password !== (await askHidden('Repeat password: '))) {
+    throw new Error('The passwords do not match')
+  }
+  return { password }
+}
+
+// Fields of a note holding `payload`, sealed when a secret is given
+async function sealedFields(
+  payload: NotePayload,
+  secret: NoteSecret | null,
+  previous?: Note
+): Promise<Partial<Note>> {
+  if (!secret) {
+    return { ...payload, tags: extractTags(payload.content) }
+  }
+  return encryptWithSecret(payload, secret, previous)
+}
+
+export async function createNote(
+  supabase: CliClient,
+  userId: string,
+  payload: NotePayload,
+  secret: NoteSecret | null
+): Promise<Note> {
+  const now = Date.now()
+  const note: Note = {
+    id: crypto.randomUUID(),
+    title: '',
+    content: '',
+    createdAt: now,
+    updatedAt: now,
+    userId,
+    folderId: null,
+    revision: 1,
+    ...(await sealedFields(payload, secret)),
+  }
+  const { error } = await supabase.from('notes').insert(noteToRow(note))
+  if (error) throw error
+  return note
+}
+
+async function writeNote(supabase: CliClient, note: Note) {
+  const { data, error } = await supabase
+    .from('notes')
+    .update(noteToRow(note))
+    .eq('id', note.id)
+    .select('id')
+  if (error?.code === STALE_REVISION) {
+    throw new Error('The note was changed elsewhere in the meantime')
+  }
+  if (error) throw error
+  // Row level security skips rows silently instead of failing
+  if (data.length === 0) {
+    throw new Error('The note was not saved, it is gone or read-only for you')
+  }
+}
+
+export async function updateNote(
+  supabase: CliClient,
+  note: Note,
+  payload: NotePayload,
+  secret: NoteSecret | null
+) {
+  await writeNote(supabase, {
+    ...note,
+    ...(await sealedFields(payload, secret, note)),
+    updatedAt: Date.now(),
+    revision: (note.revision ?? 0) + 1,
+  })
+}
+
+// Moves the note to the trash, as deleting in the app does
+export async function trashNote(supabase: CliClient, note: Note) {
+  const now = Date.now()
+  await writeNote(supabase, {
+    ...note,
+    deleted: true,
+    deletedAt: now,
+    updatedAt: now,
+    revision: (note.revision ?? 0) + 1,
+  })
+}
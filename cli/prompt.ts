@@ -0,0 +1,51 @@
+// Terminal input for the command-line client
+
+import { createInterface } from 'node:readline/promises'
+
+export async function ask(question: string) {
+  const rl = createInterface({ input: process.stdin, output: process.stderr })
+  try {
+    return (await rl.question(question)).trim()
+  } finally {
+    rl.close()
+  }
+}
+
+// Reads a line without echoing it, for passwords
+export function askHidden(question: string): Promise<string> {
+  const { stdin, stderr } = process
+  if (!stdin.isTTY) return ask(question)
+
+  stderr.write(question)
+  stdin.setRawMode(true)
+  stdin.resume()
+  stdin.setEncoding('utf8')
+  return new Promise((resolve, reject) => {
+    let value = ''
+    const done = (error?: Error) => {
+      stdin.setRawMode(false)
+      stdin.pause()
+      stdin.off('data', onData)
+      stderr.write('\n')
+      if (error) reject(error)
+      else resolve(value)
+    }
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n') return done()
+        if (char === '\u0003') return done(new Error('Cancelled'))
+        if (char === '\u007f' || char === '\b') value = value.slice(0, -1)
+        else value += char
+      }
+    }
+    stdin.on('data', onData)
+  })
+}
+
+// Everything piped to stdin, or null when it is a terminal
+export async function readStdin(): Promise<string | null> {
+  if (process.stdin.isTTY) return null
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer)
+  return Buffer.concat(chunks).toString('utf8')
+}
@@ -0,0 +1,91 @@
+// Supabase connection of the command-line client. The session is kept in
+// ~/.config/mcx-notes (or $XDG_CONFIG_HOME) and readable only by the user.
+
+import { chmodSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import { createClient } from '@supabase/supabase-js'
+
+const CONFIG_DIR = join(
+  process.env.XDG_CONFIG_HOME || join(homedir(), '.config'),
+  'mcx-notes'
+)
+const CONFIG_FILE = join(CONFIG_DIR, 'config.json')
+
+interface CliConfig {
+  supabaseUrl?: string
+  supabaseKey?: string
+  // Storage of the Supabase auth client, holds the session
+  auth?: Record<string, string>
+}
+
+function readConfig(): CliConfig {
+  try {
+    return JSON.parse(readFileSync(CONFIG_FILE, 'utf8')) as CliConfig
+  } catch {
+    return {}
+  }
+}
+
+function writeConfig(config: CliConfig) {
+  mkdirSync(CONFIG_DIR, { recursive: true, mode: 0o700 })
+  writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2), { mode: 0o600 })
+  chmodSync(CONFIG_FILE, 0o600)
+}
+
+const authStorage = {
+  getItem: (key: string) => readConfig().auth?.[key] ?? null,
+  setItem: (key: string, value: string) => {
+    const config = readConfig()
+    writeConfig({ ...config, auth: { ...config.auth, [key]: value } })
+  },
+  removeItem: (key: string) => {
+    const config = readConfig()
+    const auth = { ...config.auth }
+    delete auth[key]
+    writeConfig({ ...config, auth })
+  },
+}
+
+// Project settings come from the environment, as for the web app, or from
+// the last login
+export function createCliClient() {
+  const config = readConfig()
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL || config.supabaseUrl
+  const key =
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY || config.supabaseKey
+  if (!url || !key) {
+    throw new Error(
+      'Set NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY to log in'
+    )
+  }
+  return createClient(url, key, {
+    auth: {
+      storage: authStorage,
+      persistSession: true,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    },
+  })
+}
+
+export type CliClient = ReturnType<typeof createCliClient>
+
+// Remembers the project, so later commands work outside the repository
+export function saveProject() {
+  const config = readConfig()
+  writeConfig({
+    ...config,
+    supabaseUrl: process.env.NEXT_PUBLIC_SUPABASE_URL || config.supabaseUrl,
+    supabaseKey:
+      process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY || config.supabaseKey,
+  })
+}
+
+export async function requireUser(supabase: CliClient) {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+  if (!session) throw new Error('Not logged in, run `mcx-notes login` first')
+  return session.user
+}
@@ -0,0 +1,211 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  ApiIcon,
+  Copy01Icon,
+  Delete02Icon,
+  Key01Icon,
+} from '@hugeicons/core-free-icons'
+import { HugeiconsIcon } from '@hugeicons/react'
+import { toast } from 'sonner'
+
+import {
+  createApiToken,
+  listApiTokens,
+  revokeApiToken,
+  type ApiToken,
+} from '@/lib/api-tokens'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  })
+
+function describeToken(token: ApiToken) {
+  if (token.revokedAt) return `Revoked ${formatTime(token.revokedAt)}`
+  if (token.lastUsedAt) return `Last used ${formatTime(token.lastUsedAt)}`
+  return 'Never used'
+}
+
+const ApiTokensDialog = ({
+  open,
+  onOpenChange,
+  userId,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  userId?: string
+}) => {
+  const [tokens, setTokens] = useState<ApiToken[]>([])
+  const [name, setName] = useState('')
+  const [created, setCreated] = useState<string | null>(null)
+  const [isCreating, setIsCreating] = useState(false)
+
+  useEffect(() => {
+    if (!open || !userId) return
+    let cancelled = false
+    listApiTokens()
+      .then((loaded) => !cancelled && setTokens(loaded))
+      .catch(() => !cancelled && toast.error('Failed to load tokens'))
+    return () => {
+      cancelled = true
+    }
+  }, [open, userId])
+
+  const close = () => {
+    setTokens([])
+    setName('')
+    setCreated(null)
+    onOpenChange(false)
+  }
+
+  const create = async () => {
+    if (!userId || !name.trim()) return
+    setIsCreating(true)
+    try {
+      const { token, apiToken } = await createApiToken(userId, name)
+      setTokens((prev) => [apiToken, ...prev])
+      setCreated(token)
+      setName('')
+    } catch {
+      toast.error('Failed to create token')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const copyToken = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(token)
+      toast.success('Token copied')
+    } catch {
+      toast.error('Failed to copy token')
+    }
+  }
+
+  const revoke = async (token: ApiToken) => {
+    try {
+      await revokeApiToken(token.id)
+      setTokens((prev) =>
+        prev.map((t) =>
+          t.id === token.id ? { ...t, revokedAt: Date.now() } : t
+        )
+      )
+      toast.success(`Revoked "${token.name}"`)
+    } catch {
+      toast.error('Failed to revoke token')
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => (next ? onOpenChange(next) : close())}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HugeiconsIcon icon={ApiIcon} strokeWidth={2} className="size-5" />
+            API tokens
+          </DialogTitle>
+          <DialogDescription>
+            Scripts use a token to read and write your notes through /api/notes.
+            Encrypted notes are returned encrypted.
+          </DialogDescription>
+        </DialogHeader>
+        {!userId ? (
+          <p className="text-sm text-muted-foreground">
+            Sign in to create API tokens.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <form
+              className="space-y-2"
+              onSubmit={(e) => {
+                e.preventDefault()
+                create()
+              }}
+            >
+              <Label htmlFor="tokenName">New token</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="tokenName"
+                  placeholder="Daily log from CI"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+                <Button type="submit" disabled={!name.trim() || isCreating}>
+                  <HugeiconsIcon icon={Key01Icon} strokeWidth={2} />
+                  Create
+                </Button>
+              </div>
+            </form>
+            {created && (
+              <div className="space-y-2 rounded-xl border p-3">
+                <p className="text-xs text-muted-foreground">
+                  Copy the token now, it is not shown again. Send it as{' '}
+                  <code>Authorization: Bearer &lt;token&gt;</code>.
+                </p>
+                <div className="flex gap-2">
+                  <Input
+                    readOnly
+                    value={created}
+                    className="font-mono"
+                    onFocus={(e) => e.target.select()}
+                  />
+                  <Button variant="outline" onClick={() => copyToken(created)}>
+                    <HugeiconsIcon icon={Copy01Icon} strokeWidth={2} />
+                    Copy
+                  </Button>
+                </div>
+              </div>
+            )}
+            {tokens.length > 0 && (
+              <div className="max-h-60 overflow-y-auto rounded-xl border divide-y">
+                {tokens.map((token) => (
+                  <div key={token.id} className="flex items-center gap-2 p-2">
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm truncate">
+                        {token.name}{' '}
+                        <span className="font-mono text-xs text-muted-foreground">
+                          {token.prefix}…
+                        </span>
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {describeToken(token)}
+                      </p>
+                    </div>
+                    {!token.revokedAt && (
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        title="Revoke token"
+                        onClick={() => revoke(token)}
+                      >
+                        <HugeiconsIcon icon={Delete02Icon} strokeWidth={2} />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ApiTokensDialog
@@ -0,0 +1,81 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  ArrowDown01Icon,
+  ArrowRight01Icon,
+  Link01Icon,
+} from '@hugeicons/core-free-icons'
+import { HugeiconsIcon } from '@hugeicons/react'
+
+import { ScrollArea } from '@/components/ui/scroll-area'
+
+export interface Backlink {
+  noteId: string
+  title: string
+  // Line of the linking note that contains the link
+  context: string
+}
+
+const BacklinksPanel = ({
+  backlinks,
+  lockedCount,
+  onSelect,
+}: {
+  backlinks: Backlink[]
+  // Locked notes cannot be searched for links
+  lockedCount: number
+  onSelect: (noteId: string) => void
+}) => {
+  const [expanded, setExpanded] = useState(false)
+
+  if (backlinks.length === 0 && lockedCount === 0) return null
+
+  return (
+    <div className="border-t bg-card">
+      <button
+        type="button"
+        className="flex w-full items-center gap-2 px-4 py-2 text-sm text-muted-foreground hover:text-foreground"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <HugeiconsIcon
+          icon={expanded ? ArrowDown01Icon : ArrowRight01Icon}
+          strokeWidth={2}
+          className="size-4"
+        />
+        <HugeiconsIcon icon={Link01Icon} strokeWidth={2} className="size-4" />
+        {backlinks.length === 1
+          ? '1 backlink'
+          : `${backlinks.length} backlinks`}
+      </button>
+      {expanded && (
+        <ScrollArea className="max-h-48">
+          <div className="px-4 pb-3 space-y-1">
+            {backlinks.map((backlink) => (
+              <button
+                key={backlink.noteId}
+                type="button"
+                onClick={() => onSelect(backlink.noteId)}
+                className="w-full text-left rounded-lg px-2 py-1.5 hover:bg-secondary hover:text-secondary-foreground"
+              >
+                <p className="text-sm font-medium truncate">{backlink.title}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {backlink.context}
+                </p>
+              </button>
+            ))}
+            {lockedCount > 0 && (
+              <p className="px-2 text-xs text-muted-foreground">
+                {lockedCount === 1
+                  ? '1 locked note is not checked for links.'
+                  : `${lockedCount} locked notes are not checked for links.`}
+              </p>
+            )}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  )
+}
+
+export default BacklinksPanel
@@ -0,0 +1,293 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Download01Icon,
+  Loading03Icon,
+  RestoreBinIcon,
+  Upload01Icon,
+} from '@hugeicons/core-free-icons'
+import { HugeiconsIcon } from '@hugeicons/react'
+import { toast } from 'sonner'
+
+import {
+  createEncryptedBackup,
+  readEncryptedBackup,
+  restoreBackup,
+  type BackupPayload,
+  type RestoreMode,
+} from '@/lib/backup'
+import { downloadBlob } from '@/lib/export'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import PasswordValidator from '@/components/password-validator'
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  })
+
+const BackupDialog = ({
+  open,
+  onOpenChange,
+  userId,
+  onRestored,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  userId?: string
+  onRestored: () => void
+}) => {
+  const [tab, setTab] = useState<'create' | 'restore'>('create')
+  const [passphrase, setPassphrase] = useState('')
+  const [file, setFile] = useState<File | null>(null)
+  const [checked, setChecked] = useState<BackupPayload | null>(null)
+  const [mode, setMode] = useState<RestoreMode>('merge')
+  const [isBusy, setIsBusy] = useState(false)
+
+  const reset = () => {
+    setPassphrase('')
+    setFile(null)
+    setChecked(null)
+    setMode('merge')
+  }
+
+  const handleCreate = async () => {
+    setIsBusy(true)
+    try {
+      const blob = await createEncryptedBackup(passphrase, userId)
+      const date = new Date().toISOString().slice(0, 10)
+      downloadBlob(blob, `notes-${date}.mcxbackup`)
+      toast.success('Backup created')
+      reset()
+      onOpenChange(false)
+    } catch {
+      toast.error('Failed to create backup')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  // Nothing is written until the whole file has been decrypted and checked
+  const handleCheck = async () => {
+    if (!file) return
+    setIsBusy(true)
+    try {
+      setChecked(await readEncryptedBackup(await file.text(), passphrase))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Invalid backup')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleRestore = async () => {
+    if (!checked) return
+    setIsBusy(true)
+    try {
+      const summary = await restoreBackup(checked, mode, userId)
+      toast.success(
+        `Restored ${summary.restored} notes` +
+          (summary.kept ? `, kept ${summary.kept} newer local notes` : '') +
+          (summary.removed ? `, removed ${summary.removed}` : '')
+      )
+      reset()
+      onOpenChange(false)
+      onRestored()
+    } catch {
+      toast.error('Failed to restore backup')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const spinner = (
+    <HugeiconsIcon
+      icon={Loading03Icon}
+      strokeWidth={2}
+      className="animate-spin"
+    />
+  )
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) reset()
+        onOpenChange(next)
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Encrypted backup</DialogTitle>
+          <DialogDescription>
+            One file with all notes, folders, history and settings, locked with
+            a backup passphrase.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2">
+          {(['create', 'restore'] as const).map((value) => (
+            <Button
+              key={value}
+              variant={tab === value ? 'secondary' : 'ghost'}
+              onClick={() => {
+                reset()
+                setTab(value)
+              }}
+            >
+              {value === 'create' ? 'Create backup' : 'Restore'}
+            </Button>
+          ))}
+        </div>
+
+        {tab === 'create' ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleCreate()
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="backupPassphrase">Backup passphrase</Label>
+              <Input
+                id="backupPassphrase"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoComplete="new-password"
+              />
+              <p className="text-xs text-muted-foreground">
+                Needed to restore the backup. It cannot be recovered.
+              </p>
+              <PasswordValidator value={passphrase} />
+            </div>
+            <Button
+              type="submit"
+              className="w-full"
+              size="lg"
+              disabled={isBusy || passphrase.length < 5}
+            >
+              {isBusy ? (
+                spinner
+              ) : (
+                <HugeiconsIcon icon={Download01Icon} strokeWidth={2} />
+              )}
+              Download backup
+            </Button>
+          </form>
+        ) : !checked ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleCheck()
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="backupFile">Backup file</Label>
+              <Input
+                id="backupFile"
+                type="file"
+                accept=".mcxbackup,application/json"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="restorePassphrase">Backup passphrase</Label>
+              <Input
+                id="restorePassphrase"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoComplete="current-password"
+              />
+            </div>
+            <Button
+              type="submit"
+              className="w-full"
+              size="lg"
+              disabled={isBusy || !file || !passphrase}
+            >
+              {isBusy ? (
+                spinner
+              ) : (
+                <HugeiconsIcon icon={Upload01Icon} strokeWidth={2} />
+              )}
+              Check backup
+            </Button>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Backup from {formatTime(checked.createdAt)} with{' '}
+              {checked.notes.length} notes and {checked.folders.length} folders.
+              Its contents are intact.
+            </p>
+            <div className="space-y-2">
+              {(
+                [
+                  [
+                    'merge',
+                    'Merge',
+                    'Add notes from the backup. Notes changed here since then are kept.',
+                  ],
+                  [
+                    'replace',
+                    'Replace',
+                    'Make this device match the backup. Notes that are not in it are deleted.',
+                  ],
+                ] as const
+              ).map(([value, label, description]) => (
+                <label
+                  key={value}
+                  className="flex items-start gap-2 rounded-lg border p-3 cursor-pointer"
+                >
+                  <input
+                    type="radio"
+                    name="restoreMode"
+                    checked={mode === value}
+                    onChange={() => setMode(value)}
+                    className="mt-1 accent-primary"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium">{label}</span>
+                    <span className="block text-xs text-muted-foreground">
+                      {description}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <Button
+              className="w-full"
+              size="lg"
+              variant={mode === 'replace' ? 'destructive' : 'default'}
+              disabled={isBusy}
+              onClick={handleRestore}
+            >
+              {isBusy ? (
+                spinner
+              ) : (
+                <HugeiconsIcon icon={RestoreBinIcon} strokeWidth={2} />
+              )}
+              {mode === 'replace' ? 'Replace notes' : 'Restore backup'}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default BackupDialog
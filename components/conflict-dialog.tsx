@@ -0,0 +1,162 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { GitMergeIcon } from '@hugeicons/core-free-icons'
+import { HugeiconsIcon } from '@hugeicons/react'
+
+import { diffLines, merge3, type DiffLine } from '@/lib/diff'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Textarea } from '@/components/ui/textarea'
+
+export interface ConflictVersion {
+  title: string
+  // null when the version is encrypted and cannot be shown
+  content: string | null
+}
+
+export type ConflictResolution =
+  | 'local'
+  | 'remote'
+  | { title: string; content: string }
+
+const VersionPane = ({
+  label,
+  version,
+  lines,
+  highlight,
+}: {
+  label: string
+  version: ConflictVersion
+  lines: DiffLine[]
+  highlight: 'insert' | 'delete'
+}) => (
+  <div className="flex flex-col gap-2 min-w-0">
+    <p className="text-xs text-muted-foreground">{label}</p>
+    <p className="font-medium truncate">{version.title || 'Untitled'}</p>
+    <ScrollArea className="h-64 rounded-xl border bg-input/30">
+      {version.content === null ? (
+        <p className="p-3 text-muted-foreground">🔒 Encrypted</p>
+      ) : (
+        <pre className="p-3 font-mono text-xs whitespace-pre-wrap">
+          {lines
+            .filter((l) => l.op === 'equal' || l.op === highlight)
+            .map((l, i) => (
+              <div
+                key={i}
+                className={cn(
+                  l.op !== 'equal' &&
+                    (highlight === 'insert'
+                      ? 'bg-green-500/15'
+                      : 'bg-yellow-500/15')
+                )}
+              >
+                {l.line || ' '}
+              </div>
+            ))}
+        </pre>
+      )}
+    </ScrollArea>
+  </div>
+)
+
+const ConflictDialog = ({
+  open,
+  onOpenChange,
+  base,
+  local,
+  remote,
+  onResolve,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  base: string
+  local: ConflictVersion
+  remote: ConflictVersion
+  onResolve: (resolution: ConflictResolution) => void
+}) => {
+  const canMerge = local.content !== null && remote.content !== null
+
+  const lines = useMemo(
+    () => (canMerge ? diffLines(remote.content!, local.content!) : []),
+    [canMerge, local.content, remote.content]
+  )
+
+  const [merged, setMerged] = useState(() =>
+    canMerge ? merge3(base, local.content!, remote.content!).content : ''
+  )
+  const hasMarkers = /^(<<<<<<<|=======|>>>>>>>)/m.test(merged)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Edited on another device</DialogTitle>
+          <DialogDescription>
+            This note changed in two places at once and the edits overlap.
+            Choose which version to keep, or combine them below.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 md:grid-cols-2">
+          <VersionPane
+            label="This device"
+            version={local}
+            lines={lines}
+            highlight="insert"
+          />
+          <VersionPane
+            label="Other device"
+            version={remote}
+            lines={lines}
+            highlight="delete"
+          />
+        </div>
+        {canMerge && (
+          <div className="space-y-2">
+            <Label htmlFor="mergedContent">Merged result</Label>
+            <Textarea
+              id="mergedContent"
+              value={merged}
+              onChange={(e) => setMerged(e.target.value)}
+              className="max-h-64 font-mono text-xs"
+            />
+            {hasMarkers && (
+              <p className="text-xs text-amber-400">
+                Remove the conflict markers before saving the merge.
+              </p>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onResolve('remote')}>
+            Keep other device
+          </Button>
+          <Button variant="outline" onClick={() => onResolve('local')}>
+            Keep this device
+          </Button>
+          {canMerge && (
+            <Button
+              disabled={hasMarkers}
+              onClick={() => onResolve({ title: local.title, content: merged })}
+            >
+              <HugeiconsIcon icon={GitMergeIcon} strokeWidth={2} />
+              Save merged
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ConflictDialog
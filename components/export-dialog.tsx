@@ -0,0 +1,265 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Archive02Icon,
+  Download01Icon,
+  File02Icon,
+  LockIcon,
+  PrinterIcon,
+  SourceCodeIcon,
+} from '@hugeicons/core-free-icons'
+import { HugeiconsIcon } from '@hugeicons/react'
+import { toast } from 'sonner'
+
+import { notesDB, type Folder, type Note } from '@/lib/db'
+import {
+  createBackup,
+  downloadBlob,
+  exportEncryptedNote,
+  noteToHtml,
+  noteToMarkdown,
+  openPrintView,
+  toFileName,
+} from '@/lib/export'
+import { isEnvelopeEncrypted, type NotePayload } from '@/lib/note-crypto'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+
+export type ExportTarget =
+  | {
+      type: 'note'
+      note: Note
+      // Current title and content, null while the note is locked
+      payload: NotePayload | null
+    }
+  | {
+      type: 'backup'
+      notes: Note[]
+      folders: Folder[]
+      // Unlocked encrypted notes that may be written as plaintext
+      unlocked: Map<string, NotePayload>
+    }
+
+const ExportDialog = ({
+  open,
+  onOpenChange,
+  target,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  target: ExportTarget | null
+}) => {
+  // Encrypted notes only leave the app in plaintext when asked to
+  const [includePlaintext, setIncludePlaintext] = useState(false)
+
+  const close = () => {
+    setIncludePlaintext(false)
+    onOpenChange(false)
+  }
+
+  const renderNoteExport = (note: Note, payload: NotePayload | null) => {
+    const encrypted = isEnvelopeEncrypted(note)
+    const plaintext = !encrypted || includePlaintext ? payload : null
+    const exportable = plaintext && { ...note, ...plaintext }
+    const title = plaintext?.title ?? note.title
+
+    const exportHtml = async (print: boolean) => {
+      if (!exportable) return
+      try {
+        const html = await noteToHtml(exportable)
+        if (!print) {
+          downloadBlob(
+            new Blob([html], { type: 'text/html' }),
+            toFileName(title, 'html')
+          )
+        } else if (!openPrintView(html)) {
+          toast.error('Allow pop-ups to open the print view')
+          return
+        }
+        close()
+      } catch {
+        toast.error('Failed to export note')
+      }
+    }
+
+    return (
+      <div className="space-y-4">
+        {encrypted && (
+          <>
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => {
+                downloadBlob(
+                  exportEncryptedNote(note),
+                  toFileName(title, 'json')
+                )
+                close()
+              }}
+            >
+              <HugeiconsIcon icon={LockIcon} strokeWidth={2} />
+              Encrypted file (.json)
+            </Button>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="exportPlaintext" className="flex-col items-start">
+                Export decrypted content
+                <span className="text-xs font-normal text-muted-foreground">
+                  {payload
+                    ? 'Anyone with the file can read it.'
+                    : 'Unlock the note first.'}
+                </span>
+              </Label>
+              <Switch
+                id="exportPlaintext"
+                checked={includePlaintext}
+                onCheckedChange={setIncludePlaintext}
+                disabled={!payload}
+              />
+            </div>
+          </>
+        )}
+        <div className="grid grid-cols-3 gap-2">
+          <Button
+            variant="outline"
+            disabled={!exportable}
+            onClick={() => {
+              if (!exportable) return
+              downloadBlob(
+                new Blob([noteToMarkdown(exportable)], {
+                  type: 'text/markdown',
+                }),
+                toFileName(title, 'md')
+              )
+              close()
+            }}
+          >
+            <HugeiconsIcon icon={File02Icon} strokeWidth={2} />
+            Markdown
+          </Button>
+          <Button
+            variant="outline"
+            disabled={!exportable}
+            onClick={() => exportHtml(false)}
+          >
+            <HugeiconsIcon icon={SourceCodeIcon} strokeWidth={2} />
+            HTML
+          </Button>
+          <Button
+            variant="outline"
+            disabled={!exportable}
+            onClick={() => exportHtml(true)}
+          >
+            <HugeiconsIcon icon={PrinterIcon} strokeWidth={2} />
+            Print / PDF
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const renderBackup = (
+    notes: Note[],
+    folders: Folder[],
+    unlocked: Map<string, NotePayload>
+  ) => {
+    const encryptedCount = notes.filter(isEnvelopeEncrypted).length
+    const unlockedCount = notes.filter(
+      (n) => isEnvelopeEncrypted(n) && unlocked.has(n.id)
+    ).length
+
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {notes.length === 1 ? '1 note' : `${notes.length} notes`} as markdown
+          files in their folders.
+          {encryptedCount > 0 &&
+            ` ${encryptedCount} encrypted ${
+              encryptedCount === 1 ? 'note is' : 'notes are'
+            } kept encrypted.`}
+        </p>
+        {unlockedCount > 0 && (
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="backupPlaintext" className="flex-col items-start">
+              Decrypt unlocked notes
+              <span className="text-xs font-normal text-muted-foreground">
+                {unlockedCount === 1
+                  ? '1 unlocked note is written in plaintext.'
+                  : `${unlockedCount} unlocked notes are written in plaintext.`}
+              </span>
+            </Label>
+            <Switch
+              id="backupPlaintext"
+              checked={includePlaintext}
+              onCheckedChange={setIncludePlaintext}
+            />
+          </div>
+        )}
+        <Button
+          size="lg"
+          className="w-full"
+          disabled={notes.length === 0}
+          onClick={async () => {
+            try {
+              const date = new Date().toISOString().slice(0, 10)
+              downloadBlob(
+                await createBackup(
+                  notes,
+                  folders,
+                  await notesDB.attachments.toArray(),
+                  includePlaintext ? unlocked : undefined
+                ),
+                `notes-backup-${date}.zip`
+              )
+              close()
+            } catch {
+              toast.error('Failed to create backup')
+            }
+          }}
+        >
+          <HugeiconsIcon icon={Download01Icon} strokeWidth={2} />
+          Download backup
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => (next ? onOpenChange(next) : close())}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HugeiconsIcon
+              icon={target?.type === 'backup' ? Archive02Icon : Download01Icon}
+              strokeWidth={2}
+              className="size-5"
+            />
+            {target?.type === 'backup' ? 'Back up all notes' : 'Export note'}
+          </DialogTitle>
+          <DialogDescription>
+            {target?.type === 'backup'
+              ? 'Download a ZIP archive of every note.'
+              : 'Download this note or open it for printing.'}
+          </DialogDescription>
+        </DialogHeader>
+        {target?.type === 'note' &&
+          renderNoteExport(target.note, target.payload)}
+        {target?.type === 'backup' &&
+          renderBackup(target.notes, target.folders, target.unlocked)}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ExportDialog
@@ -0,0 +1,277 @@
+'use client'
+
+import { useState, type DragEvent } from 'react'
+import {
+  ArrowDown01Icon,
+  ArrowRight01Icon,
+  Delete01Icon,
+  Edit02Icon,
+  Folder01Icon,
+  FolderAddIcon,
+  FolderOpenIcon,
+  MoreHorizontalIcon,
+  Note01Icon,
+} from '@hugeicons/core-free-icons'
+import { HugeiconsIcon } from '@hugeicons/react'
+
+import type { Folder } from '@/lib/db'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Input } from '@/components/ui/input'
+
+// Data transfer type of a note card being dragged onto a folder
+export const NOTE_DRAG_TYPE = 'application/x-mcx-note-id'
+
+type NameDialog =
+  | { mode: 'create'; parentId: string | null }
+  | { mode: 'rename'; folder: Folder }
+
+const FolderTree = ({
+  folders,
+  selectedFolderId,
+  onSelect,
+  onMoveNote,
+  onCreate,
+  onRename,
+  onDelete,
+}: {
+  folders: Folder[]
+  // null shows every note
+  selectedFolderId: string | null
+  onSelect: (folderId: string | null) => void
+  onMoveNote: (noteId: string, folderId: string | null) => void
+  onCreate: (name: string, parentId: string | null) => void
+  onRename: (folder: Folder, name: string) => void
+  onDelete: (folder: Folder) => void
+}) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [nameDialog, setNameDialog] = useState<NameDialog | null>(null)
+  const [name, setName] = useState('')
+
+  // A folder whose parent is gone (deleted on another device) shows at the
+  // top level instead of disappearing
+  const folderIds = new Set(folders.map((f) => f.id))
+  const childrenOf = (parentId: string | null) =>
+    folders.filter(
+      (f) =>
+        (f.parentId && folderIds.has(f.parentId) ? f.parentId : null) ===
+        parentId
+    )
+
+  const toggle = (id: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+
+  const openNameDialog = (dialog: NameDialog) => {
+    setName(dialog.mode === 'rename' ? dialog.folder.name : '')
+    setNameDialog(dialog)
+  }
+
+  const submitName = () => {
+    const trimmed = name.trim()
+    if (!nameDialog || !trimmed) return
+    if (nameDialog.mode === 'create') {
+      onCreate(trimmed, nameDialog.parentId)
+      if (nameDialog.parentId) {
+        setExpanded((prev) => new Set(prev).add(nameDialog.parentId!))
+      }
+    } else {
+      onRename(nameDialog.folder, trimmed)
+    }
+    setNameDialog(null)
+  }
+
+  // Drop handlers shared by folder rows and the "All notes" row
+  const dropProps = (key: string, folderId: string | null) => ({
+    onDragOver: (e: DragEvent) => {
+      if (!e.dataTransfer.types.includes(NOTE_DRAG_TYPE)) return
+      e.preventDefault()
+      e.dataTransfer.dropEffect = 'move'
+      setDropTarget(key)
+    },
+    onDragLeave: () => setDropTarget((prev) => (prev === key ? null : prev)),
+    onDrop: (e: DragEvent) => {
+      const noteId = e.dataTransfer.getData(NOTE_DRAG_TYPE)
+      setDropTarget(null)
+      if (!noteId) return
+      e.preventDefault()
+      onMoveNote(noteId, folderId)
+    },
+  })
+
+  const rowClass = (active: boolean, key: string) =>
+    cn(
+      'flex items-center gap-1.5 rounded-lg pr-1 py-1 text-sm cursor-pointer',
+      active
+        ? 'bg-accent text-accent-foreground'
+        : 'hover:bg-secondary hover:text-secondary-foreground',
+      dropTarget === key && 'ring-2 ring-primary'
+    )
+
+  const renderFolder = (folder: Folder, depth: number) => {
+    const children = childrenOf(folder.id)
+    const isOpen = expanded.has(folder.id)
+
+    return (
+      <div key={folder.id}>
+        <div
+          className={rowClass(selectedFolderId === folder.id, folder.id)}
+          style={{ paddingLeft: `${depth * 12 + 4}px` }}
+          onClick={() => onSelect(folder.id)}
+          {...dropProps(folder.id, folder.id)}
+        >
+          <button
+            type="button"
+            className={cn(
+              'size-4 shrink-0 text-muted-foreground',
+              children.length === 0 && 'invisible'
+            )}
+            onClick={(e) => {
+              e.stopPropagation()
+              toggle(folder.id)
+            }}
+          >
+            <HugeiconsIcon
+              icon={isOpen ? ArrowDown01Icon : ArrowRight01Icon}
+              strokeWidth={2}
+              className="size-4"
+            />
+            <span className="sr-only">{isOpen ? 'Collapse' : 'Expand'}</span>
+          </button>
+          <HugeiconsIcon
+            icon={isOpen ? FolderOpenIcon : Folder01Icon}
+            strokeWidth={2}
+            className="size-4 shrink-0 text-muted-foreground"
+          />
+          <span className="flex-1 truncate">{folder.name}</span>
+          <DropdownMenu>
+            <DropdownMenuTrigger
+              render={
+                <Button
+                  variant="ghost"
+                  size="icon-xs"
+                  onClick={(e) => e.stopPropagation()}
+                />
+              }
+            >
+              <HugeiconsIcon icon={MoreHorizontalIcon} strokeWidth={2} />
+              <span className="sr-only">Folder actions</span>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuGroup>
+                <DropdownMenuItem
+                  onClick={() =>
+                    openNameDialog({ mode: 'create', parentId: folder.id })
+                  }
+                >
+                  <HugeiconsIcon icon={FolderAddIcon} strokeWidth={2} />
+                  New subfolder
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => openNameDialog({ mode: 'rename', folder })}
+                >
+                  <HugeiconsIcon icon={Edit02Icon} strokeWidth={2} />
+                  Rename
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  variant="destructive"
+                  onClick={() => onDelete(folder)}
+                >
+                  <HugeiconsIcon icon={Delete01Icon} strokeWidth={2} />
+                  Delete folder
+                </DropdownMenuItem>
+              </DropdownMenuGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        {isOpen && children.map((child) => renderFolder(child, depth + 1))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-0.5">
+      <div className="flex items-center justify-between px-1 pb-1">
+        <p className="text-xs font-medium text-muted-foreground">Folders</p>
+        <Button
+          variant="ghost"
+          size="icon-xs"
+          onClick={() => openNameDialog({ mode: 'create', parentId: null })}
+        >
+          <HugeiconsIcon icon={FolderAddIcon} strokeWidth={2} />
+          <span className="sr-only">New folder</span>
+        </Button>
+      </div>
+      <div
+        className={rowClass(selectedFolderId === null, 'all')}
+        style={{ paddingLeft: '4px' }}
+        onClick={() => onSelect(null)}
+        {...dropProps('all', null)}
+      >
+        <span className="size-4 shrink-0" />
+        <HugeiconsIcon
+          icon={Note01Icon}
+          strokeWidth={2}
+          className="size-4 shrink-0 text-muted-foreground"
+        />
+        <span className="flex-1 truncate">All notes</span>
+      </div>
+      {childrenOf(null).map((folder) => renderFolder(folder, 0))}
+
+      <Dialog
+        open={!!nameDialog}
+        onOpenChange={(open) => !open && setNameDialog(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {nameDialog?.mode === 'rename' ? 'Rename folder' : 'New folder'}
+            </DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              submitName()
+            }}
+            className="space-y-4"
+          >
+            <Input
+              autoFocus
+              placeholder="Folder name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Button
+              type="submit"
+              className="w-full"
+              size="lg"
+              disabled={!name.trim()}
+            >
+              {nameDialog?.mode === 'rename' ? 'Rename' : 'Create folder'}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+export default FolderTree
@@ -0,0 +1,224 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Clock01Icon, Undo02Icon } from '@hugeicons/core-free-icons'
+import { HugeiconsIcon } from '@hugeicons/react'
+
+import { notesDB, type Note, type NoteRevision } from '@/lib/db'
+import { diffLines } from '@/lib/diff'
+import { readRevision, type RevisionContent } from '@/lib/revisions'
+import { syncEngine } from '@/lib/sync'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+
+interface HistoryEntry {
+  revision: NoteRevision
+  // null when the revision is encrypted with a key we do not have
+  content: RevisionContent | null
+}
+
+const CURRENT = 'current'
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  })
+
+const HistoryPanel = ({
+  open,
+  onOpenChange,
+  note,
+  current,
+  onRestore,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  note: Note
+  current: RevisionContent
+  onRestore: (revision: RevisionContent) => void
+}) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [compareId, setCompareId] = useState<string>(CURRENT)
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+
+    const load = async () => {
+      const read = async () =>
+        Promise.all(
+          (await notesDB.getRevisions(note.id)).map(async (revision) => ({
+            revision,
+            content: await readRevision(revision),
+          }))
+        )
+
+      const local = await read()
+      if (cancelled) return
+      setEntries(local)
+      setSelectedId((prev) => prev ?? local[0]?.revision.id ?? null)
+
+      if (!note.userId) return
+      try {
+        await syncEngine.pullRevisions(note.id)
+        const merged = await read()
+        if (!cancelled) setEntries(merged)
+      } catch {
+        // Offline or not reachable, local history is still usable
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [open, note.id, note.userId])
+
+  const selected = entries.find((e) => e.revision.id === selectedId)
+  const compare =
+    compareId === CURRENT
+      ? current
+      : entries.find((e) => e.revision.id === compareId)?.content
+
+  const lines = useMemo(
+    () =>
+      selected?.content && compare
+        ? diffLines(compare.content, selected.content.content)
+        : [],
+    [selected, compare]
+  )
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="data-[side=right]:sm:max-w-3xl">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription>
+            Pick a revision to see what changed and restore it.
+          </SheetDescription>
+        </SheetHeader>
+        <div className="flex-1 min-h-0 grid grid-rows-[auto_1fr] md:grid-rows-1 md:grid-cols-[16rem_1fr] gap-4 px-4 pb-4">
+          <ScrollArea className="max-h-48 md:max-h-none md:h-full rounded-xl border">
+            <div className="p-2 space-y-1">
+              {entries.map(({ revision, content }) => (
+                <div
+                  key={revision.id}
+                  className={cn(
+                    'rounded-lg p-2 cursor-pointer transition-colors',
+                    selectedId === revision.id
+                      ? 'bg-accent text-accent-foreground'
+                      : 'hover:bg-secondary'
+                  )}
+                  onClick={() => setSelectedId(revision.id)}
+                >
+                  <div className="flex items-center gap-2">
+                    <HugeiconsIcon
+                      icon={Clock01Icon}
+                      strokeWidth={2}
+                      className="size-3.5 shrink-0"
+                    />
+                    <span className="text-xs">
+                      {formatTime(revision.createdAt)}
+                    </span>
+                  </div>
+                  <p className="text-sm truncate">
+                    {content ? content.title || 'Untitled' : '🔒 Encrypted'}
+                  </p>
+                  {selectedId !== revision.id && content && (
+                    <button
+                      type="button"
+                      className={cn(
+                        'text-xs underline-offset-2 hover:underline',
+                        compareId === revision.id
+                          ? 'text-primary'
+                          : 'text-muted-foreground'
+                      )}
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        setCompareId(
+                          compareId === revision.id ? CURRENT : revision.id
+                        )
+                      }}
+                    >
+                      {compareId === revision.id
+                        ? 'Comparing'
+                        : 'Compare with this'}
+                    </button>
+                  )}
+                </div>
+              ))}
+              {entries.length === 0 && (
+                <p className="text-center text-muted-foreground text-sm py-8">
+                  No history yet.
+                </p>
+              )}
+            </div>
+          </ScrollArea>
+          <div className="flex flex-col gap-2 min-h-0">
+            {selected && (
+              <div className="flex items-center gap-2">
+                <p className="flex-1 text-xs text-muted-foreground">
+                  {compareId === CURRENT
+                    ? 'Changes from the current version'
+                    : `Changes since ${formatTime(
+                        entries.find((e) => e.revision.id === compareId)!
+                          .revision.createdAt
+                      )}`}
+                </p>
+                <Button
+                  size="sm"
+                  disabled={!selected.content}
+                  onClick={() =>
+                    selected.content && onRestore(selected.content)
+                  }
+                >
+                  <HugeiconsIcon icon={Undo02Icon} strokeWidth={2} />
+                  Restore
+                </Button>
+              </div>
+            )}
+            <ScrollArea className="flex-1 min-h-0 rounded-xl border bg-input/30">
+              {selected && !selected.content ? (
+                <p className="p-3 text-muted-foreground">
+                  🔒 This revision is encrypted with a key that is not unlocked.
+                </p>
+              ) : (
+                <pre className="p-3 font-mono text-xs whitespace-pre-wrap">
+                  {lines.map((l, i) => (
+                    <div
+                      key={i}
+                      className={cn(
+                        l.op === 'insert' && 'bg-green-500/15',
+                        l.op === 'delete' &&
+                          'bg-destructive/15 line-through opacity-70'
+                      )}
+                    >
+                      {l.op === 'insert'
+                        ? '+ '
+                        : l.op === 'delete'
+                          ? '- '
+                          : '  '}
+                      {l.line}
+                    </div>
+                  ))}
+                </pre>
+              )}
+            </ScrollArea>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
+
+export default HistoryPanel
@@ -0,0 +1,250 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import {
+  AlertCircleIcon,
+  File02Icon,
+  Folder01Icon,
+  Loading03Icon,
+  Upload01Icon,
+} from '@hugeicons/core-free-icons'
+import { HugeiconsIcon } from '@hugeicons/react'
+import { toast } from 'sonner'
+
+import type { Note } from '@/lib/db'
+import {
+  findDuplicates,
+  importNotes,
+  previewImport,
+  type ImportCandidate,
+  type ImportError,
+} from '@/lib/import'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { ScrollArea } from '@/components/ui/scroll-area'
+
+const ACCEPTED = '.md,.markdown,.mdown,.txt,.zip,.enex,.json'
+
+const ImportDialog = ({
+  open,
+  onOpenChange,
+  existing,
+  userId,
+  folderId,
+  onImported,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Notes to check for duplicates. Content is null while locked.
+  existing: { id: string; title: string; content: string | null }[]
+  userId?: string
+  // Folder the imported notes go into
+  folderId: string | null
+  onImported: (notes: Note[]) => void
+}) => {
+  const filesInput = useRef<HTMLInputElement>(null)
+  const folderInput = useRef<HTMLInputElement>(null)
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([])
+  const [errors, setErrors] = useState<ImportError[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [isBusy, setIsBusy] = useState(false)
+
+  const reset = () => {
+    setCandidates([])
+    setErrors([])
+    setSelected(new Set())
+  }
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    setIsBusy(true)
+    try {
+      const preview = await previewImport([...files])
+      const checked = findDuplicates(preview.candidates, existing)
+      setCandidates(checked)
+      setErrors(preview.errors)
+      // Exact copies of existing notes start unchecked
+      setSelected(
+        new Set(
+          checked.filter((c) => !c.duplicateOf?.sameContent).map((c) => c.key)
+        )
+      )
+    } catch {
+      toast.error('Failed to read files')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const toggle = (key: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+
+  const handleImport = async () => {
+    setIsBusy(true)
+    try {
+      const imported = await importNotes(
+        candidates.filter((c) => selected.has(c.key)),
+        userId,
+        folderId
+      )
+      onImported(imported)
+      toast.success(
+        imported.length === 1
+          ? 'Imported 1 note'
+          : `Imported ${imported.length} notes`
+      )
+      reset()
+      onOpenChange(false)
+    } catch {
+      toast.error('Failed to import notes')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) reset()
+        onOpenChange(next)
+      }}
+    >
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Import notes</DialogTitle>
+          <DialogDescription>
+            Markdown files, folders and ZIP archives, Evernote (.enex) and
+            Simplenote (.json) exports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={filesInput}
+          type="file"
+          multiple
+          accept={ACCEPTED}
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(e.target.files)
+            e.target.value = ''
+          }}
+        />
+        <input
+          ref={(input) => {
+            folderInput.current = input
+            // Not in the React typings
+            input?.setAttribute('webkitdirectory', '')
+          }}
+          type="file"
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(e.target.files)
+            e.target.value = ''
+          }}
+        />
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="flex-1"
+            disabled={isBusy}
+            onClick={() => filesInput.current?.click()}
+          >
+            <HugeiconsIcon icon={File02Icon} strokeWidth={2} />
+            Choose files
+          </Button>
+          <Button
+            variant="outline"
+            className="flex-1"
+            disabled={isBusy}
+            onClick={() => folderInput.current?.click()}
+          >
+            <HugeiconsIcon icon={Folder01Icon} strokeWidth={2} />
+            Choose folder
+          </Button>
+        </div>
+
+        {(candidates.length > 0 || errors.length > 0) && (
+          <ScrollArea className="max-h-80 rounded-xl border">
+            <div className="p-2 space-y-1">
+              {candidates.map((c) => (
+                <label
+                  key={c.key}
+                  className="flex items-start gap-2 rounded-lg p-2 cursor-pointer hover:bg-secondary"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(c.key)}
+                    onChange={() => toggle(c.key)}
+                    className="mt-0.5 size-4 accent-primary"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium truncate">{c.title}</p>
+                      {c.duplicateOf && (
+                        <Badge variant="secondary">
+                          {c.duplicateOf.sameContent
+                            ? 'Already imported'
+                            : 'Same title'}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {c.source}
+                    </p>
+                  </div>
+                </label>
+              ))}
+              {errors.map((error, i) => (
+                <div
+                  key={i}
+                  className="flex items-start gap-2 rounded-lg p-2 text-destructive"
+                >
+                  <HugeiconsIcon
+                    icon={AlertCircleIcon}
+                    strokeWidth={2}
+                    className="mt-0.5 size-4 shrink-0"
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm truncate">{error.source}</p>
+                    <p className="text-xs">{error.message}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <Button
+          size="lg"
+          className="w-full"
+          disabled={isBusy || selected.size === 0}
+          onClick={handleImport}
+        >
+          <HugeiconsIcon
+            icon={isBusy ? Loading03Icon : Upload01Icon}
+            strokeWidth={2}
+            className={isBusy ? 'animate-spin' : undefined}
+          />
+          {selected.size === 1
+            ? 'Import 1 note'
+            : `Import ${selected.size} notes`}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ImportDialog
@@ -0,0 +1,44 @@
+'use client'
+
+import Image from 'next/image'
+import { ImageNotFound01Icon } from '@hugeicons/core-free-icons'
+import { HugeiconsIcon } from '@hugeicons/react'
+
+import { useAttachmentUrl } from '@/hooks/use-attachment-url'
+
+// Image in the note preview, either from the web or stored as an
+// attachment of the note, see lib/attachments.ts
+const MarkdownImage = ({ src, alt }: { src: string; alt?: string }) => {
+  const url = useAttachmentUrl(src)
+
+  if (url === undefined) {
+    return (
+      <span className="inline-block h-32 w-48 animate-pulse rounded-lg bg-muted" />
+    )
+  }
+  if (url === null) {
+    return (
+      <span className="inline-flex items-center gap-1 text-sm text-muted-foreground">
+        <HugeiconsIcon
+          icon={ImageNotFound01Icon}
+          strokeWidth={2}
+          className="size-4"
+        />
+        {alt || 'Image'} is not available
+      </span>
+    )
+  }
+  return (
+    // Sized by the image itself, blob and external URLs are not optimized
+    <Image
+      src={url}
+      alt={alt ?? ''}
+      width={0}
+      height={0}
+      unoptimized
+      className="h-auto w-auto max-w-full"
+    />
+  )
+}
+
+export default MarkdownImage
@@ -0,0 +1,387 @@
+'use client'
+
+import {
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+  type DragEvent,
+  type KeyboardEvent,
+} from 'react'
+import { File02Icon } from '@hugeicons/core-free-icons'
+import { HugeiconsIcon } from '@hugeicons/react'
+import type { RelativePosition } from 'yjs'
+
+import type { CollabSession } from '@/lib/collab'
+import { cn } from '@/lib/utils'
+import { normalizeTitle, openLinkAt } from '@/lib/wiki-links'
+import { Textarea } from '@/components/ui/textarea'
+
+const MAX_SUGGESTIONS = 8
+
+// Styles that affect where text wraps, copied to the measuring mirror
+const MIRRORED_STYLES = [
+  'box-sizing',
+  'width',
+  'padding-top',
+  'padding-right',
+  'padding-bottom',
+  'padding-left',
+  'border-top-width',
+  'border-right-width',
+  'border-bottom-width',
+  'border-left-width',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'line-height',
+  'letter-spacing',
+  'word-spacing',
+  'tab-size',
+  'text-indent',
+  'text-transform',
+]
+
+// Pixel position of the line holding the character at `index`, relative
+// to the textarea. Measured with a hidden copy of the text since textareas
+// do not expose it.
+function caretCoordinates(textarea: HTMLTextAreaElement, index: number) {
+  const style = getComputedStyle(textarea)
+  const mirror = document.createElement('div')
+  for (const name of MIRRORED_STYLES) {
+    mirror.style.setProperty(name, style.getPropertyValue(name))
+  }
+  mirror.style.position = 'absolute'
+  mirror.style.visibility = 'hidden'
+  mirror.style.whiteSpace = 'pre-wrap'
+  mirror.style.overflowWrap = 'break-word'
+  mirror.textContent = textarea.value.slice(0, index)
+
+  const marker = document.createElement('span')
+  marker.textContent = '​'
+  mirror.appendChild(marker)
+  document.body.appendChild(mirror)
+  const lineHeight = parseFloat(style.lineHeight) || marker.offsetHeight
+  const coordinates = {
+    top: marker.offsetTop - textarea.scrollTop,
+    left: marker.offsetLeft - textarea.scrollLeft,
+    height: lineHeight,
+  }
+  mirror.remove()
+  return coordinates
+}
+
+interface RemoteCursor {
+  clientId: number
+  name: string
+  color: string
+  top: number
+  left: number
+  height: number
+}
+
+// Carets of the other peers that fall into the visible part of the text
+function remoteCursors(
+  textarea: HTMLTextAreaElement,
+  collab: CollabSession
+): RemoteCursor[] {
+  return collab
+    .getPeers()
+    .filter((peer) => peer.cursor)
+    .map((peer) => ({
+      clientId: peer.clientId,
+      name: peer.user.name,
+      color: peer.user.color,
+      ...caretCoordinates(textarea, peer.cursor!.head),
+    }))
+    .filter((cursor) => cursor.top >= 0 && cursor.top < textarea.clientHeight)
+}
+
+interface Suggestions {
+  // Where the `[[` being completed starts
+  start: number
+  titles: string[]
+  top: number
+  left: number
+}
+
+// Markdown textarea that suggests note titles after `[[`. Given a
+// collaboration session, edits go through its shared document and the
+// cursors of the other peers are drawn over the text. Files pasted or
+// dropped into it are handed to `onAttach`, whose markdown is inserted at
+// the caret.
+const NoteEditor = ({
+  value,
+  onChange,
+  linkTargets,
+  collab,
+  onAttach,
+  readOnly,
+  placeholder,
+  className,
+}: {
+  value: string
+  onChange: (value: string) => void
+  // Titles that can be linked to
+  linkTargets: string[]
+  collab?: CollabSession | null
+  onAttach?: (files: File[]) => Promise<string>
+  readOnly?: boolean
+  placeholder?: string
+  className?: string
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [suggestions, setSuggestions] = useState<Suggestions | null>(null)
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [cursors, setCursors] = useState<RemoteCursor[]>([])
+  // Own selection, kept relative to the shared document so it stays on
+  // the same text while others edit before it
+  const selection = useRef<{
+    start: RelativePosition
+    end: RelativePosition
+  } | null>(null)
+  const restoreSelection = useRef<{ start: number; end: number } | null>(null)
+  // Edits go to the shared document first, so changes arriving from other
+  // peers before the next render are not lost
+  const change = (next: string) => {
+    collab?.replaceContent(next)
+    onChange(next)
+  }
+
+  // Measured once the new text has been laid out
+  const measureCursors = () =>
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current
+      if (collab && textarea) setCursors(remoteCursors(textarea, collab))
+    })
+
+  const trackSelection = (textarea: HTMLTextAreaElement) => {
+    if (!collab) return
+    const { selectionStart: start, selectionEnd: end } = textarea
+    selection.current = {
+      start: collab.trackPosition(start),
+      end: collab.trackPosition(end),
+    }
+    collab.setCursor({ anchor: start, head: end })
+  }
+
+  useEffect(() => {
+    if (!collab) return
+
+    // Changes from other peers replace the text, the caret stays where it
+    // was relative to the surrounding text
+    const keepSelection = () => {
+      const current = selection.current
+      if (current && document.activeElement === textareaRef.current) {
+        const start = collab.resolvePosition(current.start)
+        const end = collab.resolvePosition(current.end)
+        if (start !== null && end !== null) {
+          restoreSelection.current = { start, end }
+        }
+      }
+      measure()
+    }
+    const measure = () =>
+      requestAnimationFrame(() => {
+        const textarea = textareaRef.current
+        if (textarea) setCursors(remoteCursors(textarea, collab))
+      })
+
+    measure()
+    const stopContent = collab.onContentChange(keepSelection)
+    const stopPeers = collab.onPeersChange(measure)
+    return () => {
+      stopContent()
+      stopPeers()
+      collab.setCursor(null)
+      setCursors([])
+    }
+  }, [collab])
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current
+    const restore = restoreSelection.current
+    if (!textarea || !restore) return
+    restoreSelection.current = null
+    textarea.setSelectionRange(restore.start, restore.end)
+  }, [value])
+
+  const updateSuggestions = (textarea: HTMLTextAreaElement) => {
+    const open =
+      textarea.selectionStart === textarea.selectionEnd
+        ? openLinkAt(textarea.value, textarea.selectionStart)
+        : null
+    if (!open) {
+      setSuggestions(null)
+      return
+    }
+
+    const query = normalizeTitle(open.query)
+    const titles = linkTargets
+      .filter((title) => normalizeTitle(title).includes(query))
+      // Titles starting with the query first
+      .sort(
+        (a, b) =>
+          Number(!normalizeTitle(a).startsWith(query)) -
+          Number(!normalizeTitle(b).startsWith(query))
+      )
+      .slice(0, MAX_SUGGESTIONS)
+    if (titles.length === 0) {
+      setSuggestions(null)
+      return
+    }
+
+    const caret = caretCoordinates(textarea, open.start)
+    setSuggestions({
+      start: open.start,
+      titles,
+      top: caret.top + caret.height,
+      left: Math.min(caret.left, textarea.clientWidth - 256),
+    })
+    setActiveIndex((i) => Math.min(i, titles.length - 1))
+  }
+
+  const complete = (title: string) => {
+    const textarea = textareaRef.current
+    if (!textarea || !suggestions) return
+    let rest = value.slice(textarea.selectionStart)
+    // Brackets the user already closed
+    if (rest.startsWith(']]')) rest = rest.slice(2)
+    const link = `[[${title}]]`
+    const caret = suggestions.start + link.length
+    const next = value.slice(0, suggestions.start) + link + rest
+    change(next)
+    setSuggestions(null)
+    requestAnimationFrame(() => textarea.setSelectionRange(caret, caret))
+  }
+
+  const attach = async (files: File[], textarea: HTMLTextAreaElement) => {
+    if (!onAttach || readOnly || files.length === 0) return
+    const { selectionStart: start, selectionEnd: end } = textarea
+    const markdown = await onAttach(files)
+    if (!markdown) return
+    // The text may have changed while the files were stored
+    const current = textarea.value
+    const next = current.slice(0, start) + markdown + current.slice(end)
+    change(next)
+    const caret = start + markdown.length
+    requestAnimationFrame(() => textarea.setSelectionRange(caret, caret))
+  }
+
+  const hasFiles = (e: DragEvent<HTMLTextAreaElement>) =>
+    !!onAttach && !readOnly && e.dataTransfer.types.includes('Files')
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!suggestions) return
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setActiveIndex((i) => (i + 1) % suggestions.titles.length)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex(
+        (i) => (i - 1 + suggestions.titles.length) % suggestions.titles.length
+      )
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      complete(suggestions.titles[activeIndex])
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      setSuggestions(null)
+    }
+  }
+
+  return (
+    <div className="relative h-full">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          change(e.target.value)
+          if (collab) measureCursors()
+          updateSuggestions(e.target)
+        }}
+        onSelect={(e) => trackSelection(e.currentTarget)}
+        onKeyDown={handleKeyDown}
+        onPaste={(e) => {
+          const files = Array.from(e.clipboardData.files)
+          // Copied text may come with a picture of itself, the text wins
+          if (e.clipboardData.getData('text/plain')) return
+          if (files.length === 0 || !onAttach || readOnly) return
+          e.preventDefault()
+          attach(files, e.currentTarget)
+        }}
+        onDragOver={(e) => {
+          if (hasFiles(e)) e.preventDefault()
+        }}
+        onDrop={(e) => {
+          if (!hasFiles(e)) return
+          e.preventDefault()
+          attach(Array.from(e.dataTransfer.files), e.currentTarget)
+        }}
+        onClick={(e) => updateSuggestions(e.currentTarget)}
+        onScroll={() => {
+          setSuggestions(null)
+          if (collab) measureCursors()
+        }}
+        onBlur={() => {
+          setSuggestions(null)
+          collab?.setCursor(null)
+        }}
+        readOnly={readOnly}
+        placeholder={placeholder}
+        className={className}
+      />
+      {cursors.map((cursor) => (
+        <div
+          key={cursor.clientId}
+          className="pointer-events-none absolute w-0.5"
+          style={{
+            top: cursor.top,
+            left: cursor.left,
+            height: cursor.height,
+            backgroundColor: cursor.color,
+          }}
+        >
+          <span
+            className="absolute bottom-full left-0 whitespace-nowrap rounded px-1 text-[10px] leading-4 text-white"
+            style={{ backgroundColor: cursor.color }}
+          >
+            {cursor.name}
+          </span>
+        </div>
+      ))}
+      {suggestions && (
+        <div
+          className="absolute z-10 w-64 rounded-xl border bg-popover p-1 text-popover-foreground shadow-md"
+          style={{ top: suggestions.top, left: suggestions.left }}
+        >
+          {suggestions.titles.map((title, i) => (
+            <button
+              key={title}
+              type="button"
+              // Keep focus in the textarea
+              onMouseDown={(e) => {
+                e.preventDefault()
+                complete(title)
+              }}
+              onMouseMove={() => setActiveIndex(i)}
+              className={cn(
+                'flex w-full items-center gap-2 rounded-lg px-2 py-1.5 text-left text-sm',
+                i === activeIndex && 'bg-accent text-accent-foreground'
+              )}
+            >
+              <HugeiconsIcon
+                icon={File02Icon}
+                strokeWidth={2}
+                className="size-4 shrink-0 text-muted-foreground"
+              />
+              <span className="truncate">{title}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default NoteEditor
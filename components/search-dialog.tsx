@@ -0,0 +1,183 @@
+'use client'
+
+import { useEffect, useState, type ReactNode } from 'react'
+import { File02Icon, LockIcon, Search01Icon } from '@hugeicons/core-free-icons'
+import { HugeiconsIcon } from '@hugeicons/react'
+
+import type { NotePayload } from '@/lib/note-crypto'
+import {
+  refreshSearchIndex,
+  searchNotes,
+  type SearchResult,
+  type Snippet,
+} from '@/lib/search'
+import { cn } from '@/lib/utils'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Kbd } from '@/components/ui/kbd'
+import { ScrollArea } from '@/components/ui/scroll-area'
+
+const QUERY_DEBOUNCE = 150
+
+const Highlighted = ({ snippet }: { snippet: Snippet }) => {
+  const parts: ReactNode[] = []
+  let position = 0
+  snippet.highlights.forEach(([start, end], i) => {
+    parts.push(snippet.text.slice(position, start))
+    parts.push(
+      <mark key={i} className="bg-yellow-500/30 text-foreground rounded-sm">
+        {snippet.text.slice(start, end)}
+      </mark>
+    )
+    position = end
+  })
+  parts.push(snippet.text.slice(position))
+  return <>{parts}</>
+}
+
+const SearchDialog = ({
+  open,
+  onOpenChange,
+  noteIds,
+  unlocked,
+  lockedCount,
+  onSelect,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Notes that may appear in the results
+  noteIds: Set<string>
+  // Plaintext of unlocked encrypted notes, searched in memory only
+  unlocked: Map<string, NotePayload>
+  lockedCount: number
+  onSelect: (noteId: string) => void
+}) => {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    const timeout = setTimeout(async () => {
+      try {
+        await refreshSearchIndex()
+        const found = await searchNotes(query, noteIds, unlocked)
+        if (cancelled) return
+        setResults(found)
+        setActiveIndex(0)
+      } catch {}
+    }, QUERY_DEBOUNCE)
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [open, query, noteIds, unlocked])
+
+  const choose = (result: SearchResult | undefined) => {
+    if (!result) return
+    onSelect(result.noteId)
+    onOpenChange(false)
+    setQuery('')
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl gap-4" showCloseButton={false}>
+        <DialogHeader className="sr-only">
+          <DialogTitle>Search notes</DialogTitle>
+          <DialogDescription>
+            Search titles and content of your notes
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center gap-2 border-b pb-3">
+          <HugeiconsIcon
+            icon={Search01Icon}
+            strokeWidth={2}
+            className="size-4 shrink-0 text-muted-foreground"
+          />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'ArrowDown') {
+                e.preventDefault()
+                setActiveIndex((i) => Math.min(i + 1, results.length - 1))
+              } else if (e.key === 'ArrowUp') {
+                e.preventDefault()
+                setActiveIndex((i) => Math.max(i - 1, 0))
+              } else if (e.key === 'Enter') {
+                e.preventDefault()
+                choose(results[activeIndex])
+              }
+            }}
+            placeholder="Search notes..."
+            className="flex-1 bg-transparent outline-none text-base"
+          />
+          <Kbd>Esc</Kbd>
+        </div>
+        <ScrollArea className="max-h-96">
+          <div className="space-y-1">
+            {results.map((result, i) => (
+              <button
+                key={result.noteId}
+                type="button"
+                onClick={() => choose(result)}
+                onMouseMove={() => setActiveIndex(i)}
+                className={cn(
+                  'w-full text-left rounded-xl px-3 py-2 space-y-1',
+                  i === activeIndex && 'bg-accent text-accent-foreground'
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <HugeiconsIcon
+                    icon={result.encrypted ? LockIcon : File02Icon}
+                    strokeWidth={2}
+                    className={cn(
+                      'size-4 shrink-0',
+                      result.encrypted
+                        ? 'text-green-500'
+                        : 'text-muted-foreground'
+                    )}
+                  />
+                  <p className="font-medium truncate">
+                    {result.title.text ? (
+                      <Highlighted snippet={result.title} />
+                    ) : (
+                      'Untitled'
+                    )}
+                  </p>
+                </div>
+                {result.snippet.text && (
+                  <p className="text-xs text-muted-foreground line-clamp-2">
+                    <Highlighted snippet={result.snippet} />
+                  </p>
+                )}
+              </button>
+            ))}
+            {query && results.length === 0 && (
+              <p className="text-center text-muted-foreground py-8">
+                No matching notes.
+              </p>
+            )}
+          </div>
+        </ScrollArea>
+        {lockedCount > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {lockedCount === 1
+              ? '1 locked note is not searched until it is unlocked.'
+              : `${lockedCount} locked notes are not searched until they are unlocked.`}
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default SearchDialog
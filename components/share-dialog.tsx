@@ -0,0 +1,419 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Copy01Icon,
+  Link01Icon,
+  LockIcon,
+  Share01Icon,
+  Unlink01Icon,
+  UserAdd01Icon,
+  UserRemove01Icon,
+} from '@hugeicons/core-free-icons'
+import { HugeiconsIcon } from '@hugeicons/react'
+import { toast } from 'sonner'
+
+import type { Note, ShareRole } from '@/lib/db'
+import { isEnvelopeEncrypted, type NotePayload } from '@/lib/note-crypto'
+import {
+  listNoteShares,
+  removeNoteShare,
+  shareNote,
+  updateShareRole,
+  type NoteShare,
+} from '@/lib/note-shares'
+import {
+  createShare,
+  isShareActive,
+  listShares,
+  revokeShare,
+  SHARE_EXPIRY_OPTIONS,
+  shareUrl,
+  type ShareLink,
+} from '@/lib/share'
+import { syncEngine } from '@/lib/sync'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  })
+
+function describeShare(share: ShareLink) {
+  if (share.revokedAt) return `Revoked ${formatTime(share.revokedAt)}`
+  if (share.expiresAt === null) return 'Never expires'
+  return `${share.expiresAt > Date.now() ? 'Expires' : 'Expired'} ${formatTime(
+    share.expiresAt
+  )}`
+}
+
+const copyLink = async (url: string) => {
+  try {
+    await navigator.clipboard.writeText(url)
+    toast.success('Link copied')
+  } catch {
+    toast.error('Failed to copy link')
+  }
+}
+
+const ROLE_LABELS: Record<ShareRole, string> = {
+  viewer: 'Can view',
+  editor: 'Can edit',
+}
+
+const otherRole = (role: ShareRole): ShareRole =>
+  role === 'viewer' ? 'editor' : 'viewer'
+
+const ShareDialog = ({
+  open,
+  onOpenChange,
+  note,
+  payload,
+  user,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  note: Note | null
+  // Current title and content, null while the note is locked
+  payload: NotePayload | null
+  user?: { id: string; email?: string } | null
+}) => {
+  const userId = user?.id
+  const [people, setPeople] = useState<NoteShare[]>([])
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<ShareRole>('viewer')
+  const [isInviting, setIsInviting] = useState(false)
+  const [shares, setShares] = useState<ShareLink[]>([])
+  const [duration, setDuration] = useState<number | null>(null)
+  const [encrypt, setEncrypt] = useState(false)
+  const [link, setLink] = useState<string | null>(null)
+  const [isSharing, setIsSharing] = useState(false)
+
+  // Encrypted notes are only ever shared encrypted
+  const mustEncrypt = !!note && isEnvelopeEncrypted(note)
+  // Other accounts get the vault key of a note, a password is never handed
+  // out
+  const canInvite = !!note && (!mustEncrypt || !!note.wrappedKey)
+
+  const noteId = note?.id
+  useEffect(() => {
+    if (!open || !noteId || !userId) return
+    let cancelled = false
+    listNoteShares(noteId)
+      .then((loaded) => !cancelled && setPeople(loaded))
+      .catch(() => !cancelled && toast.error('Failed to load people'))
+    listShares(noteId)
+      .then((loaded) => !cancelled && setShares(loaded))
+      .catch(() => !cancelled && toast.error('Failed to load shared links'))
+    return () => {
+      cancelled = true
+    }
+  }, [open, noteId, userId])
+
+  const close = () => {
+    setLink(null)
+    setShares([])
+    setPeople([])
+    setEmail('')
+    onOpenChange(false)
+  }
+
+  const invite = async () => {
+    if (!note || !user || !email.trim()) return
+    setIsInviting(true)
+    try {
+      // The share refers to the server copy of the note
+      await syncEngine.sync()
+      const added = await shareNote(note, user, email, role)
+      setPeople((prev) => [...prev.filter((p) => p.id !== added.id), added])
+      setEmail('')
+      toast.success(`Shared with ${added.recipientEmail}`)
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to share note'
+      )
+    } finally {
+      setIsInviting(false)
+    }
+  }
+
+  const changeRole = async (person: NoteShare) => {
+    const next = otherRole(person.role)
+    try {
+      await updateShareRole(person.id, next)
+      setPeople((prev) =>
+        prev.map((p) => (p.id === person.id ? { ...p, role: next } : p))
+      )
+    } catch {
+      toast.error('Failed to change access')
+    }
+  }
+
+  const removePerson = async (person: NoteShare) => {
+    try {
+      await removeNoteShare(person.id)
+      setPeople((prev) => prev.filter((p) => p.id !== person.id))
+      toast.success(`Stopped sharing with ${person.recipientEmail}`)
+    } catch {
+      toast.error('Failed to stop sharing')
+    }
+  }
+
+  const share = async () => {
+    if (!note || !payload || !userId) return
+    setIsSharing(true)
+    try {
+      // The link points at the server copy of the note
+      await syncEngine.sync()
+      const created = await createShare(note.id, userId, payload, {
+        duration,
+        encrypt: encrypt || mustEncrypt,
+      })
+      setShares((prev) => [created.share, ...prev])
+      setLink(created.url)
+      await copyLink(created.url)
+    } catch (error) {
+      toast.error(
+        error instanceof Error && error.message === 'The note is not synced yet'
+          ? 'The note is not synced yet, try again in a moment'
+          : 'Failed to share note'
+      )
+    } finally {
+      setIsSharing(false)
+    }
+  }
+
+  const revoke = async (id: string) => {
+    try {
+      await revokeShare(id)
+      setShares((prev) =>
+        prev.map((s) => (s.id === id ? { ...s, revokedAt: Date.now() } : s))
+      )
+      if (link && new URL(link).pathname.endsWith(`/${id}`)) setLink(null)
+      toast.success('Link revoked')
+    } catch {
+      toast.error('Failed to revoke link')
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => (next ? onOpenChange(next) : close())}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HugeiconsIcon
+              icon={Share01Icon}
+              strokeWidth={2}
+              className="size-5"
+            />
+            Share note
+          </DialogTitle>
+          <DialogDescription>
+            Invite people to read or edit the note, or publish a read-only copy
+            anyone with the link can open.
+          </DialogDescription>
+        </DialogHeader>
+        {!userId ? (
+          <p className="text-sm text-muted-foreground">
+            Sign in to share notes.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="shareEmail">People</Label>
+              {canInvite ? (
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault()
+                    invite()
+                  }}
+                >
+                  <Input
+                    id="shareEmail"
+                    type="email"
+                    placeholder="name@example.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setRole(otherRole)}
+                  >
+                    {ROLE_LABELS[role]}
+                  </Button>
+                  <Button type="submit" disabled={!email.trim() || isInviting}>
+                    <HugeiconsIcon icon={UserAdd01Icon} strokeWidth={2} />
+                    Invite
+                  </Button>
+                </form>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Notes encrypted with a password cannot be shared with other
+                  accounts. Encrypt the note with the vault instead.
+                </p>
+              )}
+              {people.length > 0 && (
+                <div className="max-h-40 overflow-y-auto rounded-xl border divide-y">
+                  {people.map((person) => (
+                    <div
+                      key={person.id}
+                      className="flex items-center gap-2 p-2"
+                    >
+                      <p className="min-w-0 flex-1 text-sm truncate">
+                        {person.recipientEmail}
+                      </p>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Change access"
+                        onClick={() => changeRole(person)}
+                      >
+                        {ROLE_LABELS[person.role]}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        title="Stop sharing"
+                        onClick={() => removePerson(person)}
+                      >
+                        <HugeiconsIcon
+                          icon={UserRemove01Icon}
+                          strokeWidth={2}
+                        />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="space-y-2 border-t pt-4">
+              <Label>Public link expires</Label>
+              <div className="grid grid-cols-4 gap-2">
+                {SHARE_EXPIRY_OPTIONS.map((option) => (
+                  <Button
+                    key={option.label}
+                    size="sm"
+                    variant={
+                      duration === option.duration ? 'default' : 'outline'
+                    }
+                    onClick={() => setDuration(option.duration)}
+                  >
+                    {option.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="shareEncrypted" className="flex-col items-start">
+                Encrypt the shared copy
+                <span className="text-xs font-normal text-muted-foreground">
+                  {mustEncrypt
+                    ? 'Encrypted notes are always shared encrypted.'
+                    : 'The key is part of the link and never sent to the server.'}
+                </span>
+              </Label>
+              <Switch
+                id="shareEncrypted"
+                checked={encrypt || mustEncrypt}
+                onCheckedChange={setEncrypt}
+                disabled={mustEncrypt}
+              />
+            </div>
+            {link ? (
+              <div className="flex gap-2">
+                <Input
+                  readOnly
+                  value={link}
+                  onFocus={(e) => e.target.select()}
+                />
+                <Button variant="outline" onClick={() => copyLink(link)}>
+                  <HugeiconsIcon icon={Copy01Icon} strokeWidth={2} />
+                  Copy
+                </Button>
+              </div>
+            ) : (
+              <Button
+                size="lg"
+                className="w-full"
+                disabled={!payload || isSharing}
+                onClick={share}
+              >
+                <HugeiconsIcon icon={Link01Icon} strokeWidth={2} />
+                {isSharing
+                  ? 'Creating link...'
+                  : payload
+                    ? 'Create link'
+                    : 'Unlock the note first'}
+              </Button>
+            )}
+            {shares.length > 0 && (
+              <div className="space-y-2">
+                <Label>Shared links</Label>
+                <div className="max-h-48 overflow-y-auto rounded-xl border divide-y">
+                  {shares.map((s) => (
+                    <div key={s.id} className="flex items-center gap-2 p-2">
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm flex items-center gap-1">
+                          {s.encrypted && (
+                            <HugeiconsIcon
+                              icon={LockIcon}
+                              strokeWidth={2}
+                              className="size-3.5 shrink-0"
+                            />
+                          )}
+                          {formatTime(s.createdAt)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {describeShare(s)}
+                        </p>
+                      </div>
+                      {/* The key of encrypted links is not stored */}
+                      {isShareActive(s) && !s.encrypted && (
+                        <Button
+                          variant="ghost"
+                          size="icon-sm"
+                          title="Copy link"
+                          onClick={() => copyLink(shareUrl(s.id))}
+                        >
+                          <HugeiconsIcon icon={Copy01Icon} strokeWidth={2} />
+                        </Button>
+                      )}
+                      {!s.revokedAt && (
+                        <Button
+                          variant="ghost"
+                          size="icon-sm"
+                          title="Revoke link"
+                          onClick={() => revoke(s.id)}
+                        >
+                          <HugeiconsIcon icon={Unlink01Icon} strokeWidth={2} />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ShareDialog
@@ -0,0 +1,77 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { LockIcon } from '@hugeicons/core-free-icons'
+import { HugeiconsIcon } from '@hugeicons/react'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+
+import type { NotePayload } from '@/lib/note-crypto'
+import { openSnapshot, type SharedSnapshotRow } from '@/lib/share'
+import { unlinkWikiLinks } from '@/lib/wiki-links'
+import { buttonVariants } from '@/components/ui/button'
+
+// Read-only rendering of a shared note. Encrypted snapshots are opened
+// with the key in the URL fragment, which is only readable in the browser.
+const SharedNoteView = ({ snapshot }: { snapshot: SharedSnapshotRow }) => {
+  const [note, setNote] = useState<NotePayload | null>(
+    snapshot.encrypted_content
+      ? null
+      : { title: snapshot.title, content: snapshot.content }
+  )
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    if (!snapshot.encrypted_content) return
+    openSnapshot(snapshot, window.location.hash.slice(1)).then(setNote, () =>
+      setFailed(true)
+    )
+  }, [snapshot])
+
+  return (
+    <main className="min-h-screen">
+      <header className="border-b">
+        <div className="max-w-5xl mx-auto px-8 py-4 flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h1 className="text-lg font-semibold truncate">
+              {note ? note.title || 'Untitled' : 'Shared note'}
+            </h1>
+            <p className="text-xs text-muted-foreground">
+              Read-only, shared{' '}
+              {new Date(snapshot.created_at).toLocaleDateString()}
+              {snapshot.expires_at &&
+                `, until ${new Date(snapshot.expires_at).toLocaleString()}`}
+            </p>
+          </div>
+          <Link
+            href="/"
+            className={buttonVariants({ variant: 'outline', size: 'sm' })}
+          >
+            MCX.NOTES
+          </Link>
+        </div>
+      </header>
+      {note ? (
+        <div className="p-8 max-w-5xl mx-auto markdown-preview">
+          <ReactMarkdown remarkPlugins={[remarkGfm]}>
+            {unlinkWikiLinks(note.content)}
+          </ReactMarkdown>
+        </div>
+      ) : (
+        failed && (
+          <div className="py-24 text-center text-muted-foreground">
+            <HugeiconsIcon
+              icon={LockIcon}
+              strokeWidth={2}
+              className="size-12 mx-auto mb-4 opacity-50"
+            />
+            <p>This note is encrypted and the link is missing its key.</p>
+          </div>
+        )
+      )}
+    </main>
+  )
+}
+
+export default SharedNoteView
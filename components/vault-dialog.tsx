@@ -0,0 +1,207 @@
+'use client'
+
+import { useState } from 'react'
+import { Key01Icon, Loading03Icon, LockIcon } from '@hugeicons/core-free-icons'
+import { HugeiconsIcon } from '@hugeicons/react'
+import { toast } from 'sonner'
+
+import type { VaultRecord } from '@/lib/db'
+import {
+  changeVaultPassphrase,
+  createVault,
+  lockVault,
+  unlockVault,
+} from '@/lib/vault'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import PasswordValidator from '@/components/password-validator'
+
+const VaultDialog = ({
+  open,
+  onOpenChange,
+  userId,
+  vault,
+  isUnlocked,
+  onUnlocked,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  userId?: string
+  vault: VaultRecord | null
+  isUnlocked: boolean
+  onUnlocked: () => void
+}) => {
+  const [passphrase, setPassphrase] = useState('')
+  const [newPassphrase, setNewPassphrase] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const reset = () => {
+    setPassphrase('')
+    setNewPassphrase('')
+  }
+
+  const run = async (action: () => Promise<void>, error: string) => {
+    setIsSubmitting(true)
+    try {
+      await action()
+      reset()
+    } catch {
+      toast.error(error)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleCreate = () =>
+    run(async () => {
+      await createVault(passphrase, userId)
+      toast.success('Vault created')
+      onUnlocked()
+      onOpenChange(false)
+    }, 'Failed to create vault')
+
+  const handleUnlock = () =>
+    run(async () => {
+      await unlockVault(passphrase, userId)
+      toast.success('Vault unlocked')
+      onUnlocked()
+      onOpenChange(false)
+    }, 'Invalid passphrase')
+
+  const handleChange = () =>
+    run(async () => {
+      await changeVaultPassphrase(passphrase, newPassphrase, userId)
+      toast.success('Passphrase changed')
+      onOpenChange(false)
+    }, 'Invalid passphrase')
+
+  const handleLock = () => {
+    lockVault()
+    toast.success('Vault locked')
+    onOpenChange(false)
+  }
+
+  const submitLabel = (idle: string, busy: string) =>
+    isSubmitting ? (
+      <>
+        <HugeiconsIcon
+          icon={Loading03Icon}
+          strokeWidth={2}
+          className="animate-spin"
+        />
+        {busy}
+      </>
+    ) : (
+      <>
+        <HugeiconsIcon icon={Key01Icon} strokeWidth={2} />
+        {idle}
+      </>
+    )
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) reset()
+        onOpenChange(next)
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {!vault ? 'Set up vault' : isUnlocked ? 'Vault' : 'Unlock vault'}
+          </DialogTitle>
+          <DialogDescription>
+            {!vault
+              ? 'One master passphrase for all your encrypted notes. Notes in the vault unlock together, once per session.'
+              : isUnlocked
+                ? 'Your vault is unlocked for this session. Changing the passphrase does not re-encrypt your notes.'
+                : 'Enter your master passphrase to unlock every vault note.'}
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            if (!vault) handleCreate()
+            else if (isUnlocked) handleChange()
+            else handleUnlock()
+          }}
+          className="space-y-4 pt-4"
+        >
+          <div className="space-y-2">
+            <Label htmlFor="vaultPassphrase">
+              {vault && isUnlocked ? 'Current passphrase' : 'Passphrase'}
+            </Label>
+            <Input
+              id="vaultPassphrase"
+              type="password"
+              placeholder="Enter passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoComplete={vault ? 'current-password' : 'new-password'}
+            />
+            {!vault && (
+              <>
+                <p className="text-xs text-muted-foreground">
+                  If you lose this passphrase, vault notes cannot be recovered.
+                </p>
+                <PasswordValidator value={passphrase} />
+              </>
+            )}
+          </div>
+          {vault && isUnlocked && (
+            <div className="space-y-2">
+              <Label htmlFor="vaultNewPassphrase">New passphrase</Label>
+              <Input
+                id="vaultNewPassphrase"
+                type="password"
+                placeholder="Enter a strong passphrase"
+                value={newPassphrase}
+                onChange={(e) => setNewPassphrase(e.target.value)}
+                autoComplete="new-password"
+              />
+              <PasswordValidator value={newPassphrase} />
+            </div>
+          )}
+          <Button
+            type="submit"
+            className="w-full"
+            size="lg"
+            disabled={
+              isSubmitting ||
+              !passphrase ||
+              (!!vault && isUnlocked && !newPassphrase)
+            }
+          >
+            {!vault
+              ? submitLabel('Create vault', 'Creating vault...')
+              : isUnlocked
+                ? submitLabel('Change passphrase', 'Changing passphrase...')
+                : submitLabel('Unlock vault', 'Unlocking...')}
+          </Button>
+          {vault && isUnlocked && (
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={handleLock}
+            >
+              <HugeiconsIcon icon={LockIcon} strokeWidth={2} />
+              Lock vault
+            </Button>
+          )}
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default VaultDialog
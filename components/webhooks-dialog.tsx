@@ -0,0 +1,353 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  AlertCircleIcon,
+  CheckmarkCircle02Icon,
+  Clock01Icon,
+  Copy01Icon,
+  Delete02Icon,
+  SentIcon,
+  WebhookIcon,
+} from '@hugeicons/core-free-icons'
+import { HugeiconsIcon } from '@hugeicons/react'
+import { toast } from 'sonner'
+
+import { cn } from '@/lib/utils'
+import {
+  createWebhook,
+  deleteWebhook,
+  listDeliveries,
+  listWebhooks,
+  pingWebhook,
+  setWebhookActive,
+  type Webhook,
+  type WebhookDelivery,
+} from '@/lib/webhooks'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  })
+
+const STATUS_ICONS = {
+  succeeded: CheckmarkCircle02Icon,
+  pending: Clock01Icon,
+  failed: AlertCircleIcon,
+}
+
+function describeDelivery(delivery: WebhookDelivery) {
+  const code = delivery.statusCode ? ` (${delivery.statusCode})` : ''
+  if (delivery.status === 'succeeded') return `Delivered${code}`
+  if (delivery.status === 'failed') {
+    return `Gave up after ${delivery.attempts} attempts${code}`
+  }
+  if (delivery.attempts === 0) return 'Waiting to be sent'
+  return `Retrying ${formatTime(delivery.nextAttemptAt)}${code}`
+}
+
+const WebhooksDialog = ({
+  open,
+  onOpenChange,
+  userId,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  userId?: string
+}) => {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([])
+  const [url, setUrl] = useState('')
+  const [isAdding, setIsAdding] = useState(false)
+  // Webhook whose secret and delivery log are shown
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [pingingId, setPingingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open || !userId) return
+    let cancelled = false
+    listWebhooks()
+      .then((loaded) => !cancelled && setWebhooks(loaded))
+      .catch(() => !cancelled && toast.error('Failed to load webhooks'))
+    return () => {
+      cancelled = true
+    }
+  }, [open, userId])
+
+  useEffect(() => {
+    if (!selectedId) return
+    let cancelled = false
+    listDeliveries(selectedId)
+      .then((loaded) => !cancelled && setDeliveries(loaded))
+      .catch(() => !cancelled && toast.error('Failed to load deliveries'))
+    return () => {
+      cancelled = true
+    }
+  }, [selectedId])
+
+  const close = () => {
+    setWebhooks([])
+    setUrl('')
+    setSelectedId(null)
+    setDeliveries([])
+    onOpenChange(false)
+  }
+
+  const select = (id: string | null) => {
+    setDeliveries([])
+    setSelectedId(id)
+  }
+
+  const add = async () => {
+    if (!userId || !url.trim()) return
+    setIsAdding(true)
+    try {
+      const created = await createWebhook(userId, url)
+      setWebhooks((prev) => [...prev, created])
+      setUrl('')
+      select(created.id)
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to add webhook'
+      )
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const toggleActive = async (webhook: Webhook) => {
+    try {
+      await setWebhookActive(webhook.id, !webhook.active)
+      setWebhooks((prev) =>
+        prev.map((w) =>
+          w.id === webhook.id ? { ...w, active: !webhook.active } : w
+        )
+      )
+    } catch {
+      toast.error('Failed to update webhook')
+    }
+  }
+
+  const remove = async (webhook: Webhook) => {
+    try {
+      await deleteWebhook(webhook.id)
+      setWebhooks((prev) => prev.filter((w) => w.id !== webhook.id))
+      if (selectedId === webhook.id) select(null)
+    } catch {
+      toast.error('Failed to delete webhook')
+    }
+  }
+
+  const ping = async (webhook: Webhook) => {
+    setPingingId(webhook.id)
+    try {
+      if (await pingWebhook(webhook.id)) {
+        toast.success('Test delivery accepted')
+      } else {
+        toast.error('The endpoint rejected the test delivery')
+      }
+      if (selectedId === webhook.id) {
+        setDeliveries(await listDeliveries(webhook.id))
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to send test delivery'
+      )
+    } finally {
+      setPingingId(null)
+    }
+  }
+
+  const copySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret)
+      toast.success('Secret copied')
+    } catch {
+      toast.error('Failed to copy secret')
+    }
+  }
+
+  const selected = webhooks.find((w) => w.id === selectedId)
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => (next ? onOpenChange(next) : close())}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HugeiconsIcon
+              icon={WebhookIcon}
+              strokeWidth={2}
+              className="size-5"
+            />
+            Webhooks
+          </DialogTitle>
+          <DialogDescription>
+            Endpoints receive a signed JSON payload whenever a note is created,
+            changed or deleted. Content is only sent for notes that are not
+            encrypted.
+          </DialogDescription>
+        </DialogHeader>
+        {!userId ? (
+          <p className="text-sm text-muted-foreground">
+            Sign in to add webhooks.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <form
+              className="space-y-2"
+              onSubmit={(e) => {
+                e.preventDefault()
+                add()
+              }}
+            >
+              <Label htmlFor="webhookUrl">Endpoint</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="webhookUrl"
+                  type="url"
+                  placeholder="https://example.com/hooks/notes"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                />
+                <Button type="submit" disabled={!url.trim() || isAdding}>
+                  Add
+                </Button>
+              </div>
+            </form>
+            {webhooks.length > 0 && (
+              <div className="max-h-48 overflow-y-auto rounded-xl border divide-y">
+                {webhooks.map((webhook) => (
+                  <div
+                    key={webhook.id}
+                    className={cn(
+                      'flex items-center gap-2 p-2',
+                      webhook.id === selectedId && 'bg-accent/50'
+                    )}
+                  >
+                    <button
+                      type="button"
+                      className="min-w-0 flex-1 text-left"
+                      title="Show secret and deliveries"
+                      onClick={() =>
+                        select(webhook.id === selectedId ? null : webhook.id)
+                      }
+                    >
+                      <p
+                        className={cn(
+                          'text-sm truncate',
+                          !webhook.active && 'text-muted-foreground'
+                        )}
+                      >
+                        {webhook.url}
+                      </p>
+                    </button>
+                    <Switch
+                      checked={webhook.active}
+                      onCheckedChange={() => toggleActive(webhook)}
+                      title={webhook.active ? 'Pause' : 'Resume'}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      title="Send test delivery"
+                      disabled={pingingId === webhook.id || !webhook.active}
+                      onClick={() => ping(webhook)}
+                    >
+                      <HugeiconsIcon icon={SentIcon} strokeWidth={2} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      title="Delete webhook"
+                      onClick={() => remove(webhook)}
+                    >
+                      <HugeiconsIcon icon={Delete02Icon} strokeWidth={2} />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            {selected && (
+              <div className="space-y-2">
+                <Label htmlFor="webhookSecret">Signing secret</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="webhookSecret"
+                    readOnly
+                    value={selected.secret}
+                    className="font-mono"
+                    onFocus={(e) => e.target.select()}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => copySecret(selected.secret)}
+                  >
+                    <HugeiconsIcon icon={Copy01Icon} strokeWidth={2} />
+                    Copy
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  The x-mcx-signature header holds t=&lt;seconds&gt; and
+                  v1=&lt;HMAC-SHA256 of &quot;t.body&quot;&gt;.
+                </p>
+                <Label>Recent deliveries</Label>
+                {deliveries.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    Nothing sent yet.
+                  </p>
+                ) : (
+                  <div className="max-h-48 overflow-y-auto rounded-xl border divide-y">
+                    {deliveries.map((delivery) => (
+                      <div
+                        key={delivery.id}
+                        className="flex items-start gap-2 p-2"
+                        title={delivery.error ?? undefined}
+                      >
+                        <HugeiconsIcon
+                          icon={STATUS_ICONS[delivery.status]}
+                          strokeWidth={2}
+                          className={cn(
+                            'mt-0.5 size-4 shrink-0',
+                            delivery.status === 'failed' && 'text-destructive'
+                          )}
+                        />
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm">
+                            {delivery.event}{' '}
+                            <span className="text-xs text-muted-foreground">
+                              {formatTime(delivery.createdAt)}
+                            </span>
+                          </p>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {describeDelivery(delivery)}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default WebhooksDialog
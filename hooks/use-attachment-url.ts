@@ -0,0 +1,36 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+
+import { isAttachmentUrl, loadAttachment } from '@/lib/attachments'
+
+// Object URL for the attachment an `attachment:` URL refers to, other URLs
+// are returned as they are. Undefined while it loads, null if it cannot be
+// shown; the object URL is released once `src` changes or the component
+// unmounts.
+export function useAttachmentUrl(src: string) {
+  const [loaded, setLoaded] = useState<{
+    src: string
+    url: string | null
+  } | null>(null)
+
+  useEffect(() => {
+    if (!isAttachmentUrl(src)) return
+    let objectUrl: string | null = null
+    let cancelled = false
+    loadAttachment(src)
+      .catch(() => null)
+      .then((blob) => {
+        if (cancelled) return
+        objectUrl = blob ? URL.createObjectURL(blob) : null
+        setLoaded({ src, url: objectUrl })
+      })
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+    }
+  }, [src])
+
+  if (!isAttachmentUrl(src)) return src
+  return loaded?.src === src ? loaded.url : undefined
+}
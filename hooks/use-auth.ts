@@ -1,62 +1,59 @@
-import { useEffect, useMemo, useState } from 'react'
-import type { User } from '@supabase/supabase-js'
+import { useEffect, useState } from 'react'
 import { toast } from 'sonner'
 
+import { authClient, type AuthUser } from '@/lib/auth'
 import { notesDB } from '@/lib/db'
-import { createClient } from '@/lib/supabase/client'
+import { syncEngine } from '@/lib/sync'
+import { migrateLocalVault } from '@/lib/vault'
 
 export function useAuth() {
-  const [user, setUser] = useState<User | null>(null)
+  const [user, setUser] = useState<AuthUser | null>(null)
   const [loading, setLoading] = useState(true)
 
-  const supabase = useMemo(() => createClient(), [])
-
   const initOnlineUser = async (userId: string) => {
     await notesDB.migrateAnonymousNotes(userId)
+    try {
+      // Fetch the account vault first so a new device does not replace it
+      await syncEngine.pullVault(userId)
+      await migrateLocalVault(userId)
+    } catch {}
   }
 
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setUser(session?.user ?? null)
+    authClient.getUser().then((current) => {
+      setUser(current)
       setLoading(false)
-      if (session?.user) initOnlineUser(session.user.id)
+      if (current) initOnlineUser(current.id)
     })
 
-    const {
-      data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
-      setUser(session?.user ?? null)
-      if (session?.user) initOnlineUser(session.user.id)
+    return authClient.onChange((current) => {
+      setUser(current)
+      if (current) initOnlineUser(current.id)
     })
-
-    return () => {
-      subscription.unsubscribe()
-    }
-  }, [supabase])
+  }, [])
 
   const signInWithOTP = async (email: string) => {
-    const { error } = await supabase.auth.signInWithOtp({ email })
-    if (error) {
+    try {
+      await authClient.signInWithOtp(email)
+    } catch (error) {
       toast.error('Failed to send code')
       throw error
     }
   }
 
   const verifyOTP = async (email: string, token: string) => {
-    const { error } = await supabase.auth.verifyOtp({
-      email,
-      token,
-      type: 'magiclink',
-    })
-    if (error) {
+    try {
+      await authClient.verifyOtp(email, token)
+    } catch (error) {
       toast.error('Verification failed')
       throw error
     }
   }
 
   const signOut = async () => {
-    const { error } = await supabase.auth.signOut()
-    if (error) {
+    try {
+      await authClient.signOut()
+    } catch (error) {
       toast.error('Failed to sign out')
       throw error
     }
@@ -0,0 +1,89 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+
+import { CollabSession, type CollabPeer } from '@/lib/collab'
+import { createTransport } from '@/lib/collab-transport'
+
+const PEER_COLORS = [
+  '#e11d48',
+  '#d97706',
+  '#16a34a',
+  '#0891b2',
+  '#2563eb',
+  '#7c3aed',
+  '#c026d3',
+]
+
+function colorFor(id: string) {
+  let hash = 0
+  for (const char of id) hash = (hash * 31 + char.charCodeAt(0)) | 0
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length]
+}
+
+// Joins the shared document of a collaborative note while `note` is set,
+// and keeps `content` in step with it: changes from other peers are passed
+// to `setContent`, changes the page makes to `content` are applied to the
+// document. The session is null until its stored document has loaded.
+export function useCollab(
+  note: { id: string; collabDocId: string } | null,
+  user: { id: string; email?: string } | null,
+  content: string,
+  setContent: (content: string) => void
+) {
+  const [session, setSession] = useState<CollabSession | null>(null)
+  const [peers, setPeers] = useState<CollabPeer[]>([])
+  const noteId = note?.id ?? null
+  const docId = note?.collabDocId
+  const userId = user?.id
+  const name = user?.email?.split('@')[0] || 'Anonymous'
+  const setContentRef = useRef(setContent)
+  useEffect(() => {
+    setContentRef.current = setContent
+  }, [setContent])
+
+  useEffect(() => {
+    if (!noteId || !docId || !userId) return
+    const next = new CollabSession(
+      noteId,
+      docId,
+      createTransport(noteId, docId),
+      { name, color: colorFor(userId) }
+    )
+    let stopPeers = () => {}
+    let stopContent = () => {}
+
+    next
+      .start()
+      .then(() => {
+        if (next.isDestroyed) return
+        setSession(next)
+        setPeers(next.getPeers())
+        setContentRef.current(next.getContent())
+        stopPeers = next.onPeersChange(() => setPeers(next.getPeers()))
+        stopContent = next.onContentChange(() =>
+          setContentRef.current(next.getContent())
+        )
+      })
+      .catch((error) => {
+        console.error('Failed to open collaborative note:', error)
+      })
+
+    return () => {
+      stopPeers()
+      stopContent()
+      next.destroy()
+    }
+  }, [noteId, docId, userId, name])
+
+  const active =
+    session && !session.isDestroyed && session.docId === docId ? session : null
+
+  // Edits made outside the editor, like restoring a revision
+  useEffect(() => {
+    if (active && !active.isRecentContent(content)) {
+      active.replaceContent(content)
+    }
+  }, [active, content])
+  return { session: active, peers: active ? peers : [] }
+}
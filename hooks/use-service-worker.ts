@@ -0,0 +1,61 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+import {
+  isServiceWorkerSupported,
+  SERVICE_WORKER_URL,
+} from '@/lib/service-worker'
+
+export function useServiceWorker() {
+  // A new version that finished installing and waits for the old one to
+  // let go of the open tabs
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null)
+  const isUpdating = useRef(false)
+
+  useEffect(() => {
+    if (!isServiceWorkerSupported()) return
+    const { serviceWorker } = navigator
+
+    const track = (registration: ServiceWorkerRegistration) => {
+      // Without a controller this is the first install, not an update
+      if (registration.waiting && serviceWorker.controller) {
+        setWaiting(registration.waiting)
+      }
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing
+        worker?.addEventListener('statechange', () => {
+          if (worker.state === 'installed' && serviceWorker.controller) {
+            setWaiting(worker)
+          }
+        })
+      })
+    }
+
+    serviceWorker
+      .register(SERVICE_WORKER_URL)
+      .then(track)
+      .catch((error) => {
+        console.error('Failed to register service worker:', error)
+      })
+
+    const handleControllerChange = () => {
+      if (!isUpdating.current) return
+      window.location.reload()
+    }
+    serviceWorker.addEventListener('controllerchange', handleControllerChange)
+    return () =>
+      serviceWorker.removeEventListener(
+        'controllerchange',
+        handleControllerChange
+      )
+  }, [])
+
+  const update = useCallback(() => {
+    if (!waiting) return
+    isUpdating.current = true
+    waiting.postMessage({ type: 'skip-waiting' })
+  }, [waiting])
+
+  return { isUpdateAvailable: waiting !== null, update }
+}
@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react'
+
+import { syncEngine, type SyncState } from '@/lib/sync'
+
+const subscribe = (listener: () => void) => syncEngine.subscribe(listener)
+const getSnapshot = () => syncEngine.getState()
+
+export function useSync(userId?: string, onChange?: () => void) {
+  const state: SyncState = useSyncExternalStore(
+    subscribe,
+    getSnapshot,
+    getSnapshot
+  )
+
+  useEffect(() => {
+    if (!userId) return
+    syncEngine.start(userId)
+    return () => syncEngine.stop()
+  }, [userId])
+
+  useEffect(() => {
+    if (!onChange) return
+    return syncEngine.subscribe(onChange)
+  }, [onChange])
+
+  const syncNow = useCallback(() => syncEngine.sync(), [])
+
+  return { ...state, syncNow }
+}
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react'
+
+import type { VaultRecord } from '@/lib/db'
+import { getVault, isVaultUnlocked, onVaultChange } from '@/lib/vault'
+
+export function useVault(userId?: string) {
+  const [vault, setVault] = useState<VaultRecord | null>(null)
+  const [isUnlocked, setIsUnlocked] = useState(false)
+
+  useEffect(() => {
+    let active = true
+    const load = () =>
+      getVault(userId).then((record) => {
+        if (!active) return
+        setVault(record ?? null)
+        setIsUnlocked(isVaultUnlocked(userId))
+      })
+
+    load()
+    const unsubscribe = onVaultChange(load)
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [userId])
+
+  return { vault, isUnlocked }
+}
@@ -0,0 +1,106 @@
+// Personal access tokens for the REST API under /api/notes, see lib/api.ts.
+// Tokens are generated here and shown once; the server only keeps their
+// SHA-256 hash.
+
+import { createClient } from '@/lib/supabase/client'
+
+const TOKEN_PREFIX = 'mcx_'
+// Random bytes in a token
+const TOKEN_LENGTH = 32
+// Characters of a token kept to tell it apart in the list
+const VISIBLE_LENGTH = TOKEN_PREFIX.length + 6
+
+// Database row shape of the Supabase `api_tokens` table
+export interface ApiTokenRow {
+  id: string
+  user_id: string
+  name: string
+  token_hash: string
+  prefix: string
+  created_at: string
+  last_used_at: string | null
+  revoked_at: string | null
+}
+
+export interface ApiToken {
+  id: string
+  name: string
+  prefix: string
+  createdAt: number
+  lastUsedAt: number | null
+  revokedAt: number | null
+}
+
+const toTime = (value: string | null) => (value ? Date.parse(value) : null)
+
+function rowToApiToken(row: ApiTokenRow): ApiToken {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    createdAt: Date.parse(row.created_at),
+    lastUsedAt: toTime(row.last_used_at),
+    revokedAt: toTime(row.revoked_at),
+  }
+}
+
+function generateToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_LENGTH))
+  const encoded = btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+  return TOKEN_PREFIX + encoded
+}
+
+async function hashToken(token: string) {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(token)
+  )
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, '0')
+  ).join('')
+}
+
+// Creates a token for the account. The token itself is only returned
+// here, it cannot be shown again later.
+export async function createApiToken(
+  userId: string,
+  name: string
+): Promise<{ token: string; apiToken: ApiToken }> {
+  const token = generateToken()
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from('api_tokens')
+    .insert({
+      user_id: userId,
+      name: name.trim(),
+      token_hash: await hashToken(token),
+      prefix: token.slice(0, VISIBLE_LENGTH),
+    })
+    .select()
+    .single()
+  if (error) throw error
+  return { token, apiToken: rowToApiToken(data as ApiTokenRow) }
+}
+
+// Newest first, revoked ones included
+export async function listApiTokens(): Promise<ApiToken[]> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from('api_tokens')
+    .select('*')
+    .order('created_at', { ascending: false })
+  if (error) throw error
+  return ((data ?? []) as ApiTokenRow[]).map(rowToApiToken)
+}
+
+export async function revokeApiToken(id: string) {
+  const supabase = createClient()
+  const { error } = await supabase
+    .from('api_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+  if (error) throw error
+}
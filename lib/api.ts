@@ -0,0 +1,283 @@
+// Server side of the REST API under /api/notes. Requests carry a personal
+// access token as `Authorization: Bearer <token>`; row-level security
+// limits them to the notes of the account that created the token. Encrypted
+// notes are returned as the envelope the app stores, never decrypted.
+
+import { NextResponse } from 'next/server'
+
+import { createTokenClient } from '@/lib/supabase/server'
+import type { NoteRow } from '@/lib/sync'
+
+export const DEFAULT_PAGE_SIZE = 50
+export const MAX_PAGE_SIZE = 200
+
+// Postgres error codes raised by the `notes` table, see lib/sync.ts
+const STALE_REVISION = '40001'
+const FOREIGN_KEY_VIOLATION = '23503'
+const INVALID_TEXT_REPRESENTATION = '22P02'
+
+// Failed request, answered with `{ error: message }`
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message)
+  }
+}
+
+export interface ApiNoteEnvelope {
+  version: number | null
+  encryptedContent: string
+  salt: string | null
+  nonce: string | null
+  authTag: string | null
+  wrappedKey: string | null
+  cryptoHeader: string | null
+}
+
+export interface ApiNote {
+  id: string
+  // Empty for encrypted notes whose title is sealed in the envelope
+  title: string
+  content: string
+  tags: string[]
+  folderId: string | null
+  createdAt: string
+  updatedAt: string
+  // When the server stored the note, pass it as `updatedSince` to fetch
+  // what changed afterwards
+  modifiedAt: string
+  deleted: boolean
+  deletedAt: string | null
+  // Send back with updates to detect concurrent changes
+  revision: number
+  envelope: ApiNoteEnvelope | null
+}
+
+export function rowToApiNote(row: NoteRow): ApiNote {
+  return {
+    id: row.id,
+    title: row.title,
+    content: row.encrypted_content ? '' : row.content,
+    tags: row.tags ?? [],
+    folderId: row.folder_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    modifiedAt: row.modified_at!,
+    deleted: row.deleted,
+    deletedAt: row.deleted_at,
+    revision: row.revision,
+    envelope: row.encrypted_content
+      ? {
+          version: row.envelope_version,
+          encryptedContent: row.encrypted_content,
+          salt: row.salt,
+          nonce: row.nonce,
+          authTag: row.auth_tag,
+          wrappedKey: row.wrapped_key,
+          cryptoHeader: row.crypto_header,
+        }
+      : null,
+  }
+}
+
+// Supabase client acting for the account behind the request's token
+export async function authenticate(request: Request) {
+  const header = request.headers.get('authorization') ?? ''
+  const token = header.match(/^Bearer\s+(\S+)$/i)?.[1]
+  if (!token) throw new ApiError(401, 'Missing access token')
+
+  const supabase = createTokenClient(token)
+  const { data: userId, error } = await supabase.rpc('authenticate_api_token')
+  if (error) throw error
+  if (!userId) throw new ApiError(401, 'Invalid or revoked access token')
+  return { supabase, userId: userId as string }
+}
+
+// Runs a route handler, turning thrown errors into JSON responses
+export async function handle(run: () => Promise<Response>) {
+  try {
+    return await run()
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+    const code =
+      error && typeof error === 'object' && 'code' in error
+        ? error.code
+        : undefined
+    if (code === STALE_REVISION) {
+      return NextResponse.json(
+        { error: 'The note was changed in the meantime' },
+        { status: 409 }
+      )
+    }
+    if (code === FOREIGN_KEY_VIOLATION) {
+      return NextResponse.json({ error: 'Unknown folder' }, { status: 422 })
+    }
+    if (code === INVALID_TEXT_REPRESENTATION) {
+      return NextResponse.json({ error: 'Invalid id' }, { status: 400 })
+    }
+    console.error('API request failed:', error)
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
+
+export async function readJson(request: Request) {
+  try {
+    const body = await request.json()
+    if (body && typeof body === 'object' && !Array.isArray(body)) {
+      return body as Record<string, unknown>
+    }
+  } catch {
+    // Answered below
+  }
+  throw new ApiError(400, 'Expected a JSON object')
+}
+
+export function optionalString(
+  body: Record<string, unknown>,
+  field: string
+): string | undefined {
+  const value = body[field]
+  if (value === undefined) return undefined
+  if (typeof value !== 'string') {
+    throw new ApiError(400, `${field} must be a string`)
+  }
+  return value
+}
+
+// Position after the last note of a page, opaque to clients
+interface Cursor {
+  modifiedAt: string
+  id: string
+}
+
+const encodeCursor = (cursor: Cursor) =>
+  Buffer.from(JSON.stringify([cursor.modifiedAt, cursor.id])).toString(
+    'base64url'
+  )
+
+function decodeCursor(value: string): Cursor {
+  try {
+    const [modifiedAt, id] = JSON.parse(
+      Buffer.from(value, 'base64url').toString()
+    )
+    if (typeof modifiedAt === 'string' && typeof id === 'string') {
+      return { modifiedAt, id }
+    }
+  } catch {
+    // Answered below
+  }
+  throw new ApiError(400, 'Invalid cursor')
+}
+
+export interface PageParams {
+  limit: number
+  cursor: Cursor | null
+  updatedSince: string | null
+  includeDeleted: boolean
+}
+
+// `limit`, `cursor`, `updatedSince` (ISO date or epoch milliseconds) and
+// `includeDeleted` query parameters
+export function parsePageParams(searchParams: URLSearchParams): PageParams {
+  const limitParam = searchParams.get('limit')
+  const limit = limitParam === null ? DEFAULT_PAGE_SIZE : Number(limitParam)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new ApiError(400, `limit must be between 1 and ${MAX_PAGE_SIZE}`)
+  }
+
+  const cursorParam = searchParams.get('cursor')
+  const sinceParam = searchParams.get('updatedSince')
+  let updatedSince: string | null = null
+  if (sinceParam) {
+    const since = new Date(
+      /^\d+$/.test(sinceParam) ? Number(sinceParam) : sinceParam
+    )
+    if (isNaN(since.getTime())) {
+      throw new ApiError(400, 'updatedSince must be a date')
+    }
+    updatedSince = since.toISOString()
+  }
+
+  return {
+    limit,
+    cursor: cursorParam ? decodeCursor(cursorParam) : null,
+    updatedSince,
+    includeDeleted: searchParams.get('includeDeleted') === 'true',
+  }
+}
+
+// Quotes a value for PostgREST's `or` filter syntax
+const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`
+
+type TokenClient = ReturnType<typeof createTokenClient>
+
+// One page of notes ordered by when the server last stored them, oldest
+// first so scripts can follow `updatedSince` from where they left off, or
+// newest first. Ordering by the client's `updated_at` would hide edits
+// that were made offline and pushed later.
+// `search` matches the title or content of notes that are not encrypted.
+export async function listNotes(
+  supabase: TokenClient,
+  userId: string,
+  params: PageParams,
+  { search, newestFirst = false }: { search?: string; newestFirst?: boolean }
+) {
+  let query = supabase
+    .from('notes')
+    .select('*')
+    .eq('user_id', userId)
+    .order('modified_at', { ascending: !newestFirst })
+    .order('id', { ascending: !newestFirst })
+    .limit(params.limit + 1)
+  if (!params.includeDeleted) query = query.eq('deleted', false)
+  if (params.updatedSince) {
+    query = query.gt('modified_at', params.updatedSince)
+  }
+  // PostgREST takes a single `or` filter, both conditions go into it
+  const conditions: string[] = []
+  if (params.cursor) {
+    const op = newestFirst ? 'lt' : 'gt'
+    const modifiedAt = quote(params.cursor.modifiedAt)
+    const id = quote(params.cursor.id)
+    conditions.push(
+      `or(modified_at.${op}.${modifiedAt},and(modified_at.eq.${modifiedAt},id.${op}.${id}))`
+    )
+  }
+  if (search) {
+    const pattern = quote(`*${search.replace(/[%_\\]/g, '\\$&')}*`)
+    query = query.is('encrypted_content', null)
+    conditions.push(`or(title.ilike.${pattern},content.ilike.${pattern})`)
+  }
+  if (conditions.length) query = query.or(`and(${conditions.join(',')})`)
+
+  const { data, error } = await query
+  if (error) throw error
+  const rows = (data ?? []) as NoteRow[]
+  const page = rows.slice(0, params.limit)
+  const last = page[page.length - 1]
+  return {
+    notes: page.map(rowToApiNote),
+    nextCursor:
+      rows.length > params.limit && last
+        ? encodeCursor({ modifiedAt: last.modified_at!, id: last.id })
+        : null,
+  }
+}
+
+export async function getNoteRow(supabase: TokenClient, id: string) {
+  const { data, error } = await supabase
+    .from('notes')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle<NoteRow>()
+  if (error) throw error
+  if (!data) throw new ApiError(404, 'Note not found')
+  return data
+}
@@ -0,0 +1,241 @@
+// Images and files pasted or dropped into a note. The bytes are kept in
+// Dexie and, for signed-in users, uploaded to Supabase Storage by the sync
+// engine. Notes refer to them as `attachment:<id>`; attachments of
+// encrypted notes get a key of their own, carried in the reference as
+// `attachment:<id>#<key>` so it is sealed along with the note.
+
+import {
+  base64ToArrayBuffer,
+  decryptBytes,
+  encryptBytes,
+  exportKeyToString,
+  generateKey,
+  importKeyFromString,
+} from '@/lib/crypto'
+import { notesDB, type Attachment, type Note } from '@/lib/db'
+import { isEnvelopeEncrypted } from '@/lib/note-crypto'
+import { syncEngine } from '@/lib/sync'
+
+export const ATTACHMENT_SCHEME = 'attachment:'
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024 // 10 MB
+
+// Attachments younger than this are never collected, the note referring
+// to them may not have been saved yet
+const COLLECT_AFTER = 24 * 60 * 60 * 1000 // 1 day
+
+export function isAttachmentUrl(url?: string | null) {
+  return !!url?.startsWith(ATTACHMENT_SCHEME)
+}
+
+export function parseAttachmentUrl(url?: string | null) {
+  if (!url || !isAttachmentUrl(url)) return null
+  const [id, key] = url.slice(ATTACHMENT_SCHEME.length).split('#')
+  return id ? { id, key: key || undefined } : null
+}
+
+// References in the text of a note, with the key of encrypted ones
+const REFERENCE_PATTERN = new RegExp(
+  `${ATTACHMENT_SCHEME}([0-9a-f-]+)(?:#([^\\s)]*))?`,
+  'g'
+)
+
+// Passes every reference in `text` to `replace`, which returns what takes
+// its place
+export function replaceAttachmentReferences(
+  text: string,
+  replace: (id: string, key: string | undefined, reference: string) => string
+) {
+  return text.replace(
+    REFERENCE_PATTERN,
+    (reference, id: string, key?: string) =>
+      replace(id, key || undefined, reference)
+  )
+}
+
+// Brackets would end the link text early
+const linkText = (name: string) => name.replace(/[[\]]/g, '')
+
+// Stores the file for the note and returns the markdown that shows it,
+// an image or a link to the file
+export async function addAttachment(note: Note, file: File): Promise<string> {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`${file.name} is larger than 10 MB`)
+  }
+
+  const id = crypto.randomUUID()
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  let sealed: Pick<Attachment, 'data' | 'nonce' | 'authTag'> = {
+    data: new Blob([bytes], { type: file.type }),
+  }
+  let reference = `${ATTACHMENT_SCHEME}${id}`
+  if (isEnvelopeEncrypted(note)) {
+    const key = await generateKey()
+    const encrypted = await encryptBytes(bytes, key)
+    sealed = {
+      data: new Blob([base64ToArrayBuffer(encrypted.encryptedContent)]),
+      nonce: encrypted.nonce,
+      authTag: encrypted.authTag,
+    }
+    reference += `#${await exportKeyToString(key)}`
+  }
+
+  await notesDB.saveAttachment({
+    id,
+    noteId: note.id,
+    userId: note.userId,
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    createdAt: Date.now(),
+    ...sealed,
+  })
+
+  const text = linkText(file.name)
+  return file.type.startsWith('image/')
+    ? `![${text}](${reference})`
+    : `[${text}](${reference})`
+}
+
+// Encrypts the plaintext attachments of a note that is being encrypted.
+// They keep their ids, so the next sync replaces the copies on the server
+// as well. Returns a function that adds the new keys to the references in
+// a text of the note, for its content and its history.
+export async function sealAttachments(note: Note, content: string) {
+  const ids = new Set(
+    (await notesDB.attachments.where('noteId').equals(note.id).toArray()).map(
+      (attachment) => attachment.id
+    )
+  )
+  for (const [, id, key] of content.matchAll(REFERENCE_PATTERN)) {
+    if (!key) ids.add(id)
+  }
+
+  const keys = new Map<string, string>()
+  for (const id of ids) {
+    const attachment =
+      (await notesDB.attachments.get(id)) ??
+      (await syncEngine.pullAttachment(id))
+    if (
+      !attachment ||
+      attachment.deleted ||
+      attachment.nonce ||
+      attachment.noteId !== note.id
+    ) {
+      continue
+    }
+    const key = await generateKey()
+    const encrypted = await encryptBytes(
+      new Uint8Array(await attachment.data.arrayBuffer()),
+      key
+    )
+    await notesDB.saveAttachment({
+      ...attachment,
+      data: new Blob([base64ToArrayBuffer(encrypted.encryptedContent)]),
+      nonce: encrypted.nonce,
+      authTag: encrypted.authTag,
+    })
+    keys.set(id, await exportKeyToString(key))
+  }
+
+  return (text: string) =>
+    replaceAttachmentReferences(text, (id, key, reference) =>
+      !key && keys.has(id) ? `${reference}#${keys.get(id)}` : reference
+    )
+}
+
+// Contents of the attachment an `attachment:` URL refers to, fetched from
+// the server when this device does not have it yet
+export async function loadAttachment(url: string): Promise<Blob | null> {
+  const parsed = parseAttachmentUrl(url)
+  if (!parsed) return null
+  const attachment =
+    (await notesDB.attachments.get(parsed.id)) ??
+    (await syncEngine.pullAttachment(parsed.id))
+  if (!attachment || attachment.deleted) return null
+  return openAttachment(attachment, parsed.key)
+}
+
+// Plaintext of a stored attachment. Encrypted ones need the key from their
+// reference, without it this is null.
+export async function openAttachment(
+  attachment: Attachment,
+  key?: string
+): Promise<Blob | null> {
+  if (!attachment.nonce || !attachment.authTag) return attachment.data
+  if (!key) return null
+  const bytes = await decryptBytes(
+    {
+      encryptedContent: await blobToBase64(attachment.data),
+      nonce: attachment.nonce,
+      authTag: attachment.authTag,
+    },
+    await importKeyFromString(key)
+  )
+  return new Blob([new Uint8Array(bytes)], { type: attachment.type })
+}
+
+export async function blobToBase64(blob: Blob) {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+}
+
+// Saves a linked file through the browser's download prompt
+export async function downloadAttachment(url: string, name: string) {
+  const blob = await loadAttachment(url)
+  if (!blob) throw new Error('Attachment not found')
+  const objectUrl = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = objectUrl
+  link.download = name
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(objectUrl), 0)
+}
+
+// Whether the plaintext of a note or of one of its revisions still refers
+// to the attachment. Encrypted notes cannot be searched while locked, their
+// attachments are kept for as long as the note exists.
+async function isReferenced(attachment: Attachment, note: Note) {
+  if (isEnvelopeEncrypted(note)) return true
+  const reference = `${ATTACHMENT_SCHEME}${attachment.id}`
+  if (note.content.includes(reference)) return true
+  const revisions = await notesDB.getRevisions(note.id)
+  return revisions.some(
+    (revision) =>
+      isEnvelopeEncrypted(revision) || revision.content.includes(reference)
+  )
+}
+
+// Removes attachments whose note is gone or no longer refers to them.
+// Uploads of this account are deleted remotely on the next sync; copies
+// downloaded for notes shared with it are only dropped here. Returns how
+// many were removed.
+export async function collectAttachments(userId?: string) {
+  const cutoff = Date.now() - COLLECT_AFTER
+  const candidates = await notesDB.attachments
+    .filter((a) => !a.deleted && a.createdAt < cutoff)
+    .toArray()
+
+  let removed = 0
+  for (const attachment of candidates) {
+    const note = await notesDB.notes.get(attachment.noteId)
+    if (note && (await isReferenced(attachment, note))) continue
+
+    if (userId && attachment.userId === userId) {
+      await notesDB.saveAttachment({ ...attachment, deleted: true })
+    } else if (
+      (!userId && !attachment.userId) ||
+      (attachment.syncStatus === 'synced' && (!note || note.ownerId))
+    ) {
+      await notesDB.attachments.delete(attachment.id)
+    } else {
+      continue
+    }
+    removed++
+  }
+  return removed
+}
@@ -0,0 +1,162 @@
+// Accounts and sign-in. With NEXT_PUBLIC_NOTES_BACKEND=rest the sync
+// server at NEXT_PUBLIC_NOTES_URL signs users in (see server/auth.mjs),
+// otherwise Supabase Auth does. Both send a one-time code by email.
+
+import { createClient } from '@/lib/supabase/client'
+
+export interface AuthUser {
+  id: string
+  email?: string
+}
+
+export interface AuthClient {
+  getUser(): Promise<AuthUser | null>
+  // Called when the user signs in or out, also in another tab
+  onChange(listener: (user: AuthUser | null) => void): () => void
+  signInWithOtp(email: string): Promise<void>
+  verifyOtp(email: string, code: string): Promise<void>
+  signOut(): Promise<void>
+  // Token that authorizes requests of the signed-in user
+  accessToken(): Promise<string | null>
+}
+
+function createSupabaseAuth(): AuthClient {
+  return {
+    async getUser() {
+      const { data } = await createClient().auth.getSession()
+      return data.session?.user ?? null
+    },
+    onChange(listener) {
+      const {
+        data: { subscription },
+      } = createClient().auth.onAuthStateChange((_event, session) =>
+        listener(session?.user ?? null)
+      )
+      return () => subscription.unsubscribe()
+    },
+    async signInWithOtp(email) {
+      const { error } = await createClient().auth.signInWithOtp({ email })
+      if (error) throw error
+    },
+    async verifyOtp(email, code) {
+      const { error } = await createClient().auth.verifyOtp({
+        email,
+        token: code,
+        type: 'magiclink',
+      })
+      if (error) throw error
+    },
+    async signOut() {
+      const { error } = await createClient().auth.signOut()
+      if (error) throw error
+    },
+    async accessToken() {
+      const { data } = await createClient().auth.getSession()
+      return data.session?.access_token ?? null
+    },
+  }
+}
+
+const SESSION_KEY = 'mcx-notes-session'
+
+interface ServerSession {
+  token: string
+  user: AuthUser
+}
+
+function createServerAuth(url: string): AuthClient {
+  const base = url.replace(/\/+$/, '')
+  const listeners = new Set<(user: AuthUser | null) => void>()
+
+  const readSession = (): ServerSession | null => {
+    if (typeof localStorage === 'undefined') return null
+    const stored = localStorage.getItem(SESSION_KEY)
+    return stored ? (JSON.parse(stored) as ServerSession) : null
+  }
+  const writeSession = (session: ServerSession | null) => {
+    if (session) {
+      localStorage.setItem(SESSION_KEY, JSON.stringify(session))
+    } else {
+      localStorage.removeItem(SESSION_KEY)
+    }
+    listeners.forEach((listener) => listener(session?.user ?? null))
+  }
+
+  const post = async (path: string, body: unknown, token?: string) => {
+    const response = await fetch(`${base}${path}`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        ...(token ? { authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(body),
+    })
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({}))
+      throw new Error(error ?? `Request failed with ${response.status}`)
+    }
+    return response
+  }
+
+  return {
+    async getUser() {
+      const session = readSession()
+      if (!session) return null
+      try {
+        const response = await fetch(`${base}/auth/user`, {
+          headers: { authorization: `Bearer ${session.token}` },
+        })
+        // Expired or signed out elsewhere
+        if (response.status === 401) {
+          writeSession(null)
+          return null
+        }
+      } catch {
+        // Offline, the stored session stays until the server can tell
+      }
+      return session.user
+    },
+    onChange(listener) {
+      listeners.add(listener)
+      // Sign-ins and sign-outs of other tabs
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key === SESSION_KEY) listener(readSession()?.user ?? null)
+      }
+      window.addEventListener('storage', handleStorage)
+      return () => {
+        listeners.delete(listener)
+        window.removeEventListener('storage', handleStorage)
+      }
+    },
+    async signInWithOtp(email) {
+      await post('/auth/otp', { email })
+    },
+    async verifyOtp(email, code) {
+      const response = await post('/auth/verify', { email, code })
+      writeSession((await response.json()) as ServerSession)
+    },
+    async signOut() {
+      const session = readSession()
+      // The local session ends even if the server cannot be reached
+      writeSession(null)
+      if (!session) return
+      try {
+        await post('/auth/signout', {}, session.token)
+      } catch {}
+    },
+    async accessToken() {
+      return readSession()?.token ?? null
+    },
+  }
+}
+
+export function createAuthClient(): AuthClient {
+  const url = process.env.NEXT_PUBLIC_NOTES_URL
+  if (process.env.NEXT_PUBLIC_NOTES_BACKEND === 'rest') {
+    if (!url) throw new Error('NEXT_PUBLIC_NOTES_URL is needed for rest')
+    return createServerAuth(url)
+  }
+  return createSupabaseAuth()
+}
+
+export const authClient = createAuthClient()
@@ -0,0 +1,159 @@
+import { beforeEach, expect, test } from 'bun:test'
+
+import { addAttachment, loadAttachment } from '@/lib/attachments'
+import {
+  createEncryptedBackup,
+  readEncryptedBackup,
+  restoreBackup,
+} from '@/lib/backup'
+import { notesDB, type Note, type VaultRecord } from '@/lib/db'
+import { vaultId } from '@/lib/vault'
+
+const PASSPHRASE = 'correct horse battery staple'
+
+function note(fields: Partial<Note> = {}): Note {
+  const now = Date.now()
+  return {
+    id: crypto.randomUUID(),
+    title: 'Title',
+    content: 'Content',
+    createdAt: now,
+    updatedAt: now,
+    ...fields,
+  }
+}
+
+// A backup as the user would pick it from disk
+async function backup() {
+  return (await createEncryptedBackup(PASSPHRASE)).text()
+}
+
+async function restore(text: string, mode: 'merge' | 'replace') {
+  return restoreBackup(await readEncryptedBackup(text, PASSPHRASE), mode)
+}
+
+function vault(createdAt: number): VaultRecord {
+  return {
+    id: vaultId(),
+    salt: 'salt',
+    wrappedKey: `key of ${createdAt}`,
+    createdAt,
+    updatedAt: createdAt,
+  }
+}
+
+beforeEach(async () => {
+  await Promise.all(notesDB.tables.map((table) => table.clear()))
+})
+
+test('restores attachments with their bytes and envelopes', async () => {
+  const plain = await notesDB.saveNote(note())
+  const sealed = await notesDB.saveNote(
+    note({
+      encryptedContent: 'cipher',
+      salt: 'salt',
+      nonce: 'nonce',
+      authTag: 'tag',
+    })
+  )
+  const image = await addAttachment(
+    plain,
+    new File(['image bytes'], 'image.png', { type: 'image/png' })
+  )
+  const file = await addAttachment(
+    sealed,
+    new File(['secret bytes'], 'secret.txt', { type: 'text/plain' })
+  )
+  const url = (markdown: string) => markdown.match(/\((attachment:[^)]+)\)/)![1]
+
+  const text = await backup()
+  await Promise.all(notesDB.tables.map((table) => table.clear()))
+  await restore(text, 'replace')
+
+  expect(await (await loadAttachment(url(image)))?.text()).toBe('image bytes')
+  expect(await (await loadAttachment(url(file)))?.text()).toBe('secret bytes')
+  const restored = await notesDB.attachments.toArray()
+  expect(restored.find((a) => a.noteId === sealed.id)?.nonce).toBeString()
+})
+
+test('refuses a wrong passphrase', async () => {
+  await notesDB.saveNote(note())
+  const text = await backup()
+  await expect(readEncryptedBackup(text, 'wrong')).rejects.toThrow(
+    'Wrong passphrase or damaged backup'
+  )
+})
+
+test('refuses a backup that was tampered with', async () => {
+  await notesDB.saveNote(note())
+  const file = JSON.parse(await backup())
+  const bytes = atob(file.encryptedContent)
+  file.encryptedContent = btoa(
+    String.fromCharCode(bytes.charCodeAt(0) ^ 1) + bytes.slice(1)
+  )
+  await expect(
+    readEncryptedBackup(JSON.stringify(file), PASSPHRASE)
+  ).rejects.toThrow('Wrong passphrase or damaged backup')
+  await expect(readEncryptedBackup('{}', PASSPHRASE)).rejects.toThrow(
+    'Not a backup file'
+  )
+})
+
+test('keeps newer local notes when merging', async () => {
+  const edited = await notesDB.saveNote(note({ title: 'Backed up' }))
+  const removed = await notesDB.saveNote(note())
+  const text = await backup()
+
+  await notesDB.saveNote({
+    ...edited,
+    title: 'Edited later',
+    updatedAt: edited.updatedAt + 1,
+  })
+  await notesDB.notes.delete(removed.id)
+  const added = await notesDB.saveNote(note())
+
+  expect(await restore(text, 'merge')).toEqual({
+    restored: 1,
+    kept: 1,
+    removed: 0,
+  })
+  expect((await notesDB.notes.get(edited.id))?.title).toBe('Edited later')
+  expect(await notesDB.notes.get(removed.id)).toBeDefined()
+  expect(await notesDB.notes.get(added.id)).toBeDefined()
+})
+
+test('returns to the backed up notes when replacing', async () => {
+  const edited = await notesDB.saveNote(note({ title: 'Backed up' }))
+  const text = await backup()
+
+  await notesDB.saveNote({
+    ...edited,
+    title: 'Edited later',
+    updatedAt: edited.updatedAt + 1,
+  })
+  const added = await notesDB.saveNote(note())
+
+  expect(await restore(text, 'replace')).toEqual({
+    restored: 1,
+    kept: 0,
+    removed: 1,
+  })
+  expect((await notesDB.notes.get(edited.id))?.title).toBe('Backed up')
+  expect(await notesDB.notes.get(added.id)).toBeUndefined()
+})
+
+test('keeps a different vault next to the current one when merging', async () => {
+  await notesDB.vaults.put(vault(1))
+  const text = await backup()
+  await notesDB.vaults.put(vault(2))
+
+  await restore(text, 'merge')
+  expect((await notesDB.vaults.get(vaultId()))?.createdAt).toBe(2)
+  expect(await notesDB.vaults.get('restored-1')).toMatchObject({
+    wrappedKey: 'key of 1',
+    createdAt: 1,
+  })
+
+  await restore(text, 'replace')
+  expect((await notesDB.vaults.get(vaultId()))?.createdAt).toBe(1)
+})
@@ -0,0 +1,334 @@
+// Encrypted full backup: every note (with the envelopes of encrypted
+// ones), their attachments, folders, history, the vault record and
+// settings, sealed as one JSON file with a backup passphrase. Meant for
+// users who never sign in, whose only copy lives in IndexedDB.
+
+import { blobToBase64 } from '@/lib/attachments'
+import {
+  base64ToArrayBuffer,
+  decryptContent,
+  encryptContent,
+} from '@/lib/crypto'
+import {
+  notesDB,
+  type Attachment,
+  type Folder,
+  type Note,
+  type NoteRevision,
+  type VaultRecord,
+} from '@/lib/db'
+import { getSettings, updateSettings, type Settings } from '@/lib/settings'
+import { vaultId } from '@/lib/vault'
+
+export const BACKUP_FORMAT = 'mcx-notes-backup'
+const BACKUP_VERSION = 1
+
+// What is written to disk. Only the creation date is readable without the
+// passphrase; AES-GCM authenticates the rest.
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT
+  version: typeof BACKUP_VERSION
+  createdAt: number
+  encryptedContent: string
+  salt: string
+  nonce: string
+  authTag: string
+  header?: string
+}
+
+// Records are stored without their owner and local sync state, so a
+// backup can be restored into another account or while signed out
+export interface BackupPayload {
+  version: typeof BACKUP_VERSION
+  createdAt: number
+  notes: Note[]
+  folders: Folder[]
+  revisions: NoteRevision[]
+  vault: VaultRecord | null
+  settings: Settings
+  // Missing from backups made before attachments were included
+  attachments?: BackupAttachment[]
+}
+
+// An attachment with its bytes as base64. Those of encrypted notes stay
+// ciphertext, their keys are sealed in the notes.
+export type BackupAttachment = Omit<
+  Attachment,
+  'data' | 'userId' | 'deleted' | 'syncStatus'
+> & { data: string }
+
+export type RestoreMode = 'merge' | 'replace'
+
+export interface RestoreSummary {
+  restored: number
+  // Local notes newer than their backed up copy, kept when merging
+  kept: number
+  // Local notes missing from the backup, deleted when replacing
+  removed: number
+}
+
+function stripNote(note: Note): Note {
+  const stripped = { ...note }
+  delete stripped.userId
+  delete stripped.revision
+  delete stripped.baseTitle
+  delete stripped.baseContent
+  delete stripped.syncStatus
+  return stripped
+}
+
+async function toBackupAttachment(
+  attachment: Attachment
+): Promise<BackupAttachment> {
+  const stripped = { ...attachment }
+  delete stripped.userId
+  delete stripped.deleted
+  delete stripped.syncStatus
+  return { ...stripped, data: await blobToBase64(attachment.data) }
+}
+
+function stripFolder(folder: Folder): Folder {
+  const stripped = { ...folder }
+  delete stripped.userId
+  delete stripped.syncStatus
+  return stripped
+}
+
+export async function createEncryptedBackup(
+  passphrase: string,
+  userId?: string
+): Promise<Blob> {
+  const owned = <T extends { userId?: string }>(record: T) =>
+    (record.userId ?? undefined) === userId
+
+  const notes = (await notesDB.notes.toArray()).filter(owned)
+  const noteIds = new Set(notes.map((note) => note.id))
+  const vault = await notesDB.vaults.get(vaultId(userId))
+  const attachments = await notesDB.attachments
+    .filter((a) => noteIds.has(a.noteId) && !a.deleted)
+    .toArray()
+
+  const payload: BackupPayload = {
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    notes: notes.map(stripNote),
+    folders: (await notesDB.folders.toArray())
+      .filter((folder) => owned(folder) && !folder.deleted)
+      .map(stripFolder),
+    revisions: (await notesDB.revisions.toArray())
+      .filter((revision) => noteIds.has(revision.noteId))
+      .map((revision) => ({ ...revision, userId: undefined })),
+    vault: vault
+      ? { ...vault, userId: undefined, syncStatus: undefined }
+      : null,
+    settings: await getSettings(),
+    attachments: await Promise.all(attachments.map(toBackupAttachment)),
+  }
+
+  const sealed = await encryptContent(JSON.stringify(payload), passphrase)
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: payload.createdAt,
+    encryptedContent: sealed.encryptedContent,
+    salt: sealed.salt,
+    nonce: sealed.nonce,
+    authTag: sealed.authTag,
+    header: sealed.header,
+  }
+  return new Blob([JSON.stringify(file)], { type: 'application/json' })
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+const isNumber = (value: unknown): value is number => typeof value === 'number'
+
+function isValidNote(note: Note) {
+  if (!note) return false
+  const encrypted = isString(note.encryptedContent)
+  return (
+    isString(note.id) &&
+    isString(note.title) &&
+    isString(note.content) &&
+    isNumber(note.createdAt) &&
+    isNumber(note.updatedAt) &&
+    (!encrypted || (isString(note.nonce) && isString(note.authTag)))
+  )
+}
+
+function isValidAttachment(attachment: BackupAttachment) {
+  if (!attachment) return false
+  const encrypted = attachment.nonce !== undefined
+  return (
+    isString(attachment.id) &&
+    isString(attachment.noteId) &&
+    isString(attachment.name) &&
+    isString(attachment.type) &&
+    isString(attachment.data) &&
+    isNumber(attachment.size) &&
+    isNumber(attachment.createdAt) &&
+    (!encrypted || (isString(attachment.nonce) && isString(attachment.authTag)))
+  )
+}
+
+function isValidPayload(payload: BackupPayload) {
+  return (
+    payload?.version === BACKUP_VERSION &&
+    Array.isArray(payload.notes) &&
+    Array.isArray(payload.folders) &&
+    Array.isArray(payload.revisions) &&
+    payload.notes.every(isValidNote) &&
+    payload.folders.every(
+      (folder) => isString(folder?.id) && isString(folder.name)
+    ) &&
+    payload.revisions.every(
+      (revision) => isString(revision?.id) && isString(revision.noteId)
+    ) &&
+    (payload.vault === null ||
+      (isString(payload.vault?.wrappedKey) && isString(payload.vault.salt))) &&
+    (payload.attachments === undefined ||
+      (Array.isArray(payload.attachments) &&
+        payload.attachments.every(isValidAttachment)))
+  )
+}
+
+// Decrypts and checks a backup file without touching the database. Throws
+// when the passphrase is wrong or anything in the file is damaged.
+export async function readEncryptedBackup(
+  text: string,
+  passphrase: string
+): Promise<BackupPayload> {
+  let file: BackupFile
+  try {
+    file = JSON.parse(text)
+  } catch {
+    throw new Error('Not a backup file')
+  }
+  if (file?.format !== BACKUP_FORMAT) throw new Error('Not a backup file')
+  if (file.version !== BACKUP_VERSION) {
+    throw new Error('Backup was made by a newer version of the app')
+  }
+
+  let payload: BackupPayload
+  try {
+    payload = JSON.parse(await decryptContent(file, passphrase))
+  } catch {
+    throw new Error('Wrong passphrase or damaged backup')
+  }
+  if (!isValidPayload(payload)) throw new Error('Backup is incomplete')
+  return payload
+}
+
+// The backed up vault becomes this device's vault unless another one is
+// already in use. Vaults are created once and keep their creation time
+// across passphrase changes, so that tells whether they hold the same key.
+async function restoreVault(
+  backup: VaultRecord,
+  mode: RestoreMode,
+  userId?: string
+) {
+  const current = await notesDB.vaults.get(vaultId(userId))
+  if (current && current.createdAt === backup.createdAt && mode === 'merge') {
+    return
+  }
+
+  const record: VaultRecord =
+    !current || mode === 'replace'
+      ? { ...backup, id: vaultId(userId), userId }
+      : // Kept next to the current vault. Its notes open whenever both
+        // vaults share a passphrase, see unlockVault.
+        { ...backup, id: `restored-${backup.createdAt}`, userId: undefined }
+  await notesDB.vaults.put({
+    ...record,
+    updatedAt: Date.now(),
+    syncStatus: record.userId ? 'pending' : undefined,
+  })
+}
+
+// Writes a checked backup into the database in one transaction. Merging
+// keeps whichever copy of a note was updated last; replacing also deletes
+// local notes and folders that are not in the backup.
+export async function restoreBackup(
+  payload: BackupPayload,
+  mode: RestoreMode,
+  userId?: string
+): Promise<RestoreSummary> {
+  const summary: RestoreSummary = { restored: 0, kept: 0, removed: 0 }
+  const backupNoteIds = new Set(payload.notes.map((note) => note.id))
+  const backupFolderIds = new Set(payload.folders.map((folder) => folder.id))
+
+  await notesDB.transaction(
+    'rw',
+    [
+      notesDB.notes,
+      notesDB.outbox,
+      notesDB.conflicts,
+      notesDB.revisions,
+      notesDB.collabUpdates,
+      notesDB.attachments,
+      notesDB.folders,
+      notesDB.vaults,
+      notesDB.settings,
+    ],
+    async () => {
+      if (mode === 'replace') {
+        const local = await notesDB.notes
+          .filter((note) => (note.userId ?? undefined) === userId)
+          .toArray()
+        for (const note of local) {
+          if (backupNoteIds.has(note.id)) continue
+          await notesDB.deleteNote(note.id, userId)
+          await notesDB.revisions.where('noteId').equals(note.id).delete()
+          summary.removed++
+        }
+
+        const folders = await notesDB.getFolders(userId)
+        for (const folder of folders) {
+          if (backupFolderIds.has(folder.id)) continue
+          if (userId) await notesDB.saveFolder({ ...folder, deleted: true })
+          else await notesDB.folders.delete(folder.id)
+        }
+      }
+
+      for (const folder of payload.folders) {
+        const local = await notesDB.folders.get(folder.id)
+        if (mode === 'merge' && local && local.updatedAt >= folder.updatedAt) {
+          continue
+        }
+        await notesDB.saveFolder({ ...folder, userId })
+      }
+
+      for (const note of payload.notes) {
+        const local = await notesDB.notes.get(note.id)
+        if (mode === 'merge' && local && local.updatedAt >= note.updatedAt) {
+          summary.kept++
+          continue
+        }
+        await notesDB.saveNote({ ...note, userId })
+        summary.restored++
+      }
+
+      for (const revision of payload.revisions) {
+        if (await notesDB.revisions.get(revision.id)) continue
+        await notesDB.saveRevision({ ...revision, userId })
+      }
+
+      // Attachments never change, a local copy is as good as the backup's
+      for (const attachment of payload.attachments ?? []) {
+        const local = await notesDB.attachments.get(attachment.id)
+        if (local && !local.deleted) continue
+        await notesDB.saveAttachment({
+          ...attachment,
+          userId,
+          data: new Blob([base64ToArrayBuffer(attachment.data)], {
+            type: attachment.nonce ? '' : attachment.type,
+          }),
+        })
+      }
+
+      if (payload.vault) await restoreVault(payload.vault, mode, userId)
+      if (mode === 'replace') await updateSettings(payload.settings)
+    }
+  )
+
+  return summary
+}
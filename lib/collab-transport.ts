@@ -0,0 +1,202 @@
+// Transports carry the messages of a collaboration session between the
+// peers editing one note. Supabase Realtime in production; an in-process
+// hub and a WebSocket relay (scripts/collab-relay.mjs) stand in for it
+// during local testing.
+
+import { arrayBufferToBase64, base64ToArrayBuffer } from '@/lib/crypto'
+import { hasSupabaseFeatures } from '@/lib/repository'
+import { createClient } from '@/lib/supabase/client'
+
+// Binary Yjs payloads travel as base64, the transports only carry JSON
+export type CollabMessage =
+  // Asks the other peers for everything missing from `stateVector`. A
+  // `reply` is sent back when the asker turns out to know more itself.
+  | { type: 'sync-request'; stateVector: string; reply?: boolean }
+  | { type: 'update'; update: string }
+  | { type: 'awareness'; update: string }
+
+export interface CollabTransport {
+  // Delivered to every other peer in the room, never back to the sender
+  send(message: CollabMessage): void
+  onMessage(listener: (message: CollabMessage) => void): () => void
+  // Called whenever the connection is established again, the session
+  // then catches up with whatever it missed. Listeners added while the
+  // connection is open are called right away.
+  onOpen(listener: () => void): () => void
+  close(): void
+}
+
+export const encodeBinary = (bytes: Uint8Array) =>
+  arrayBufferToBase64(bytes.slice().buffer)
+
+export const decodeBinary = (base64: string) =>
+  new Uint8Array(base64ToArrayBuffer(base64))
+
+// Listener bookkeeping shared by the transports
+function createListeners() {
+  const messageListeners = new Set<(message: CollabMessage) => void>()
+  const openListeners = new Set<() => void>()
+  let isOpen = false
+  return {
+    onMessage(listener: (message: CollabMessage) => void) {
+      messageListeners.add(listener)
+      return () => {
+        messageListeners.delete(listener)
+      }
+    },
+    onOpen(listener: () => void) {
+      openListeners.add(listener)
+      if (isOpen) queueMicrotask(listener)
+      return () => {
+        openListeners.delete(listener)
+      }
+    },
+    emitMessage(message: CollabMessage) {
+      messageListeners.forEach((listener) => listener(message))
+    },
+    emitOpen() {
+      isOpen = true
+      openListeners.forEach((listener) => listener())
+    },
+    emitClosed() {
+      isOpen = false
+    },
+    clear() {
+      messageListeners.clear()
+      openListeners.clear()
+    },
+  }
+}
+
+// Private broadcast channel per document, `collab:<note id>:<doc id>`.
+// Who may join is decided by the policies on `realtime.messages`.
+export function createRealtimeTransport(
+  noteId: string,
+  docId: string
+): CollabTransport {
+  const supabase = createClient()
+  const listeners = createListeners()
+  const channel = supabase.channel(`collab:${noteId}:${docId}`, {
+    config: { private: true, broadcast: { self: false } },
+  })
+
+  channel
+    .on('broadcast', { event: 'collab' }, ({ payload }) =>
+      listeners.emitMessage(payload as CollabMessage)
+    )
+    .subscribe((status) => {
+      if (status === 'SUBSCRIBED') listeners.emitOpen()
+      else listeners.emitClosed()
+    })
+
+  return {
+    send(message) {
+      channel.send({ type: 'broadcast', event: 'collab', payload: message })
+    },
+    onMessage: listeners.onMessage,
+    onOpen: listeners.onOpen,
+    close() {
+      listeners.clear()
+      supabase.removeChannel(channel)
+    },
+  }
+}
+
+const memoryRooms = new Map<string, Set<(message: CollabMessage) => void>>()
+
+// Peers in the same JavaScript context, for tests and demos. Delivery is
+// asynchronous and copies the message, like a real network.
+export function createMemoryTransport(room: string): CollabTransport {
+  const listeners = createListeners()
+  const peers = memoryRooms.get(room) ?? new Set()
+  memoryRooms.set(room, peers)
+  peers.add(listeners.emitMessage)
+  queueMicrotask(listeners.emitOpen)
+
+  return {
+    send(message) {
+      for (const deliver of peers) {
+        if (deliver === listeners.emitMessage) continue
+        queueMicrotask(() => deliver(structuredClone(message)))
+      }
+    },
+    onMessage: listeners.onMessage,
+    onOpen: listeners.onOpen,
+    close() {
+      listeners.clear()
+      peers.delete(listeners.emitMessage)
+      if (peers.size === 0) memoryRooms.delete(room)
+    },
+  }
+}
+
+const RECONNECT_DELAY = 1000
+const MAX_RECONNECT_DELAY = 30 * 1000
+
+// Talks to a relay that forwards every message to the other sockets of
+// the same room, such as scripts/collab-relay.mjs
+export function createWebSocketTransport(
+  url: string,
+  room: string
+): CollabTransport {
+  const listeners = createListeners()
+  let socket: WebSocket | null = null
+  let closed = false
+  let delay = RECONNECT_DELAY
+  let retryTimer: ReturnType<typeof setTimeout> | null = null
+
+  const connect = () => {
+    const target = new URL(url)
+    target.searchParams.set('room', room)
+    socket = new WebSocket(target)
+    socket.onopen = () => {
+      delay = RECONNECT_DELAY
+      listeners.emitOpen()
+    }
+    socket.onmessage = (event) => {
+      try {
+        listeners.emitMessage(JSON.parse(event.data))
+      } catch {}
+    }
+    socket.onclose = () => {
+      listeners.emitClosed()
+      if (closed) return
+      retryTimer = setTimeout(connect, delay)
+      delay = Math.min(delay * 2, MAX_RECONNECT_DELAY)
+    }
+  }
+  connect()
+
+  return {
+    send(message) {
+      // Missed messages are caught up on with a sync request on reconnect
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message))
+      }
+    },
+    onMessage: listeners.onMessage,
+    onOpen: listeners.onOpen,
+    close() {
+      closed = true
+      if (retryTimer) clearTimeout(retryTimer)
+      listeners.clear()
+      socket?.close()
+    },
+  }
+}
+
+// Whether `createTransport` has anything to connect to: Realtime needs
+// Supabase, other backends need the relay
+export const hasCollabTransport =
+  hasSupabaseFeatures || !!process.env.NEXT_PUBLIC_COLLAB_RELAY_URL
+
+// The relay replaces Realtime when NEXT_PUBLIC_COLLAB_RELAY_URL is set
+export function createTransport(
+  noteId: string,
+  docId: string
+): CollabTransport {
+  const relay = process.env.NEXT_PUBLIC_COLLAB_RELAY_URL
+  return relay
+    ? createWebSocketTransport(relay, `${noteId}:${docId}`)
+    : createRealtimeTransport(noteId, docId)
+}
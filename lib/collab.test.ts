@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, expect, test } from 'bun:test'
+
+import { CollabSession } from '@/lib/collab'
+import {
+  createMemoryTransport,
+  type CollabMessage,
+  type CollabTransport,
+} from '@/lib/collab-transport'
+import { notesDB } from '@/lib/db'
+
+const NOTE_ID = 'note-1'
+
+let room: string
+let sessions: CollabSession[]
+
+// The memory transport, with a connection that can drop and come back
+function reconnectingTransport() {
+  const messageListeners = new Set<(message: CollabMessage) => void>()
+  const openListeners = new Set<() => void>()
+  let connection: CollabTransport | null = null
+  let isOpen = false
+
+  const connect = () => {
+    connection = createMemoryTransport(room)
+    connection.onMessage((message) =>
+      messageListeners.forEach((listener) => listener(message))
+    )
+    connection.onOpen(() => {
+      isOpen = true
+      openListeners.forEach((listener) => listener())
+    })
+  }
+  connect()
+
+  return {
+    send: (message: CollabMessage) => connection?.send(message),
+    onMessage(listener: (message: CollabMessage) => void) {
+      messageListeners.add(listener)
+      return () => void messageListeners.delete(listener)
+    },
+    onOpen(listener: () => void) {
+      openListeners.add(listener)
+      if (isOpen) queueMicrotask(listener)
+      return () => void openListeners.delete(listener)
+    },
+    disconnect() {
+      connection?.close()
+      connection = null
+      isOpen = false
+    },
+    close() {
+      connection?.close()
+    },
+    reconnect: connect,
+  }
+}
+
+// Peers keep their stored updates apart under their own document id, as
+// on separate devices
+async function join(docId: string, transport: CollabTransport) {
+  const session = new CollabSession(NOTE_ID, docId, transport, {
+    name: docId,
+    color: '#000000',
+  })
+  sessions.push(session)
+  await session.start()
+  return session
+}
+
+async function waitFor(condition: () => boolean) {
+  for (let i = 0; i < 100 && !condition(); i++) await Bun.sleep(5)
+  expect(condition()).toBe(true)
+}
+
+beforeEach(async () => {
+  await Promise.all(notesDB.tables.map((table) => table.clear()))
+  room = crypto.randomUUID()
+  sessions = []
+})
+
+afterEach(() => sessions.forEach((session) => session.destroy()))
+
+test('exchanges edits between peers', async () => {
+  const a = await join('doc-a', createMemoryTransport(room))
+  const b = await join('doc-b', createMemoryTransport(room))
+
+  a.replaceContent('Hello')
+  await waitFor(() => b.getContent() === 'Hello')
+  b.replaceContent('Hello world')
+  await waitFor(() => a.getContent() === 'Hello world')
+})
+
+test('catches up with edits made before joining', async () => {
+  const a = await join('doc-a', createMemoryTransport(room))
+  a.replaceContent('Written alone')
+
+  const b = await join('doc-b', createMemoryTransport(room))
+  await waitFor(() => b.getContent() === 'Written alone')
+  await waitFor(() => b.getPeers().some((peer) => peer.user.name === 'doc-a'))
+})
+
+test('merges edits made on both sides while disconnected', async () => {
+  const a = await join('doc-a', createMemoryTransport(room))
+  const transport = reconnectingTransport()
+  const b = await join('doc-b', transport)
+  a.replaceContent('one\ntwo')
+  await waitFor(() => b.getContent() === 'one\ntwo')
+
+  transport.disconnect()
+  a.replaceContent('ONE\ntwo')
+  b.replaceContent('one\nTWO')
+  await Bun.sleep(20)
+  expect(b.getContent()).toBe('one\nTWO')
+
+  transport.reconnect()
+  await waitFor(() => a.getContent() === 'ONE\nTWO')
+  await waitFor(() => b.getContent() === 'ONE\nTWO')
+})
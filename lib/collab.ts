@@ -0,0 +1,335 @@
+// Collaborative editing: the content of a collaborative note lives in a Yjs
+// document that every editing peer holds a copy of. Updates are stored in
+// Dexie so the note opens offline, and exchanged over a CollabTransport.
+// Only plaintext notes can be collaborative, updates are not encrypted.
+
+import {
+  applyAwarenessUpdate,
+  Awareness,
+  encodeAwarenessUpdate,
+} from 'y-protocols/awareness'
+import * as Y from 'yjs'
+
+import {
+  decodeBinary,
+  encodeBinary,
+  type CollabMessage,
+  type CollabTransport,
+} from '@/lib/collab-transport'
+import { notesDB } from '@/lib/db'
+
+// Stored updates of a note before they are merged into one
+const COMPACT_AFTER = 200
+
+// Recent states of the content, see isRecentContent
+const RECENT_CONTENTS = 20
+
+// Transaction origins
+const REMOTE = 'remote'
+const STORED = 'stored'
+
+export interface CollabUser {
+  name: string
+  color: string
+}
+
+// Another peer with the note open. Cursor offsets are into the current
+// content, or null while that peer's editor is not focused.
+export interface CollabPeer {
+  clientId: number
+  user: CollabUser
+  cursor: { anchor: number; head: number } | null
+}
+
+interface PeerState {
+  user?: CollabUser
+  cursor?: { anchor: unknown; head: unknown } | null
+}
+
+// 32-bit FNV-1a, used as the Yjs client id of seeded content
+function hashText(text: string) {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// A note becoming collaborative starts its document from the current
+// content, possibly on several peers at once. Seeds are written under a
+// client id derived from the text, so identical seeds merge into one
+// instead of doubling the content.
+function seedUpdate(content: string) {
+  const seed = new Y.Doc()
+  seed.clientID = hashText(content)
+  seed.getText('content').insert(0, content)
+  const update = Y.encodeStateAsUpdate(seed)
+  seed.destroy()
+  return update
+}
+
+// Whether `theirs` contains changes missing from `ours`
+function isAhead(theirs: Map<number, number>, ours: Map<number, number>) {
+  for (const [client, clock] of theirs) {
+    if (clock > (ours.get(client) ?? 0)) return true
+  }
+  return false
+}
+
+export class CollabSession {
+  readonly doc = new Y.Doc()
+  readonly text = this.doc.getText('content')
+  private awareness = new Awareness(this.doc)
+  private cleanups: (() => void)[] = []
+  private storedCount = 0
+  private recentContents: string[] = []
+  isDestroyed = false
+
+  constructor(
+    readonly noteId: string,
+    readonly docId: string,
+    private transport: CollabTransport,
+    user: CollabUser
+  ) {
+    this.awareness.setLocalState({ user, cursor: null })
+    this.text.observe(() => {
+      this.recentContents = [
+        ...this.recentContents.slice(1 - RECENT_CONTENTS),
+        this.text.toString(),
+      ]
+    })
+  }
+
+  // Loads the stored document, or seeds it from the saved content, and
+  // joins the other peers
+  async start() {
+    const updates = await notesDB.getCollabUpdates(this.docId)
+    if (this.isDestroyed) return
+    this.storedCount = updates.length
+    if (updates.length > 0) {
+      Y.applyUpdate(this.doc, Y.mergeUpdates(updates), STORED)
+    }
+
+    const handleUpdate = (update: Uint8Array, origin: unknown) => {
+      if (origin === STORED) return
+      this.persist(update)
+      if (origin !== REMOTE) {
+        this.transport.send({ type: 'update', update: encodeBinary(update) })
+      }
+    }
+    this.doc.on('update', handleUpdate)
+
+    if (updates.length === 0) {
+      const note = await notesDB.notes.get(this.noteId)
+      if (this.isDestroyed) return
+      if (note?.content) Y.applyUpdate(this.doc, seedUpdate(note.content))
+    }
+
+    const handleAwareness = (
+      changes: { added: number[]; updated: number[]; removed: number[] },
+      origin: unknown
+    ) => {
+      if (origin === REMOTE) return
+      const clients = [...changes.added, ...changes.updated, ...changes.removed]
+      this.transport.send({
+        type: 'awareness',
+        update: encodeBinary(encodeAwarenessUpdate(this.awareness, clients)),
+      })
+    }
+    this.awareness.on('update', handleAwareness)
+
+    this.cleanups = [
+      () => this.doc.off('update', handleUpdate),
+      () => this.awareness.off('update', handleAwareness),
+      this.transport.onMessage((message) => this.handleMessage(message)),
+      this.transport.onOpen(() => this.join()),
+    ]
+  }
+
+  destroy() {
+    this.isDestroyed = true
+    // Tells the other peers this one left, while the transport is open
+    this.awareness.destroy()
+    this.cleanups.forEach((cleanup) => cleanup())
+    this.cleanups = []
+    this.transport.close()
+    this.doc.destroy()
+  }
+
+  getContent() {
+    return this.text.toString()
+  }
+
+  // Whether the document held `content` lately. React state may trail a
+  // few changes behind, such values must not be written back.
+  isRecentContent(content: string) {
+    return (
+      content === this.text.toString() || this.recentContents.includes(content)
+    )
+  }
+
+  // Applies an edit made in the editor as the smallest replacement that
+  // turns the current content into `next`
+  replaceContent(next: string) {
+    const current = this.text.toString()
+    if (current === next) return
+    let start = 0
+    while (
+      start < current.length &&
+      start < next.length &&
+      current[start] === next[start]
+    ) {
+      start++
+    }
+    let end = 0
+    while (
+      end < current.length - start &&
+      end < next.length - start &&
+      current[current.length - 1 - end] === next[next.length - 1 - end]
+    ) {
+      end++
+    }
+    this.doc.transact(() => {
+      this.text.delete(start, current.length - start - end)
+      this.text.insert(start, next.slice(start, next.length - end))
+    }, this)
+  }
+
+  // Notified when the content changes other than through replaceContent
+  onContentChange(listener: () => void) {
+    const observer = (_event: Y.YTextEvent, transaction: Y.Transaction) => {
+      if (transaction.origin !== this) listener()
+    }
+    this.text.observe(observer)
+    return () => this.text.unobserve(observer)
+  }
+
+  // Positions relative to the document follow along as text is inserted
+  // or removed before them, unlike offsets
+  trackPosition(index: number) {
+    return Y.createRelativePositionFromTypeIndex(this.text, index)
+  }
+
+  resolvePosition(position: Y.RelativePosition) {
+    return (
+      Y.createAbsolutePositionFromRelativePosition(position, this.doc)?.index ??
+      null
+    )
+  }
+
+  setCursor(cursor: { anchor: number; head: number } | null) {
+    this.awareness.setLocalStateField(
+      'cursor',
+      cursor && {
+        anchor: Y.relativePositionToJSON(this.trackPosition(cursor.anchor)),
+        head: Y.relativePositionToJSON(this.trackPosition(cursor.head)),
+      }
+    )
+  }
+
+  getPeers(): CollabPeer[] {
+    const peers: CollabPeer[] = []
+    for (const [clientId, state] of this.awareness.getStates()) {
+      const { user, cursor } = state as PeerState
+      if (clientId === this.doc.clientID || !user) continue
+      const anchor = cursor && this.resolveJSON(cursor.anchor)
+      const head = cursor && this.resolveJSON(cursor.head)
+      peers.push({
+        clientId,
+        user,
+        cursor: anchor != null && head != null ? { anchor, head } : null,
+      })
+    }
+    return peers
+  }
+
+  // Notified when peers join, leave or move their cursor
+  onPeersChange(listener: () => void) {
+    this.awareness.on('change', listener)
+    return () => this.awareness.off('change', listener)
+  }
+
+  private resolveJSON(json: unknown) {
+    try {
+      return this.resolvePosition(Y.createRelativePositionFromJSON(json))
+    } catch {
+      return null
+    }
+  }
+
+  // Catches up after (re)connecting: asks for what is missing here and
+  // announces who is editing
+  private join() {
+    this.transport.send({
+      type: 'sync-request',
+      stateVector: encodeBinary(Y.encodeStateVector(this.doc)),
+    })
+    this.transport.send({
+      type: 'awareness',
+      update: encodeBinary(
+        encodeAwarenessUpdate(this.awareness, [this.doc.clientID])
+      ),
+    })
+  }
+
+  private handleMessage(message: CollabMessage) {
+    try {
+      if (message.type === 'update') {
+        Y.applyUpdate(this.doc, decodeBinary(message.update), REMOTE)
+      } else if (message.type === 'awareness') {
+        applyAwarenessUpdate(
+          this.awareness,
+          decodeBinary(message.update),
+          REMOTE
+        )
+      } else if (message.type === 'sync-request') {
+        this.answerSyncRequest(message.stateVector, message.reply)
+      }
+    } catch (error) {
+      console.error('Failed to apply collaboration message:', error)
+    }
+  }
+
+  private answerSyncRequest(encoded: string, isReply?: boolean) {
+    const stateVector = decodeBinary(encoded)
+    const missing = Y.encodeStateAsUpdate(this.doc, stateVector)
+    this.transport.send({ type: 'update', update: encodeBinary(missing) })
+
+    // The asker may have edited offline. Asking back once is enough, a
+    // reply is never answered with another request.
+    const theirs = Y.decodeStateVector(stateVector)
+    if (
+      !isReply &&
+      isAhead(theirs, Y.decodeStateVector(Y.encodeStateVector(this.doc)))
+    ) {
+      this.transport.send({
+        type: 'sync-request',
+        stateVector: encodeBinary(Y.encodeStateVector(this.doc)),
+        reply: true,
+      })
+    }
+    this.transport.send({
+      type: 'awareness',
+      update: encodeBinary(
+        encodeAwarenessUpdate(this.awareness, [this.doc.clientID])
+      ),
+    })
+  }
+
+  private persist(update: Uint8Array) {
+    this.storedCount++
+    const write =
+      this.storedCount > COMPACT_AFTER
+        ? notesDB.compactCollabUpdates(
+            this.noteId,
+            this.docId,
+            Y.encodeStateAsUpdate(this.doc)
+          )
+        : notesDB.addCollabUpdate(this.noteId, this.docId, update)
+    if (this.storedCount > COMPACT_AFTER) this.storedCount = 1
+    write.catch((error) => {
+      console.error('Failed to store collaboration update:', error)
+    })
+  }
+}
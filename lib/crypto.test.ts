@@ -0,0 +1,47 @@
+import { expect, test } from 'bun:test'
+
+import {
+  currentHeader,
+  decryptContent,
+  encryptContent,
+  parseHeader,
+  serializeHeader,
+} from '@/lib/crypto'
+
+const argon2 = (params: { [name: string]: number | undefined }) =>
+  JSON.stringify({
+    version: 1,
+    kdf: {
+      name: 'argon2id',
+      memoryCost: 64 * 1024,
+      iterations: 3,
+      parallelism: 1,
+      ...params,
+    },
+    cipher: 'AES-256-GCM',
+  })
+
+test('reads the headers it writes', () => {
+  const header = currentHeader()
+  expect(parseHeader(serializeHeader(header))).toEqual(header)
+})
+
+test('refuses KDF parameters beyond the limits', () => {
+  for (const params of [
+    { memoryCost: 64 * 1024 * 1024 },
+    { iterations: 1000 },
+    { parallelism: 0 },
+    { iterations: 2.5 },
+  ]) {
+    expect(() => parseHeader(argon2(params))).toThrow('Unsupported')
+  }
+})
+
+test('does not run the KDF of a crafted header', async () => {
+  const sealed = await encryptContent('secret', 'password')
+  const crafted = { ...sealed, header: argon2({ memoryCost: 2 ** 31 }) }
+  await expect(decryptContent(crafted, 'password')).rejects.toThrow(
+    'Unsupported'
+  )
+  expect(await decryptContent(sealed, 'password')).toBe('secret')
+})
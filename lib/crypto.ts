@@ -1,19 +1,124 @@
-// Client-side E2E encryption using Web Crypto API
+// Client-side E2E encryption using Web Crypto API, with Argon2id from
+// hash-wasm since Web Crypto only offers PBKDF2
+
+import { argon2id } from 'hash-wasm'
 
-const PBKDF2_ITERATIONS = 100000
 const AES_KEY_LENGTH = 256
 const SALT_LENGTH = 16
 const NONCE_LENGTH = 12
 
+export type KdfName = 'argon2id' | 'pbkdf2'
+
+export type KdfParams =
+  | { name: 'pbkdf2'; hash: 'SHA-256'; iterations: number }
+  | {
+      name: 'argon2id'
+      memoryCost: number // KiB
+      iterations: number
+      parallelism: number
+    }
+
+// Recorded next to every password-encrypted payload, so the parameters
+// can be raised later without breaking what was encrypted before
+export interface CryptoHeader {
+  version: 1
+  kdf: KdfParams
+  cipher: 'AES-256-GCM'
+}
+
+export const KDF_PRESETS: Record<KdfName, KdfParams> = {
+  argon2id: {
+    name: 'argon2id',
+    memoryCost: 64 * 1024,
+    iterations: 3,
+    parallelism: 1,
+  },
+  pbkdf2: { name: 'pbkdf2', hash: 'SHA-256', iterations: 600000 },
+}
+
+// Parameters of data written before headers existed
+const LEGACY_HEADER: CryptoHeader = {
+  version: 1,
+  kdf: { name: 'pbkdf2', hash: 'SHA-256', iterations: 100000 },
+  cipher: 'AES-256-GCM',
+}
+
+// Headers are read before the data is authenticated, so their parameters
+// are bounded to keep a crafted header from exhausting memory or time
+const KDF_LIMITS = {
+  argon2id: { memoryCost: 1024 * 1024, iterations: 16, parallelism: 8 },
+  pbkdf2: { iterations: 10_000_000 },
+}
+
+let currentKdf: KdfName = 'argon2id'
+
+// Selects the KDF for everything encrypted from now on
+export function configureKdf(kdf: KdfName) {
+  currentKdf = kdf
+}
+
+export function currentHeader(): CryptoHeader {
+  return { version: 1, kdf: KDF_PRESETS[currentKdf], cipher: 'AES-256-GCM' }
+}
+
+export function serializeHeader(header: CryptoHeader): string {
+  return JSON.stringify(header)
+}
+
+const isCount = (value: unknown, max: number) =>
+  Number.isInteger(value) && (value as number) >= 1 && (value as number) <= max
+
+function isSupportedKdf(kdf: KdfParams) {
+  if (kdf?.name === 'argon2id') {
+    const limits = KDF_LIMITS.argon2id
+    return (
+      isCount(kdf.memoryCost, limits.memoryCost) &&
+      isCount(kdf.iterations, limits.iterations) &&
+      isCount(kdf.parallelism, limits.parallelism)
+    )
+  }
+  return (
+    kdf?.name === 'pbkdf2' &&
+    kdf.hash === 'SHA-256' &&
+    isCount(kdf.iterations, KDF_LIMITS.pbkdf2.iterations)
+  )
+}
+
+// A missing header means the original fixed PBKDF2 parameters
+export function parseHeader(header?: string): CryptoHeader {
+  if (!header) return LEGACY_HEADER
+  const parsed = JSON.parse(header) as CryptoHeader
+  if (
+    parsed.version !== 1 ||
+    parsed.cipher !== 'AES-256-GCM' ||
+    !isSupportedKdf(parsed.kdf)
+  ) {
+    throw new Error(`Unsupported crypto header: ${header}`)
+  }
+  return parsed
+}
+
+// True when data with this header should be re-encrypted on next unlock
+export function isHeaderOutdated(header?: string) {
+  return (
+    JSON.stringify(parseHeader(header).kdf) !==
+    JSON.stringify(currentHeader().kdf)
+  )
+}
+
 export interface EncryptedData {
   encryptedContent: string // base64
   salt: string // base64
   nonce: string // base64
   authTag: string // base64
+  header?: string // serialized CryptoHeader, absent on legacy data
 }
 
+// Output of the key-based variants, no salt since no password is involved
+export type KeyEncryptedData = Omit<EncryptedData, 'salt' | 'header'>
+
 // Convert ArrayBuffer to base64
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
   const bytes = new Uint8Array(buffer)
   let binary = ''
   for (let i = 0; i < bytes.byteLength; i++) {
@@ -23,7 +128,7 @@ function arrayBufferToBase64(buffer: ArrayBuffer): string {
 }
 
 // Convert base64 to ArrayBuffer
-function base64ToArrayBuffer(base64: string): ArrayBuffer {
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
   const binary = atob(base64)
   const bytes = new Uint8Array(binary.length)
   for (let i = 0; i < binary.length; i++) {
@@ -32,12 +137,41 @@ function base64ToArrayBuffer(base64: string): ArrayBuffer {
   return bytes.buffer
 }
 
-// Derive encryption key from password
-async function deriveKey(
+// Keys derived this session by header and salt, so re-encrypting a note on
+// every autosave does not pay for the KDF again. They are kept no longer
+// than the passwords they come from, see the password cache below.
+const derivedKeys = new Map<
+  string,
+  { password: string; key: CryptoKey; expiresAt: number }
+>()
+
+async function runKdf(
   password: string,
-  salt: Uint8Array
+  salt: Uint8Array,
+  kdf: KdfParams
 ): Promise<CryptoKey> {
   const encoder = new TextEncoder()
+  const safeSalt = new Uint8Array(salt)
+
+  if (kdf.name === 'argon2id') {
+    const raw = await argon2id({
+      password: encoder.encode(password),
+      salt: safeSalt,
+      iterations: kdf.iterations,
+      memorySize: kdf.memoryCost,
+      parallelism: kdf.parallelism,
+      hashLength: AES_KEY_LENGTH / 8,
+      outputType: 'binary',
+    })
+    return crypto.subtle.importKey(
+      'raw',
+      new Uint8Array(raw),
+      { name: 'AES-GCM', length: AES_KEY_LENGTH },
+      false,
+      ['encrypt', 'decrypt']
+    )
+  }
+
   const passwordKey = await crypto.subtle.importKey(
     'raw',
     encoder.encode(password),
@@ -46,14 +180,12 @@ async function deriveKey(
     ['deriveBits', 'deriveKey']
   )
 
-  const safeSalt = new Uint8Array(salt)
-
   return crypto.subtle.deriveKey(
     {
       name: 'PBKDF2',
       salt: safeSalt.buffer,
-      iterations: PBKDF2_ITERATIONS,
-      hash: 'SHA-256',
+      iterations: kdf.iterations,
+      hash: kdf.hash,
     },
     passwordKey,
     { name: 'AES-GCM', length: AES_KEY_LENGTH },
@@ -62,27 +194,75 @@ async function deriveKey(
   )
 }
 
-// Encrypt content with password
+// Derive encryption key from password with the header's KDF
+export async function deriveKey(
+  password: string,
+  salt: Uint8Array,
+  header: CryptoHeader = currentHeader()
+): Promise<CryptoKey> {
+  const cacheKey = `${serializeHeader(header)}:${arrayBufferToBase64(new Uint8Array(salt).buffer)}`
+  const cached = derivedKeys.get(cacheKey)
+  if (cached?.password === password && Date.now() <= cached.expiresAt) {
+    return cached.key
+  }
+
+  const key = await runKdf(password, salt, header.kdf)
+  derivedKeys.set(cacheKey, {
+    password,
+    key,
+    expiresAt: Date.now() + PASSWORD_CACHE_DURATION,
+  })
+  return key
+}
+
+// Encrypt content with password. Passing the salt of the previous
+// encryption reuses its derived key; the nonce is still fresh every time.
 export async function encryptContent(
   content: string,
-  password: string
+  password: string,
+  reuseSalt?: string
 ): Promise<EncryptedData> {
-  const encoder = new TextEncoder()
-  const data = encoder.encode(content)
+  const header = currentHeader()
+  const salt = reuseSalt
+    ? saltFromBase64(reuseSalt)
+    : crypto.getRandomValues(new Uint8Array(SALT_LENGTH))
+  const key = await deriveKey(password, salt, header)
 
-  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH))
-  const nonce = crypto.getRandomValues(new Uint8Array(NONCE_LENGTH))
+  const encrypted = await encryptContentWithKey(content, key)
+  return {
+    ...encrypted,
+    salt: arrayBufferToBase64(new Uint8Array(salt).buffer),
+    header: serializeHeader(header),
+  }
+}
 
-  const key = await deriveKey(password, salt)
+// Decrypt content with password
+export async function decryptContent(
+  encryptedData: EncryptedData,
+  password: string
+): Promise<string> {
+  const salt = new Uint8Array(base64ToArrayBuffer(encryptedData.salt))
+  const key = await deriveKey(password, salt, parseHeader(encryptedData.header))
+
+  try {
+    return await decryptContentWithKey(encryptedData, key)
+  } catch (error) {
+    throw new Error(`Invalid password or corrupted data: ${error}`)
+  }
+}
 
-  // Encrypt data
+// Split AES-GCM output into ciphertext and auth tag
+export async function encryptBytes(
+  data: Uint8Array,
+  key: CryptoKey
+): Promise<KeyEncryptedData> {
+  const nonce = crypto.getRandomValues(new Uint8Array(NONCE_LENGTH))
   const encryptedBuffer = await crypto.subtle.encrypt(
     { name: 'AES-GCM', iv: nonce },
     key,
-    data
+    new Uint8Array(data)
   )
 
-  // AES-GCM includes auth tag in the last 16 bytes
   const encryptedBytes = new Uint8Array(encryptedBuffer)
   const tagLength = 16
   const ciphertext = encryptedBytes.slice(0, encryptedBytes.length - tagLength)
@@ -90,45 +270,199 @@ export async function encryptContent(
 
   return {
     encryptedContent: arrayBufferToBase64(ciphertext.buffer),
-    salt: arrayBufferToBase64(salt.buffer),
     nonce: arrayBufferToBase64(nonce.buffer),
     authTag: arrayBufferToBase64(authTag.buffer),
   }
 }
 
-// Decrypt content with password
-export async function decryptContent(
-  encryptedData: EncryptedData,
-  password: string
-): Promise<string> {
-  const salt = new Uint8Array(base64ToArrayBuffer(encryptedData.salt))
+export async function decryptBytes(
+  encryptedData: KeyEncryptedData,
+  key: CryptoKey
+): Promise<Uint8Array> {
   const nonce = new Uint8Array(base64ToArrayBuffer(encryptedData.nonce))
   const ciphertext = new Uint8Array(
     base64ToArrayBuffer(encryptedData.encryptedContent)
   )
   const authTag = new Uint8Array(base64ToArrayBuffer(encryptedData.authTag))
 
-  // Combine ciphertext and auth tag for AES-GCM
   const encrypted = new Uint8Array(ciphertext.length + authTag.length)
   encrypted.set(ciphertext)
   encrypted.set(authTag, ciphertext.length)
 
-  const key = await deriveKey(password, salt)
-
   try {
     const decrypted = await crypto.subtle.decrypt(
       { name: 'AES-GCM', iv: nonce },
       key,
       encrypted
     )
-
-    const decoder = new TextDecoder()
-    return decoder.decode(decrypted)
+    return new Uint8Array(decrypted)
   } catch (error) {
-    throw new Error(`Invalid password or corrupted data: ${error}`)
+    throw new Error(`Invalid key or corrupted data: ${error}`)
   }
 }
 
+// Random AES key, used as vault data-encryption key and per-note content key
+export async function generateKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey(
+    { name: 'AES-GCM', length: AES_KEY_LENGTH },
+    true,
+    ['encrypt', 'decrypt']
+  )
+}
+
+export function generateSalt(): string {
+  return arrayBufferToBase64(
+    crypto.getRandomValues(new Uint8Array(SALT_LENGTH)).buffer
+  )
+}
+
+export function saltFromBase64(salt: string): Uint8Array {
+  return new Uint8Array(base64ToArrayBuffer(salt))
+}
+
+// Encrypt content with an already derived or generated key
+export async function encryptContentWithKey(
+  content: string,
+  key: CryptoKey
+): Promise<KeyEncryptedData> {
+  return encryptBytes(new TextEncoder().encode(content), key)
+}
+
+// Decrypt content with an already derived or generated key
+export async function decryptContentWithKey(
+  encryptedData: KeyEncryptedData,
+  key: CryptoKey
+): Promise<string> {
+  return new TextDecoder().decode(await decryptBytes(encryptedData, key))
+}
+
+// Encrypt a key with another key, serialized as a single string
+export async function wrapKey(
+  key: CryptoKey,
+  wrappingKey: CryptoKey
+): Promise<string> {
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', key))
+  return JSON.stringify(await encryptBytes(raw, wrappingKey))
+}
+
+export async function unwrapKey(
+  wrapped: string,
+  wrappingKey: CryptoKey
+): Promise<CryptoKey> {
+  const raw = await decryptBytes(
+    JSON.parse(wrapped) as KeyEncryptedData,
+    wrappingKey
+  )
+  return crypto.subtle.importKey(
+    'raw',
+    new Uint8Array(raw),
+    { name: 'AES-GCM', length: AES_KEY_LENGTH },
+    true,
+    ['encrypt', 'decrypt']
+  )
+}
+
+const KEY_PAIR_ALGORITHM: RsaHashedKeyGenParams = {
+  name: 'RSA-OAEP',
+  modulusLength: 2048,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: 'SHA-256',
+}
+
+// Key pair of an account, other accounts wrap note keys for its public key
+export async function generateKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(KEY_PAIR_ALGORITHM, true, [
+    'wrapKey',
+    'unwrapKey',
+  ])
+}
+
+export async function exportPublicKey(key: CryptoKey): Promise<string> {
+  return arrayBufferToBase64(await crypto.subtle.exportKey('spki', key))
+}
+
+export async function importPublicKey(publicKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'spki',
+    base64ToArrayBuffer(publicKey),
+    KEY_PAIR_ALGORITHM,
+    false,
+    ['wrapKey']
+  )
+}
+
+// Encrypt a private key with a symmetric key, serialized as a single string
+export async function wrapPrivateKey(
+  privateKey: CryptoKey,
+  wrappingKey: CryptoKey
+): Promise<string> {
+  const pkcs8 = new Uint8Array(
+    await crypto.subtle.exportKey('pkcs8', privateKey)
+  )
+  return JSON.stringify(await encryptBytes(pkcs8, wrappingKey))
+}
+
+export async function unwrapPrivateKey(
+  wrapped: string,
+  wrappingKey: CryptoKey
+): Promise<CryptoKey> {
+  const pkcs8 = await decryptBytes(
+    JSON.parse(wrapped) as KeyEncryptedData,
+    wrappingKey
+  )
+  return crypto.subtle.importKey(
+    'pkcs8',
+    new Uint8Array(pkcs8),
+    KEY_PAIR_ALGORITHM,
+    false,
+    ['unwrapKey']
+  )
+}
+
+// Encrypt a key for the holder of the matching private key
+export async function wrapKeyForPublicKey(
+  key: CryptoKey,
+  publicKey: CryptoKey
+): Promise<string> {
+  return arrayBufferToBase64(
+    await crypto.subtle.wrapKey('raw', key, publicKey, { name: 'RSA-OAEP' })
+  )
+}
+
+export async function unwrapKeyWithPrivateKey(
+  wrapped: string,
+  privateKey: CryptoKey
+): Promise<CryptoKey> {
+  return crypto.subtle.unwrapKey(
+    'raw',
+    base64ToArrayBuffer(wrapped),
+    privateKey,
+    { name: 'RSA-OAEP' },
+    { name: 'AES-GCM', length: AES_KEY_LENGTH },
+    true,
+    ['encrypt', 'decrypt']
+  )
+}
+
+// Raw key as URL-safe base64, short enough to carry in a link
+export async function exportKeyToString(key: CryptoKey): Promise<string> {
+  return arrayBufferToBase64(await crypto.subtle.exportKey('raw', key))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+export async function importKeyFromString(encoded: string): Promise<CryptoKey> {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/')
+  return crypto.subtle.importKey(
+    'raw',
+    base64ToArrayBuffer(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')),
+    { name: 'AES-GCM', length: AES_KEY_LENGTH },
+    false,
+    ['decrypt']
+  )
+}
+
 // Password cache (in-memory only)
 const PASSWORD_CACHE_DURATION = 30 * 60 * 1000 // 30 minutes
 
@@ -160,9 +494,17 @@ export function getCachedPassword(noteId: string): string | null {
 
 export function clearPasswordCache(noteId?: string) {
   if (noteId) {
+    // Keys derived from the password go with it, even when other notes
+    // share it and have to derive theirs again
+    const cached = passwordCache.get(noteId)
     passwordCache.delete(noteId)
+    if (!cached) return
+    for (const [cacheKey, derived] of derivedKeys) {
+      if (derived.password === cached.password) derivedKeys.delete(cacheKey)
+    }
   } else {
     passwordCache.clear()
+    derivedKeys.clear()
   }
 }
 
@@ -174,4 +516,7 @@ setInterval(() => {
       passwordCache.delete(noteId)
     }
   }
+  for (const [cacheKey, derived] of derivedKeys) {
+    if (now > derived.expiresAt) derivedKeys.delete(cacheKey)
+  }
 }, 60000) // Check every minute
@@ -1,6 +1,16 @@
 import Dexie, { type Table } from 'dexie'
 
-import { createClient } from '@/lib/supabase/client'
+import { extractTags } from '@/lib/tags'
+
+// Tabs share the database but not their React state. Committed writes to
+// these tables are announced on a BroadcastChannel so other tabs reload.
+const TAB_CHANNEL = 'notes-db-changes'
+const SHARED_TABLES = new Set(['notes', 'folders', 'vaults'])
+
+export type SyncStatus = 'synced' | 'pending' | 'failed' | 'conflict'
+
+// What another account may do with a note shared with it
+export type ShareRole = 'viewer' | 'editor'
 
 export interface Note {
   id: string
@@ -10,98 +20,693 @@ export interface Note {
   updatedAt: number
   userId?: string
   deleted?: boolean
+  // When the note was moved to the trash
+  deletedAt?: number
+  // Containing folder, unset for notes at the top level
+  folderId?: string | null
+  // `#tags` found in the content, filled in by saveNote. Always empty for
+  // encrypted notes, whose tags are sealed in the envelope.
+  tags?: string[]
+  // Server revision this copy is based on, bumped on every accepted write
+  revision?: number
+  // Local-only sync state (never sent to Supabase)
+  syncStatus?: SyncStatus
+  // Last synced title/content, the common ancestor for three-way merges
+  baseTitle?: string
+  baseContent?: string
   // Encryption fields (nullable - only set if encrypted)
   encryptedContent?: string
   salt?: string
   nonce?: string
   authTag?: string
+  // Content key wrapped with the vault key (vault-encrypted notes only)
+  wrappedKey?: string
+  // KDF and cipher parameters of password-encrypted notes, see CryptoHeader
+  cryptoHeader?: string
+  // Layout of the encrypted payload: 1 (or unset) is content only with a
+  // plaintext title, 2 seals title and content together
+  envelopeVersion?: number
+  // Set while the note is collaborative: its content is edited through the
+  // shared CRDT document with this id, see lib/collab.ts, and `content`
+  // holds the latest snapshot of it. Every opt-in starts a new document.
+  collabDocId?: string | null
+  // Set on notes another account shared with this one. `userId` is still
+  // the account holding this copy, the note itself belongs to `ownerId`.
+  ownerId?: string
+  ownerEmail?: string
+  sharedRole?: ShareRole
+  // Content key of a shared vault note, wrapped for this account's key
+  // pair since the owner's vault cannot be opened here
+  sharedKey?: string
+}
+
+// Folders nest through `parentId`. Names are not encrypted, so the folder
+// of an encrypted note is visible even while it is locked.
+export interface Folder {
+  id: string
+  name: string
+  parentId: string | null
+  userId?: string
+  createdAt: number
+  updatedAt: number
+  // Kept until the deletion has been synced
+  deleted?: boolean
+  syncStatus?: SyncStatus
+}
+
+// Master-passphrase vault: a random data-encryption key, wrapped with a key
+// derived from the passphrase. One per account, or 'local' when signed out.
+export interface VaultRecord {
+  id: string
+  userId?: string
+  salt: string
+  wrappedKey: string
+  cryptoHeader?: string
+  // Key pair for receiving shared notes, the private key wrapped with the
+  // same data-encryption key as the notes
+  publicKey?: string
+  wrappedPrivateKey?: string
+  createdAt: number
+  updatedAt: number
+  syncStatus?: SyncStatus
+}
+
+// Snapshot of a note's title and content. Revisions of encrypted notes
+// carry the same envelope fields as the note and an empty `content` (and
+// an empty `title` from envelope version 2 on).
+export interface NoteRevision {
+  id: string
+  noteId: string
+  userId?: string
+  title: string
+  content: string
+  createdAt: number
+  encryptedContent?: string
+  salt?: string
+  nonce?: string
+  authTag?: string
+  wrappedKey?: string
+  cryptoHeader?: string
+  envelopeVersion?: number
+}
+
+// Pending remote mutation, replayed in order by the sync engine
+export interface OutboxEntry {
+  id?: number
+  noteId: string
+  userId: string
+  op: 'upsert' | 'delete' | 'revision'
+  // Set for 'revision' entries
+  revisionId?: string
+  createdAt: number
+  attempts: number
+  lastError?: string
+}
+
+// Remote version that could not be merged automatically
+export interface NoteConflict {
+  noteId: string
+  remote: Note
+  detectedAt: number
+}
+
+// Inverted index entry: occurrences of `term` in one note. Only plaintext
+// notes are indexed; unlocked encrypted notes are searched in memory.
+export interface SearchTerm {
+  noteId: string
+  term: string
+  titleCount: number
+  contentCount: number
+}
+
+// Version of a note the search index was built from
+export interface SearchDoc {
+  noteId: string
+  updatedAt: number
+  length: number
+}
+
+// Yjs update of a collaborative note, kept so the document opens offline.
+// Compacted into a single update from time to time.
+export interface CollabUpdate {
+  id?: number
+  noteId: string
+  docId: string
+  update: Uint8Array
+  createdAt: number
+}
+
+// File attached to a note, referenced from its markdown through an
+// `attachment:` URL, see lib/attachments.ts. Attachments of encrypted notes
+// hold ciphertext, their key is part of the reference inside the envelope.
+export interface Attachment {
+  id: string
+  noteId: string
+  // Who uploaded it, the account itself unless it came with a shared note
+  userId?: string
+  name: string
+  type: string
+  size: number
+  data: Blob
+  nonce?: string
+  authTag?: string
+  createdAt: number
+  // Kept until the deletion has been synced
+  deleted?: boolean
+  syncStatus?: SyncStatus
+}
+
+export interface MetaEntry {
+  key: string
+  value: unknown
+}
+
+export interface SettingEntry {
+  key: string
+  value: unknown
 }
 
 class NotesDatabase extends Dexie {
   notes!: Table<Note>
+  outbox!: Table<OutboxEntry, number>
+  meta!: Table<MetaEntry>
+  conflicts!: Table<NoteConflict>
+  settings!: Table<SettingEntry>
+  revisions!: Table<NoteRevision>
+  vaults!: Table<VaultRecord>
+  searchTerms!: Table<SearchTerm, [string, string]>
+  searchDocs!: Table<SearchDoc>
+  folders!: Table<Folder>
+  collabUpdates!: Table<CollabUpdate, number>
+  attachments!: Table<Attachment>
+
+  private changeListeners = new Set<() => void>()
+  private tabListeners = new Set<() => void>()
+  private tabChannel: BroadcastChannel | null = null
+  private announceTimer: ReturnType<typeof setTimeout> | null = null
 
   constructor() {
     super('NotesDB')
     this.version(2).stores({
       notes: 'id, userId, updatedAt, deleted',
     })
+    this.version(3)
+      .stores({
+        notes: 'id, userId, updatedAt, deleted, syncStatus',
+        outbox: '++id, noteId, userId',
+        meta: 'key',
+      })
+      .upgrade(async (tx) => {
+        // Notes written before the outbox existed already went through a
+        // successful upsert, so they start out in sync.
+        await tx
+          .table('notes')
+          .toCollection()
+          .modify((note: Note) => {
+            if (note.userId) note.syncStatus = 'synced'
+          })
+      })
+    this.version(4).stores({
+      conflicts: 'noteId',
+    })
+    this.version(5).stores({
+      notes: 'id, userId, updatedAt, deleted, deletedAt, syncStatus',
+      settings: 'key',
+    })
+    this.version(6).stores({
+      revisions: 'id, noteId, createdAt, [noteId+createdAt]',
+    })
+    this.version(7).stores({
+      vaults: 'id, userId',
+    })
+    this.version(8).stores({
+      searchTerms: '[noteId+term], term, noteId',
+      searchDocs: 'noteId',
+    })
+    this.version(9)
+      .stores({
+        notes:
+          'id, userId, updatedAt, deleted, deletedAt, syncStatus, folderId, *tags',
+        folders: 'id, userId, parentId',
+      })
+      .upgrade(async (tx) => {
+        // Every existing note starts at the top level with the tags its
+        // content already mentions
+        await tx
+          .table('notes')
+          .toCollection()
+          .modify((note: Note) => {
+            note.folderId = null
+            note.tags = note.encryptedContent ? [] : extractTags(note.content)
+          })
+      })
+    this.version(10).stores({
+      collabUpdates: '++id, noteId, docId',
+    })
+    this.version(11).stores({
+      attachments: 'id, noteId, userId, syncStatus',
+    })
+
+    // Catches every write, including the bulk ones made while syncing
+    this.use({
+      stack: 'dbcore',
+      name: 'tabChannel',
+      create: (down) => ({
+        ...down,
+        table: (name) => {
+          const table = down.table(name)
+          if (!SHARED_TABLES.has(name)) return table
+          return {
+            ...table,
+            mutate: async (req) => {
+              const result = await table.mutate(req)
+              // Dexie runs on IndexedDB, whose transaction this is. Other
+              // tabs must not read before it has committed.
+              const trans = req.trans as unknown as IDBTransaction
+              trans.addEventListener('complete', () => this.announceChange(), {
+                once: true,
+              })
+              return result
+            },
+          }
+        },
+      }),
+    })
   }
 
   async init() {
     await this.open()
   }
 
-  async getAllNotes(userId?: string): Promise<Note[]> {
-    if (userId) {
-      const supabase = createClient()
-      const { data: notes } = await supabase
-        .from('notes')
-        .select('*')
-        .eq('user_id', userId)
-        .order('updated_at', { ascending: false })
-
-      if (notes?.length) {
-        const formatted = notes.map((n) => ({
-          id: n.id,
-          title: n.title,
-          content: n.content,
-          createdAt: new Date(n.created_at).getTime(),
-          updatedAt: new Date(n.updated_at).getTime(),
-          userId: n.user_id,
-          encryptedContent: n.encrypted_content,
-          salt: n.salt,
-          nonce: n.nonce,
-          authTag: n.auth_tag,
-        }))
-        await this.notes.bulkPut(formatted)
-        return formatted
+  // Notified after every local write that queued a remote mutation
+  onLocalChange(listener: () => void) {
+    this.changeListeners.add(listener)
+    return () => {
+      this.changeListeners.delete(listener)
+    }
+  }
+
+  private emitLocalChange() {
+    for (const listener of this.changeListeners) listener()
+  }
+
+  // Notified after another tab changed notes, folders or the vault
+  onOtherTabChange(listener: () => void) {
+    this.tabListeners.add(listener)
+    this.getTabChannel()
+    return () => {
+      this.tabListeners.delete(listener)
+    }
+  }
+
+  private getTabChannel() {
+    if (typeof window === 'undefined' || !('BroadcastChannel' in window)) {
+      return null
+    }
+    if (!this.tabChannel) {
+      this.tabChannel = new BroadcastChannel(TAB_CHANNEL)
+      this.tabChannel.onmessage = () => {
+        for (const listener of this.tabListeners) listener()
       }
-      return []
     }
+    return this.tabChannel
+  }
 
+  // Writes come in bursts, one message covers a whole burst
+  private announceChange() {
+    if (this.announceTimer) return
+    this.announceTimer = setTimeout(() => {
+      this.announceTimer = null
+      this.getTabChannel()?.postMessage({ type: 'changed' })
+    }, 0)
+  }
+
+  // Notes of the account and the ones shared with it, which are marked by
+  // `ownerId` and `sharedRole`
+  async getAllNotes(userId?: string): Promise<Note[]> {
     return this.notes
-      .filter((note) => !note.deleted)
+      .filter((note) => !note.deleted && (!userId || note.userId === userId))
       .reverse()
       .sortBy('updatedAt')
   }
 
-  async saveNote(note: Note) {
-    if (note.userId) {
-      const supabase = createClient()
-      const { error } = await supabase.from('notes').upsert({
-        id: note.id,
-        user_id: note.userId,
-        title: note.title,
-        content: note.content,
-        created_at: new Date(note.createdAt).toISOString(),
-        updated_at: new Date(note.updatedAt).toISOString(),
-        encrypted_content: note.encryptedContent || null,
-        salt: note.salt || null,
-        nonce: note.nonce || null,
-        auth_tag: note.authTag || null,
-      })
-      if (error) throw error
+  async getDeletedNotes(userId?: string): Promise<Note[]> {
+    return this.notes
+      .filter((note) => !!note.deleted && (!userId || note.userId === userId))
+      .reverse()
+      .sortBy('deletedAt')
+  }
+
+  // Returns the note as stored, with its tags extracted from the content
+  async saveNote(input: Note): Promise<Note> {
+    const note: Note = {
+      ...input,
+      tags: input.encryptedContent ? [] : extractTags(input.content),
+    }
+    if (!note.userId) {
+      await this.notes.put(note)
+      return note
+    }
+
+    await this.transaction(
+      'rw',
+      [this.notes, this.outbox, this.conflicts],
+      async () => {
+        // Sync metadata is owned by the sync engine, callers may hold a
+        // stale copy of it.
+        const stored = await this.notes.get(note.id)
+        const conflict = await this.conflicts.get(note.id)
+        await this.notes.put({
+          ...note,
+          revision: stored?.revision,
+          baseTitle: stored?.baseTitle,
+          baseContent: stored?.baseContent,
+          syncStatus: conflict ? 'conflict' : 'pending',
+        })
+
+        // The sync engine always pushes the latest local state, so one queued
+        // upsert per note is enough.
+        const queued = await this.outbox
+          .where('noteId')
+          .equals(note.id)
+          .filter((entry) => entry.op === 'upsert')
+          .count()
+        if (!queued) await this.enqueue(note.id, note.userId!, 'upsert')
+      }
+    )
+    this.emitLocalChange()
+    return note
+  }
+
+  private async enqueue(
+    noteId: string,
+    userId: string,
+    op: OutboxEntry['op'],
+    revisionId?: string
+  ) {
+    await this.outbox.add({
+      noteId,
+      userId,
+      op,
+      revisionId,
+      createdAt: Date.now(),
+      attempts: 0,
+    })
+  }
+
+  async moveToTrash(id: string) {
+    const note = await this.notes.get(id)
+    if (!note) return
+    const now = Date.now()
+    await this.saveNote({
+      ...note,
+      deleted: true,
+      deletedAt: now,
+      updatedAt: now,
+    })
+  }
+
+  async restoreNote(id: string) {
+    const note = await this.notes.get(id)
+    if (!note) return
+    await this.saveNote({
+      ...note,
+      deleted: false,
+      deletedAt: undefined,
+      updatedAt: Date.now(),
+    })
+  }
+
+  // Permanently deletes notes that have been in the trash for longer than
+  // the retention period. Runs locally, the outbox propagates it later.
+  async purgeTrash(retentionDays: number, userId?: string) {
+    if (retentionDays <= 0) return 0
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000
+    const expired = await this.notes
+      .where('deletedAt')
+      .below(cutoff)
+      .filter((note) => !!note.deleted && (!userId || note.userId === userId))
+      .toArray()
+    for (const note of expired) {
+      await this.deleteNote(note.id, note.userId)
     }
-    await this.notes.put(note)
+    return expired.length
   }
 
+  // Permanent deletion, use moveToTrash for the recoverable kind
   async deleteNote(id: string, userId?: string) {
-    if (userId) {
-      const supabase = createClient()
-      await supabase.from('notes').delete().eq('id', id)
+    if (!userId) {
+      await this.notes.delete(id)
+      await this.collabUpdates.where('noteId').equals(id).delete()
+      return
     }
-    await this.notes.delete(id)
+
+    await this.transaction(
+      'rw',
+      [
+        this.notes,
+        this.outbox,
+        this.conflicts,
+        this.revisions,
+        this.collabUpdates,
+      ],
+      async () => {
+        await this.notes.delete(id)
+        await this.conflicts.delete(id)
+        await this.revisions.where('noteId').equals(id).delete()
+        await this.collabUpdates.where('noteId').equals(id).delete()
+        await this.outbox.where('noteId').equals(id).delete()
+        await this.enqueue(id, userId, 'delete')
+      }
+    )
+    this.emitLocalChange()
+  }
+
+  // Drops the local copy of a note shared with this account, without
+  // queueing a remote deletion
+  async forgetNote(id: string) {
+    await this.transaction(
+      'rw',
+      [
+        this.notes,
+        this.outbox,
+        this.conflicts,
+        this.revisions,
+        this.collabUpdates,
+      ],
+      async () => {
+        await this.notes.delete(id)
+        await this.conflicts.delete(id)
+        await this.revisions.where('noteId').equals(id).delete()
+        await this.collabUpdates.where('noteId').equals(id).delete()
+        await this.outbox.where('noteId').equals(id).delete()
+      }
+    )
+  }
+
+  async getCollabUpdates(docId: string) {
+    return (await this.collabUpdates.where('docId').equals(docId).toArray())
+      .sort((a, b) => a.id! - b.id!)
+      .map((entry) => entry.update)
+  }
+
+  async addCollabUpdate(noteId: string, docId: string, update: Uint8Array) {
+    await this.collabUpdates.add({
+      noteId,
+      docId,
+      update,
+      createdAt: Date.now(),
+    })
+  }
+
+  // Swaps the stored updates of a document for one that contains them all
+  async compactCollabUpdates(
+    noteId: string,
+    docId: string,
+    merged: Uint8Array
+  ) {
+    await this.transaction('rw', this.collabUpdates, async () => {
+      await this.collabUpdates.where('docId').equals(docId).delete()
+      await this.collabUpdates.add({
+        noteId,
+        docId,
+        update: merged,
+        createdAt: Date.now(),
+      })
+    })
+  }
+
+  // Documents of a note that is no longer collaborative
+  async clearCollabUpdates(noteId: string) {
+    await this.collabUpdates.where('noteId').equals(noteId).delete()
+  }
+
+  async getConflict(noteId: string) {
+    return this.conflicts.get(noteId)
+  }
+
+  // Settles a conflict with `resolved`, or by accepting the remote version
+  // when no resolution is given.
+  async resolveConflict(noteId: string, resolved?: Note) {
+    await this.transaction(
+      'rw',
+      [this.notes, this.outbox, this.conflicts],
+      async () => {
+        const conflict = await this.conflicts.get(noteId)
+        if (!conflict) return
+        const { remote } = conflict
+        await this.conflicts.delete(noteId)
+
+        if (!resolved) {
+          await this.outbox.where('noteId').equals(noteId).delete()
+          await this.notes.put({ ...remote, syncStatus: 'synced' })
+          return
+        }
+
+        await this.notes.put({
+          ...resolved,
+          revision: remote.revision,
+          baseTitle: remote.baseTitle,
+          baseContent: remote.baseContent,
+          syncStatus: 'pending',
+        })
+        const queued = await this.outbox
+          .where('noteId')
+          .equals(noteId)
+          .filter((entry) => entry.op === 'upsert')
+          .count()
+        if (!queued) await this.enqueue(noteId, remote.userId!, 'upsert')
+      }
+    )
+    this.emitLocalChange()
+  }
+
+  // Newest first
+  async getRevisions(noteId: string): Promise<NoteRevision[]> {
+    return this.revisions
+      .where('[noteId+createdAt]')
+      .between([noteId, Dexie.minKey], [noteId, Dexie.maxKey])
+      .reverse()
+      .toArray()
+  }
+
+  async saveRevision(revision: NoteRevision) {
+    if (!revision.userId) {
+      await this.revisions.put(revision)
+      return
+    }
+
+    await this.transaction('rw', this.revisions, this.outbox, async () => {
+      await this.revisions.put(revision)
+      await this.enqueue(
+        revision.noteId,
+        revision.userId!,
+        'revision',
+        revision.id
+      )
+    })
+    this.emitLocalChange()
   }
 
   async migrateAnonymousNotes(userId: string) {
+    const anonFolders = await this.folders
+      .filter((f) => !f.userId && !f.deleted)
+      .toArray()
+    for (const folder of anonFolders) {
+      await this.saveFolder({ ...folder, userId })
+    }
+
     const anonNotes = await this.notes
       .filter((n) => !n.userId && !n.deleted)
       .toArray()
     for (const note of anonNotes) {
       note.userId = userId
       await this.saveNote(note)
+
+      const revisions = await this.revisions
+        .where('noteId')
+        .equals(note.id)
+        .filter((r) => !r.userId)
+        .toArray()
+      for (const revision of revisions) {
+        await this.saveRevision({ ...revision, userId })
+      }
+
+      const attachments = await this.attachments
+        .where('noteId')
+        .equals(note.id)
+        .filter((a) => !a.userId)
+        .toArray()
+      for (const attachment of attachments) {
+        await this.saveAttachment({ ...attachment, userId })
+      }
     }
   }
+
+  async getFolders(userId?: string): Promise<Folder[]> {
+    return this.folders
+      .filter(
+        (folder) => !folder.deleted && (!userId || folder.userId === userId)
+      )
+      .sortBy('name')
+  }
+
+  async saveFolder(folder: Folder) {
+    await this.folders.put({
+      ...folder,
+      updatedAt: Date.now(),
+      syncStatus: folder.userId ? 'pending' : undefined,
+    })
+    if (folder.userId) this.emitLocalChange()
+  }
+
+  // Subfolders and notes move up to the parent of the deleted folder
+  async deleteFolder(id: string) {
+    const folder = await this.folders.get(id)
+    if (!folder) return
+
+    await this.transaction(
+      'rw',
+      [this.notes, this.outbox, this.conflicts, this.folders],
+      async () => {
+        const children = await this.folders
+          .where('parentId')
+          .equals(id)
+          .toArray()
+        for (const child of children) {
+          await this.saveFolder({ ...child, parentId: folder.parentId })
+        }
+
+        const notes = await this.notes.where('folderId').equals(id).toArray()
+        for (const note of notes) {
+          await this.saveNote({ ...note, folderId: folder.parentId })
+        }
+
+        if (folder.userId) {
+          await this.saveFolder({ ...folder, deleted: true })
+        } else {
+          await this.folders.delete(id)
+        }
+      }
+    )
+  }
+
+  async saveAttachment(attachment: Attachment) {
+    await this.attachments.put({
+      ...attachment,
+      syncStatus: attachment.userId ? 'pending' : undefined,
+    })
+    if (attachment.userId) this.emitLocalChange()
+  }
+
+  async getMeta<T>(key: string): Promise<T | undefined> {
+    const entry = await this.meta.get(key)
+    return entry?.value as T | undefined
+  }
+
+  async setMeta(key: string, value: unknown) {
+    await this.meta.put({ key, value })
+  }
 }
 
 export const notesDB = new NotesDatabase()
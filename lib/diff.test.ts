@@ -0,0 +1,88 @@
+import { expect, test } from 'bun:test'
+
+import { diffLines, merge3 } from '@/lib/diff'
+
+const lines = (...text: string[]) => text.join('\n')
+
+test('diffs lines into kept, removed and added ones', () => {
+  expect(diffLines(lines('a', 'b', 'c'), lines('a', 'x', 'c', 'd'))).toEqual([
+    { op: 'equal', line: 'a' },
+    { op: 'delete', line: 'b' },
+    { op: 'insert', line: 'x' },
+    { op: 'equal', line: 'c' },
+    { op: 'insert', line: 'd' },
+  ])
+  expect(diffLines('', 'a')).toEqual([{ op: 'insert', line: 'a' }])
+  expect(diffLines('a', '')).toEqual([{ op: 'delete', line: 'a' }])
+  expect(diffLines('', '')).toEqual([])
+})
+
+test('finds a shortest diff of long texts', () => {
+  const a = Array.from({ length: 2000 }, (_, i) => `line ${i}`)
+  const b = a.filter((_, i) => i % 10 !== 0).concat('end')
+  const diff = diffLines(a.join('\n'), b.join('\n'))
+
+  expect(diff.filter((line) => line.op === 'delete')).toHaveLength(200)
+  expect(diff.filter((line) => line.op === 'insert')).toEqual([
+    { op: 'insert', line: 'end' },
+  ])
+  expect(
+    diff.filter((line) => line.op !== 'delete').map((line) => line.line)
+  ).toEqual(b)
+})
+
+test('merges edits to different lines', () => {
+  expect(
+    merge3(lines('a', 'b', 'c'), lines('A', 'b', 'c'), lines('a', 'b', 'C'))
+  ).toEqual({ clean: true, content: lines('A', 'b', 'C') })
+})
+
+test('takes the same edit on both sides once', () => {
+  expect(merge3(lines('a', 'b'), lines('a', 'B'), lines('a', 'B'))).toEqual({
+    clean: true,
+    content: lines('a', 'B'),
+  })
+})
+
+test('marks overlapping edits as a conflict', () => {
+  expect(
+    merge3(lines('a', 'b', 'c'), lines('a', 'x', 'c'), lines('a', 'y', 'c'))
+  ).toEqual({
+    clean: false,
+    content: lines(
+      'a',
+      '<<<<<<< local',
+      'x',
+      '=======',
+      'y',
+      '>>>>>>> remote',
+      'c'
+    ),
+  })
+})
+
+test('marks different inserts at the same point as a conflict', () => {
+  const merged = merge3(
+    lines('a', 'b'),
+    lines('a', 'local', 'b'),
+    lines('a', 'remote', 'b')
+  )
+  expect(merged.clean).toBe(false)
+  expect(merged.content).toBe(
+    lines(
+      'a',
+      '<<<<<<< local',
+      'local',
+      '=======',
+      'remote',
+      '>>>>>>> remote',
+      'b'
+    )
+  )
+})
+
+test('merges texts written from an empty base', () => {
+  expect(merge3('', 'a', '')).toEqual({ clean: true, content: 'a' })
+  expect(merge3('', '', 'b')).toEqual({ clean: true, content: 'b' })
+  expect(merge3('', 'a', 'b').clean).toBe(false)
+})
@@ -0,0 +1,190 @@
+// Line-based diff (Myers) and three-way merge for markdown content
+
+export type DiffOp = 'equal' | 'insert' | 'delete'
+
+export interface DiffLine {
+  op: DiffOp
+  line: string
+}
+
+export interface MergeResult {
+  clean: boolean
+  // Merged text; unresolved hunks are wrapped in git-style conflict markers
+  content: string
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n')
+}
+
+// Index pairs [aIndex, bIndex] of lines common to both inputs, in order
+function matchLines(a: string[], b: string[]): [number, number][] {
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++
+  }
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const pairs: [number, number][] = []
+  for (let i = 0; i < start; i++) pairs.push([i, i])
+
+  const n = endA - start
+  const m = endB - start
+  const max = n + m
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 2)
+  // The diagonals -d..d of `v` before each step d, all the walk back reads.
+  // Keeping only those bounds the trace by D² instead of (N+M)·D.
+  const trace: Int32Array[] = []
+
+  let found = max === 0
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1))
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[start + x] === b[start + y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        found = true
+        break
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the diagonal (matching) moves
+  const middle: [number, number][] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d >= 0; d--) {
+    // Diagonal k of step d is at k + d
+    const prev = trace[d]
+    const k = x - y
+    const prevK =
+      k === -d || (k !== d && prev[k - 1 + d] < prev[k + 1 + d]) ? k + 1 : k - 1
+    const prevX = d === 0 ? 0 : prev[prevK + d]
+    const prevY = d === 0 ? 0 : prevX - prevK
+    while (x > prevX && y > prevY) {
+      middle.push([start + x - 1, start + y - 1])
+      x--
+      y--
+    }
+    x = prevX
+    y = prevY
+  }
+  pairs.push(...middle.reverse())
+
+  for (let i = 0; endA + i < a.length; i++) pairs.push([endA + i, endB + i])
+  return pairs
+}
+
+export function diffLines(a: string, b: string): DiffLine[] {
+  const linesA = splitLines(a)
+  const linesB = splitLines(b)
+  const result: DiffLine[] = []
+
+  let i = 0
+  let j = 0
+  for (const [matchA, matchB] of [
+    ...matchLines(linesA, linesB),
+    [linesA.length, linesB.length] as [number, number],
+  ]) {
+    while (i < matchA) result.push({ op: 'delete', line: linesA[i++] })
+    while (j < matchB) result.push({ op: 'insert', line: linesB[j++] })
+    if (i < linesA.length && j < linesB.length) {
+      result.push({ op: 'equal', line: linesA[i] })
+    }
+    i++
+    j++
+  }
+  return result
+}
+
+function sameLines(a: string[], b: string[]) {
+  return a.length === b.length && a.every((line, i) => line === b[i])
+}
+
+// Three-way merge of `local` and `remote`, both derived from `base`
+export function merge3(
+  base: string,
+  local: string,
+  remote: string
+): MergeResult {
+  const o = splitLines(base)
+  const a = splitLines(local)
+  const b = splitLines(remote)
+
+  const toA = new Map(matchLines(o, a))
+  const toB = new Map(matchLines(o, b))
+
+  const merged: string[] = []
+  let clean = true
+
+  const emitHunk = (
+    baseLines: string[],
+    localLines: string[],
+    remoteLines: string[]
+  ) => {
+    if (sameLines(localLines, baseLines)) {
+      merged.push(...remoteLines)
+    } else if (
+      sameLines(remoteLines, baseLines) ||
+      sameLines(localLines, remoteLines)
+    ) {
+      merged.push(...localLines)
+    } else {
+      clean = false
+      merged.push(
+        '<<<<<<< local',
+        ...localLines,
+        '=======',
+        ...remoteLines,
+        '>>>>>>> remote'
+      )
+    }
+  }
+
+  let io = 0
+  let ia = 0
+  let ib = 0
+  while (true) {
+    // Next base line that survived unchanged on both sides
+    let stable = io
+    while (stable < o.length && !(toA.has(stable) && toB.has(stable))) {
+      stable++
+    }
+
+    if (stable >= o.length) {
+      emitHunk(o.slice(io), a.slice(ia), b.slice(ib))
+      break
+    }
+
+    const sa = toA.get(stable)!
+    const sb = toB.get(stable)!
+    if (stable === io && sa === ia && sb === ib) {
+      merged.push(o[io])
+      io++
+      ia++
+      ib++
+      continue
+    }
+
+    emitHunk(o.slice(io, stable), a.slice(ia, sa), b.slice(ib, sb))
+    io = stable
+    ia = sa
+    ib = sb
+  }
+
+  return { clean, content: merged.join('\n') }
+}
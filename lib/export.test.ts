@@ -0,0 +1,76 @@
+import { expect, test } from 'bun:test'
+import { strFromU8, unzipSync } from 'fflate'
+
+import type { Attachment, Folder, Note } from '@/lib/db'
+import { createBackup } from '@/lib/export'
+
+const now = Date.now()
+
+function note(fields: Partial<Note>): Note {
+  return {
+    id: crypto.randomUUID(),
+    title: 'Title',
+    content: '',
+    createdAt: now,
+    updatedAt: now,
+    ...fields,
+  }
+}
+
+function attachment(fields: Partial<Attachment>): Attachment {
+  return {
+    id: crypto.randomUUID(),
+    noteId: '',
+    name: 'file.txt',
+    type: 'text/plain',
+    size: 5,
+    data: new Blob(['bytes']),
+    createdAt: now,
+    ...fields,
+  }
+}
+
+test('writes attachments next to the notes that link to them', async () => {
+  const folder: Folder = {
+    id: crypto.randomUUID(),
+    name: 'Folder',
+    parentId: null,
+    createdAt: now,
+    updatedAt: now,
+  }
+  const image = attachment({ name: 'my image.png', type: 'image/png' })
+  const plain = note({
+    title: 'Plain',
+    folderId: folder.id,
+    content: `![my image](attachment:${image.id})`,
+  })
+  image.noteId = plain.id
+
+  const sealed = note({
+    title: 'Sealed',
+    encryptedContent: 'cipher',
+    salt: 'salt',
+    nonce: 'nonce',
+    authTag: 'tag',
+  })
+  const secret = attachment({
+    noteId: sealed.id,
+    nonce: 'attachment nonce',
+    authTag: 'attachment tag',
+  })
+
+  const zip = await createBackup([plain, sealed], [folder], [image, secret])
+  const files = unzipSync(new Uint8Array(await zip.arrayBuffer()))
+
+  expect(strFromU8(files['Folder/Plain.md'])).toContain(
+    `![my image](../attachments/${image.id}/my%20image.png)`
+  )
+  expect(strFromU8(files[`attachments/${image.id}/my image.png`])).toBe('bytes')
+  expect(
+    JSON.parse(strFromU8(files[`attachments/${secret.id}.json`]))
+  ).toMatchObject({
+    noteId: sealed.id,
+    encryptedContent: btoa('bytes'),
+    nonce: 'attachment nonce',
+  })
+})
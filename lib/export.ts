@@ -0,0 +1,319 @@
+import { strToU8, zipSync } from 'fflate'
+import rehypeStringify from 'rehype-stringify'
+import { remark } from 'remark'
+import remarkGfm from 'remark-gfm'
+import remarkRehype from 'remark-rehype'
+
+import {
+  blobToBase64,
+  openAttachment,
+  replaceAttachmentReferences,
+} from '@/lib/attachments'
+import type { Attachment, Folder, Note } from '@/lib/db'
+import { serializeFrontMatter } from '@/lib/front-matter'
+import type { NotePayload } from '@/lib/note-crypto'
+import { extractTags } from '@/lib/tags'
+import { unlinkWikiLinks } from '@/lib/wiki-links'
+
+export const ENCRYPTED_NOTE_FORMAT = 'mcx-notes-encrypted-note'
+
+// Portable file for a single encrypted note. Only the opaque envelope is
+// included, so it can be produced without knowing the password.
+export interface EncryptedNoteExport {
+  format: typeof ENCRYPTED_NOTE_FORMAT
+  version: 1
+  id: string
+  title: string
+  createdAt: number
+  updatedAt: number
+  encryptedContent: string
+  salt?: string
+  nonce: string
+  authTag: string
+  // Content key wrapped with the vault key, for notes encrypted in a vault
+  wrappedKey?: string
+  // KDF parameters for password-encrypted notes, absent on older notes
+  cryptoHeader?: string
+  // From version 2 on the title is sealed in the envelope and left empty
+  envelopeVersion?: number
+}
+
+function encryptedNoteData(note: Note): EncryptedNoteExport {
+  return {
+    format: ENCRYPTED_NOTE_FORMAT,
+    version: 1,
+    id: note.id,
+    title: note.title,
+    createdAt: note.createdAt,
+    updatedAt: note.updatedAt,
+    encryptedContent: note.encryptedContent!,
+    salt: note.salt,
+    nonce: note.nonce!,
+    authTag: note.authTag!,
+    wrappedKey: note.wrappedKey,
+    cryptoHeader: note.cryptoHeader,
+    envelopeVersion: note.envelopeVersion,
+  }
+}
+
+export const ENCRYPTED_ATTACHMENT_FORMAT = 'mcx-notes-encrypted-attachment'
+
+// Attachment of a note that stays encrypted, readable with the key sealed
+// in the reference of the note
+export interface EncryptedAttachmentExport {
+  format: typeof ENCRYPTED_ATTACHMENT_FORMAT
+  version: 1
+  id: string
+  noteId: string
+  name: string
+  type: string
+  size: number
+  encryptedContent: string
+  nonce: string
+  authTag: string
+}
+
+export function exportEncryptedNote(note: Note): Blob {
+  return new Blob([JSON.stringify(encryptedNoteData(note), null, 2)], {
+    type: 'application/json',
+  })
+}
+
+type ExportableNote = NotePayload & Pick<Note, 'createdAt' | 'updatedAt'>
+
+// Markdown with the title, dates and tags as front-matter, the same
+// layout the importer reads back
+export function noteToMarkdown(note: ExportableNote) {
+  const tags = note.tags?.length ? note.tags : extractTags(note.content)
+  return (
+    serializeFrontMatter({
+      title: note.title,
+      created: new Date(note.createdAt).toISOString(),
+      updated: new Date(note.updatedAt).toISOString(),
+      ...(tags.length > 0 && { tags }),
+    }) + note.content
+  )
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Self-contained styles, so exported pages look the same anywhere
+const HTML_STYLES = `
+body { max-width: 48rem; margin: 2rem auto; padding: 0 1.5rem; font: 16px/1.75 system-ui, sans-serif; color: #1f2937; }
+h1, h2 { border-bottom: 1px solid #e5e7eb; padding-bottom: .3em; }
+a { color: #2563eb; }
+code { background: #f3f4f6; padding: .1em .35em; border-radius: 4px; font-size: .9em; }
+pre { background: #f3f4f6; padding: 1rem; border-radius: 8px; overflow-x: auto; }
+pre code { padding: 0; background: none; }
+blockquote { margin: 1rem 0; padding: .25rem 1rem; border-left: 4px solid #d1d5db; color: #4b5563; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #d1d5db; padding: .5rem .75rem; text-align: left; }
+img { max-width: 100%; }
+li:has(> input[type='checkbox']) { list-style: none; }
+@media print {
+  body { max-width: none; margin: 0; padding: 0; font-size: 11pt; color: #000; }
+  a { color: inherit; }
+  pre, blockquote, table, img { break-inside: avoid; }
+  h1, h2, h3, h4 { break-after: avoid; }
+  @page { margin: 2cm; }
+}
+`
+
+// Standalone HTML page, rendered with the same remark-gfm pipeline as the
+// formatter. Raw HTML in the note is dropped, not passed through.
+export async function noteToHtml(note: NotePayload) {
+  const body = await remark()
+    .use(remarkGfm)
+    .use(remarkRehype)
+    .use(rehypeStringify)
+    .process(unlinkWikiLinks(note.content))
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(note.title || 'Untitled')}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${String(body)}
+</body>
+</html>
+`
+}
+
+// Opens the page in a new tab with the print dialog, for saving as PDF
+export function openPrintView(html: string) {
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }))
+  const view = window.open(url, '_blank')
+  if (!view) {
+    URL.revokeObjectURL(url)
+    return false
+  }
+  view.addEventListener('load', () => {
+    view.print()
+    URL.revokeObjectURL(url)
+  })
+  return true
+}
+
+// Folder names from the top level down to `folderId`
+function folderPath(folderId: string | null | undefined, folders: Folder[]) {
+  const byId = new Map(folders.map((folder) => [folder.id, folder]))
+  const path: string[] = []
+  const seen = new Set<string>()
+  let folder = folderId ? byId.get(folderId) : undefined
+  while (folder && !seen.has(folder.id)) {
+    seen.add(folder.id)
+    path.unshift(sanitizeFileName(folder.name))
+    folder = folder.parentId ? byId.get(folder.parentId) : undefined
+  }
+  return path
+}
+
+const ATTACHMENTS_DIRECTORY = 'attachments'
+
+// ZIP of every note in the folder structure of the app. Encrypted notes
+// are written as their encrypted files, unless `plaintext` holds their
+// unlocked content and the user chose to include it. Attachments go to
+// one directory, markdown notes link to their plaintext and encrypted
+// notes keep theirs encrypted.
+export async function createBackup(
+  notes: Note[],
+  folders: Folder[],
+  attachments: Attachment[] = [],
+  plaintext: Map<string, NotePayload> = new Map()
+): Promise<Blob> {
+  const files: Record<string, Uint8Array> = {}
+  const byId = new Map(
+    attachments
+      .filter((attachment) => !attachment.deleted)
+      .map((attachment) => [attachment.id, attachment])
+  )
+
+  const addFile = (directory: string[], name: string, data: string) => {
+    const dot = name.lastIndexOf('.')
+    let path = [...directory, name].join('/')
+    // Notes with the same title in the same folder
+    for (let i = 2; path in files; i++) {
+      path = [
+        ...directory,
+        `${name.slice(0, dot)} (${i})${name.slice(dot)}`,
+      ].join('/')
+    }
+    files[path] = strToU8(data)
+  }
+
+  // Writes the plaintext of every attachment `content` refers to and
+  // points the references at them, relative to `directory`
+  const linkAttachments = async (directory: string[], content: string) => {
+    const references = new Map<string, string | undefined>()
+    replaceAttachmentReferences(content, (id, key, reference) => {
+      references.set(id, key)
+      return reference
+    })
+
+    const paths = new Map<string, string>()
+    for (const [id, key] of references) {
+      const attachment = byId.get(id)
+      if (!attachment) continue
+      const blob = await openAttachment(attachment, key)
+      if (!blob) continue
+      const path = [
+        ATTACHMENTS_DIRECTORY,
+        id,
+        sanitizeFileName(attachment.name),
+      ]
+      files[path.join('/')] = new Uint8Array(await blob.arrayBuffer())
+      paths.set(
+        id,
+        [...directory.map(() => '..'), ...path]
+          .map(encodeURIComponent)
+          .join('/')
+      )
+    }
+    return replaceAttachmentReferences(
+      content,
+      (id, _key, reference) => paths.get(id) ?? reference
+    )
+  }
+
+  const addEncryptedAttachments = async (note: Note) => {
+    for (const attachment of byId.values()) {
+      if (attachment.noteId !== note.id || !attachment.nonce) continue
+      const data: EncryptedAttachmentExport = {
+        format: ENCRYPTED_ATTACHMENT_FORMAT,
+        version: 1,
+        id: attachment.id,
+        noteId: note.id,
+        name: attachment.name,
+        type: attachment.type,
+        size: attachment.size,
+        encryptedContent: await blobToBase64(attachment.data),
+        nonce: attachment.nonce,
+        authTag: attachment.authTag!,
+      }
+      files[`${ATTACHMENTS_DIRECTORY}/${attachment.id}.json`] = strToU8(
+        JSON.stringify(data, null, 2)
+      )
+    }
+  }
+
+  for (const note of notes) {
+    const directory = folderPath(note.folderId, folders)
+    const unlocked = plaintext.get(note.id)
+    if (note.encryptedContent && !unlocked) {
+      const title = note.title || `Encrypted note ${note.id.slice(0, 8)}`
+      addFile(
+        directory,
+        toFileName(title, 'json'),
+        JSON.stringify(encryptedNoteData(note), null, 2)
+      )
+      await addEncryptedAttachments(note)
+    } else {
+      const payload = unlocked ?? note
+      addFile(
+        directory,
+        toFileName(payload.title, 'md'),
+        noteToMarkdown({
+          ...note,
+          ...payload,
+          content: await linkAttachments(directory, payload.content),
+        })
+      )
+    }
+  }
+
+  return new Blob([zipSync(files)], { type: 'application/zip' })
+}
+
+// Turns a note or folder name into something every file system accepts
+function sanitizeFileName(name: string) {
+  const base = name
+    .replace(/[\\/:*?"<>|\x00-\x1f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 100)
+  return base || 'Untitled'
+}
+
+export function toFileName(title: string, extension: string) {
+  return `${sanitizeFileName(title)}.${extension}`
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
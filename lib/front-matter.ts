@@ -0,0 +1,78 @@
+// YAML front-matter at the top of markdown files. Only the flat subset that
+// note apps write is understood: `key: value` pairs whose values are
+// scalars or lists, either inline (`[a, b]`) or one `- item` per line.
+
+export type FrontMatter = Record<string, string | string[]>
+
+const BLOCK = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/
+// Items of an inline list, where quoted items may contain commas
+const LIST_ITEM = /\s*(?:"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,]+)/g
+
+function unquote(value: string) {
+  const trimmed = value.trim()
+  if (/^"(.*)"$/.test(trimmed)) {
+    return trimmed.slice(1, -1).replace(/\\"/g, '"').replace(/\\\\/g, '\\')
+  }
+  if (/^'(.*)'$/.test(trimmed)) return trimmed.slice(1, -1).replace(/''/g, "'")
+  return trimmed
+}
+
+function parseValue(raw: string): string | string[] {
+  const value = raw.trim()
+  if (value.startsWith('[') && value.endsWith(']')) {
+    const items = value.slice(1, -1).match(LIST_ITEM) ?? []
+    return items.map(unquote).filter(Boolean)
+  }
+  return unquote(value)
+}
+
+// Splits `markdown` into its front-matter and the rest. Files without
+// front-matter come back unchanged with empty data.
+export function parseFrontMatter(markdown: string): {
+  data: FrontMatter
+  body: string
+} {
+  const match = BLOCK.exec(markdown)
+  if (!match) return { data: {}, body: markdown }
+
+  const data: FrontMatter = {}
+  let listKey: string | null = null
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = /^\s+-\s*(.*)$|^-\s+(.*)$/.exec(line)
+    if (item && listKey) {
+      const list = data[listKey]
+      const value = unquote(item[1] ?? item[2])
+      data[listKey] = Array.isArray(list) ? [...list, value] : [value]
+      continue
+    }
+
+    const pair = /^([\w-]+)\s*:(.*)$/.exec(line)
+    if (!pair) continue
+    const key = pair[1].toLowerCase()
+    if (pair[2].trim() === '') {
+      // Items follow on the next lines
+      listKey = key
+      data[key] = []
+    } else {
+      listKey = null
+      data[key] = parseValue(pair[2])
+    }
+  }
+
+  return { data, body: markdown.slice(match[0].length) }
+}
+
+function quote(value: string) {
+  return /^[\w ./@+-]*$/.test(value) && value.trim() === value && value
+    ? value
+    : JSON.stringify(value)
+}
+
+export function serializeFrontMatter(data: FrontMatter) {
+  const lines = Object.entries(data).map(([key, value]) =>
+    Array.isArray(value)
+      ? `${key}: [${value.map(quote).join(', ')}]`
+      : `${key}: ${quote(value)}`
+  )
+  return `---\n${lines.join('\n')}\n---\n`
+}
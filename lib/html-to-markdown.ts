@@ -0,0 +1,125 @@
+// Converts the HTML that note apps export (Evernote's ENML in particular)
+// to markdown. Runs in the browser, on top of DOMParser. Formatting without
+// a markdown equivalent is dropped and its text kept.
+
+const BLOCKS = new Set([
+  'address',
+  'article',
+  'aside',
+  'div',
+  'footer',
+  'header',
+  'section',
+  'en-note',
+])
+
+function inline(node: Node): string {
+  return [...node.childNodes].map(convert).join('')
+}
+
+function wrap(text: string, marker: string) {
+  const trimmed = text.trim()
+  return trimmed ? `${marker}${trimmed}${marker}` : text
+}
+
+function list(element: Element, ordered: boolean) {
+  const items = [...element.children].filter(
+    (child) => child.tagName.toLowerCase() === 'li'
+  )
+  const lines = items.map((item, i) => {
+    const text = convert(item).trim().replace(/\n/g, '\n   ')
+    return `${ordered ? `${i + 1}.` : '-'} ${text}`
+  })
+  return `\n\n${lines.join('\n')}\n\n`
+}
+
+function table(element: Element) {
+  const rows = [...element.querySelectorAll('tr')].map((row) =>
+    [...row.children].map((cell) =>
+      inline(cell).trim().replace(/\n+/g, ' ').replace(/\|/g, '\\|')
+    )
+  )
+  if (rows.length === 0) return ''
+  const width = Math.max(...rows.map((row) => row.length))
+  const line = (cells: string[]) =>
+    `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`
+  return `\n\n${[
+    line(rows[0]),
+    line(Array(width).fill('---')),
+    ...rows.slice(1).map(line),
+  ].join('\n')}\n\n`
+}
+
+function convert(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return (node.textContent ?? '').replace(/\s+/g, ' ')
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return ''
+
+  const element = node as Element
+  const tag = element.tagName.toLowerCase()
+
+  if (/^h[1-6]$/.test(tag)) {
+    return `\n\n${'#'.repeat(Number(tag[1]))} ${inline(element).trim()}\n\n`
+  }
+  if (BLOCKS.has(tag) || tag === 'p') return `\n${inline(element)}\n`
+
+  switch (tag) {
+    case 'br':
+      return '\n'
+    case 'hr':
+      return '\n\n---\n\n'
+    case 'b':
+    case 'strong':
+      return wrap(inline(element), '**')
+    case 'i':
+    case 'em':
+      return wrap(inline(element), '*')
+    case 's':
+    case 'strike':
+    case 'del':
+      return wrap(inline(element), '~~')
+    case 'code':
+      return `\`${element.textContent ?? ''}\``
+    case 'pre':
+      return `\n\n\`\`\`\n${(element.textContent ?? '').replace(/\n$/, '')}\n\`\`\`\n\n`
+    case 'a': {
+      const href = element.getAttribute('href')
+      const text = inline(element).trim()
+      return href ? `[${text || href}](${href})` : text
+    }
+    case 'img': {
+      const src = element.getAttribute('src')
+      return src ? `![${element.getAttribute('alt') ?? ''}](${src})` : ''
+    }
+    case 'blockquote':
+      return `\n\n${inline(element)
+        .trim()
+        .split('\n')
+        .map((line) => `> ${line}`)
+        .join('\n')}\n\n`
+    case 'ul':
+      return list(element, false)
+    case 'ol':
+      return list(element, true)
+    case 'table':
+      return table(element)
+    case 'en-todo':
+      return element.getAttribute('checked') === 'true' ? '- [x] ' : '- [ ] '
+    // Attachments are not imported
+    case 'en-media':
+    case 'script':
+    case 'style':
+      return ''
+    default:
+      return inline(element)
+  }
+}
+
+export function htmlToMarkdown(html: string) {
+  const document = new DOMParser().parseFromString(html, 'text/html')
+  return convert(document.body)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, expect, test } from 'bun:test'
+import { JSDOM } from 'jsdom'
+
+import { findDuplicates, previewImport } from '@/lib/import'
+
+const FIXTURES = `${import.meta.dir}/__fixtures__/import`
+
+// ENEX notes and their HTML are read with DOMParser, which Bun does not
+// have. Other test files must not see a browser.
+const DOM_GLOBALS = ['DOMParser', 'Node'] as const
+
+beforeAll(() => {
+  const { window } = new JSDOM()
+  for (const name of DOM_GLOBALS) {
+    Object.defineProperty(globalThis, name, {
+      value: window[name],
+      configurable: true,
+    })
+  }
+})
+
+afterAll(() => {
+  for (const name of DOM_GLOBALS) Reflect.deleteProperty(globalThis, name)
+})
+
+async function preview(...names: string[]) {
+  const files = await Promise.all(
+    names.map(
+      async (name) =>
+        new File([await Bun.file(`${FIXTURES}/${name}`).text()], name, {
+          lastModified: Date.UTC(2024, 5, 1),
+        })
+    )
+  )
+  return previewImport(files)
+}
+
+test('reads the title, dates and tags of the front-matter', async () => {
+  const { candidates, errors } = await preview('groceries.md')
+  expect(errors).toEqual([])
+  expect(candidates[0]).toMatchObject({
+    title: 'Groceries',
+    content: '- milk\n- eggs\n\n#shopping #to-do\n',
+    createdAt: Date.UTC(2024, 0, 15, 10, 30),
+    updatedAt: Date.UTC(2024, 1, 1, 8),
+    folderPath: [],
+  })
+})
+
+test('skips lines of the front-matter it does not understand', async () => {
+  const { candidates } = await preview('loose-front-matter.md')
+  expect(candidates[0]).toMatchObject({
+    title: 'Quoted: title',
+    content: 'Body\n\n#one #two\n',
+    updatedAt: Date.UTC(2024, 5, 1),
+  })
+})
+
+test('keeps front-matter that is never closed as content', async () => {
+  const { candidates } = await preview('unclosed-front-matter.md')
+  expect(candidates[0].title).toBe('Heading')
+  expect(candidates[0].content).toStartWith('---\ntitle: Never closed\n')
+})
+
+test('reads every note of an Evernote export', async () => {
+  const { candidates, errors } = await preview('Travel.enex')
+  expect(errors).toEqual([])
+  expect(candidates).toHaveLength(2)
+  expect(candidates[0]).toMatchObject({
+    title: 'Packing list',
+    createdAt: Date.UTC(2024, 0, 15, 10, 30),
+    updatedAt: Date.UTC(2024, 0, 16, 9),
+    folderPath: ['Travel'],
+  })
+  expect(candidates[0].content).toContain('**Passport**')
+  expect(candidates[0].content).toContain('Charger')
+  expect(candidates[0].content).toEndWith('#trip\n')
+  expect(candidates[1].title).toBe('Note 2')
+})
+
+test('reads the active notes of a Simplenote export', async () => {
+  const { candidates } = await preview('notes.json')
+  expect(candidates.map((candidate) => candidate.title)).toEqual([
+    'Ideas',
+    'Ideas',
+  ])
+  expect(candidates[0]).toMatchObject({
+    content: '# Ideas\nWrite more tests\n\n#work\n',
+    createdAt: Date.UTC(2024, 0, 10, 9),
+    updatedAt: Date.UTC(2024, 0, 11, 9),
+  })
+})
+
+test('keeps notes with the same id apart and flags them once saved', async () => {
+  const { candidates } = await preview('notes.json', 'notes.json')
+  expect(new Set(candidates.map((candidate) => candidate.key)).size).toBe(4)
+
+  const [saved, ...rest] = candidates
+  const flagged = findDuplicates(rest, [
+    { id: 'note-1', title: saved.title, content: saved.content },
+  ])
+  for (const candidate of flagged) {
+    expect(candidate.duplicateOf).toEqual({
+      noteId: 'note-1',
+      sameContent: true,
+    })
+  }
+})
+
+test('reports files it cannot read and goes on with the rest', async () => {
+  const { candidates, errors } = await preview(
+    'broken.enex',
+    'other.json',
+    'groceries.md'
+  )
+  expect(candidates.map((candidate) => candidate.title)).toEqual(['Groceries'])
+  expect(errors).toEqual([
+    { source: 'broken.enex', message: 'Not a valid Evernote export' },
+    {
+      source: 'other.json',
+      message: 'Unrecognized JSON file, expected a Simplenote export',
+    },
+  ])
+})
@@ -0,0 +1,356 @@
+// Import of notes from files: markdown (single files, folders and ZIPs,
+// with optional front-matter), Evernote ENEX and Simplenote JSON exports.
+// Files are parsed into candidates first so they can be previewed, and are
+// only saved once the user confirms.
+
+import { strFromU8, unzipSync } from 'fflate'
+
+import { notesDB, type Folder, type Note } from '@/lib/db'
+import { parseFrontMatter, type FrontMatter } from '@/lib/front-matter'
+import { htmlToMarkdown } from '@/lib/html-to-markdown'
+import { extractTags, normalizeTag } from '@/lib/tags'
+import { normalizeTitle } from '@/lib/wiki-links'
+
+export interface ImportCandidate {
+  // Unique within one import, for the preview list
+  key: string
+  // File the note came from, with the entry path for archives
+  source: string
+  title: string
+  content: string
+  createdAt: number
+  updatedAt: number
+  // Folder names from the top level down, taken from directories
+  folderPath: string[]
+  // Existing note with the same title
+  duplicateOf?: { noteId: string; sameContent: boolean }
+}
+
+export interface ImportError {
+  source: string
+  message: string
+}
+
+export interface ImportPreview {
+  candidates: ImportCandidate[]
+  errors: ImportError[]
+}
+
+const MARKDOWN_EXTENSIONS = ['md', 'markdown', 'mdown', 'txt']
+
+function extensionOf(path: string) {
+  const name = path.split('/').pop() ?? ''
+  return name.includes('.') ? name.split('.').pop()!.toLowerCase() : ''
+}
+
+function baseName(path: string) {
+  const name = path.split('/').pop() ?? path
+  return name.replace(/\.[^.]+$/, '')
+}
+
+function directoriesOf(path: string) {
+  return path.split('/').slice(0, -1).filter(Boolean)
+}
+
+function parseDate(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined
+  const time = new Date(value).getTime()
+  return Number.isNaN(time) ? undefined : time
+}
+
+// Tags that only live in metadata are added to the content as #tags, the
+// only place the app keeps them
+function withTags(content: string, tags: string[]) {
+  const present = new Set(extractTags(content))
+  const missing = tags
+    .map((tag) => normalizeTag(tag.trim().replace(/\s+/g, '-')))
+    .filter((tag) => tag && !present.has(tag))
+  if (missing.length === 0) return content
+  const tagLine = [...new Set(missing)].map((tag) => `#${tag}`).join(' ')
+  return `${content.trimEnd()}\n\n${tagLine}\n`
+}
+
+function frontMatterTags(data: FrontMatter) {
+  const tags = data.tags ?? data.tag ?? []
+  return Array.isArray(tags) ? tags : tags.split(/[,\s]+/)
+}
+
+function firstHeading(markdown: string) {
+  return /^#\s+(.+)$/m.exec(markdown)?.[1].trim()
+}
+
+let keyCounter = 0
+function candidate(
+  fields: Omit<ImportCandidate, 'key' | 'duplicateOf'>
+): ImportCandidate {
+  return { ...fields, key: `${fields.source}#${keyCounter++}` }
+}
+
+function parseMarkdown(
+  path: string,
+  text: string,
+  modifiedAt: number
+): ImportCandidate {
+  const { data, body } = parseFrontMatter(text.replace(/^﻿/, ''))
+  const title =
+    (typeof data.title === 'string' && data.title) ||
+    firstHeading(body) ||
+    baseName(path)
+  const updatedAt =
+    parseDate(data.updated ?? data.modified ?? data.updated_at) ?? modifiedAt
+  return candidate({
+    source: path,
+    title,
+    content: withTags(body.replace(/^\s*\n/, ''), frontMatterTags(data)),
+    createdAt:
+      parseDate(data.created ?? data.date ?? data.created_at) ?? updatedAt,
+    updatedAt,
+    folderPath: directoriesOf(path),
+  })
+}
+
+// ENEX dates look like 20240115T103000Z
+function parseEnexDate(value: string | null | undefined) {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(
+    value?.trim() ?? ''
+  )
+  if (!match) return undefined
+  const [, y, mo, d, h, mi, s] = match.map(Number)
+  return Date.UTC(y, mo - 1, d, h, mi, s)
+}
+
+function parseEnex(path: string, text: string): ImportPreview {
+  const xml = new DOMParser().parseFromString(text, 'application/xml')
+  if (xml.querySelector('parsererror')) {
+    throw new Error('Not a valid Evernote export')
+  }
+
+  const result: ImportPreview = { candidates: [], errors: [] }
+  for (const [i, note] of [...xml.querySelectorAll('note')].entries()) {
+    const title =
+      note.querySelector('title')?.textContent?.trim() || `Note ${i + 1}`
+    const source = `${path} › ${title}`
+    try {
+      const body = htmlToMarkdown(
+        note.querySelector('content')?.textContent ?? ''
+      )
+      const tags = [...note.querySelectorAll('tag')].map(
+        (tag) => tag.textContent ?? ''
+      )
+      const updatedAt =
+        parseEnexDate(note.querySelector('updated')?.textContent) ??
+        parseEnexDate(note.querySelector('created')?.textContent) ??
+        Date.now()
+      result.candidates.push(
+        candidate({
+          source,
+          title,
+          content: withTags(`# ${title}\n\n${body}\n`, tags),
+          createdAt:
+            parseEnexDate(note.querySelector('created')?.textContent) ??
+            updatedAt,
+          updatedAt,
+          // Evernote exports one file per notebook, named after it
+          folderPath: [...directoriesOf(path), baseName(path)],
+        })
+      )
+    } catch (error) {
+      result.errors.push({ source, message: errorMessage(error) })
+    }
+  }
+  return result
+}
+
+interface SimplenoteEntry {
+  content?: string
+  creationDate?: string
+  lastModified?: string
+  tags?: string[]
+}
+
+function parseJson(path: string, text: string): ImportCandidate[] {
+  const data = JSON.parse(text)
+  if (!Array.isArray(data?.activeNotes)) {
+    throw new Error('Unrecognized JSON file, expected a Simplenote export')
+  }
+
+  // Trashed notes of the export are left out
+  return (data.activeNotes as SimplenoteEntry[]).map((entry, i) => {
+    const content = entry.content ?? ''
+    const firstLine = content
+      .split('\n', 1)[0]
+      .replace(/^#+\s*/, '')
+      .trim()
+    const updatedAt = parseDate(entry.lastModified) ?? Date.now()
+    return candidate({
+      source: `${path} › ${firstLine || `Note ${i + 1}`}`,
+      title: firstLine || 'Untitled',
+      content: withTags(content, entry.tags ?? []),
+      createdAt: parseDate(entry.creationDate) ?? updatedAt,
+      updatedAt,
+      // Simplenote has no folders
+      folderPath: [],
+    })
+  })
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error)
+}
+
+// Parses one file or archive entry by its extension
+function parseEntry(
+  path: string,
+  text: string,
+  modifiedAt: number
+): ImportPreview {
+  const extension = extensionOf(path)
+  if (MARKDOWN_EXTENSIONS.includes(extension)) {
+    return { candidates: [parseMarkdown(path, text, modifiedAt)], errors: [] }
+  }
+  if (extension === 'enex') return parseEnex(path, text)
+  if (extension === 'json') {
+    return { candidates: parseJson(path, text), errors: [] }
+  }
+  throw new Error('Unsupported file type')
+}
+
+function parseZip(path: string, bytes: Uint8Array): ImportPreview {
+  const result: ImportPreview = { candidates: [], errors: [] }
+  const archiveName = baseName(path)
+  const entries = unzipSync(bytes, {
+    // Skip directories, macOS metadata and files of other types, such as
+    // images next to the notes
+    filter: (file) =>
+      !file.name.endsWith('/') &&
+      !file.name.split('/').some((part) => part.startsWith('.')) &&
+      !file.name.startsWith('__MACOSX/') &&
+      [...MARKDOWN_EXTENSIONS, 'enex', 'json'].includes(extensionOf(file.name)),
+  })
+
+  // Simplenote archives hold every note twice, as a text file and in
+  // source/notes.json. Only the JSON has dates and tags, so it wins.
+  const names = Object.keys(entries).sort(
+    (a, b) =>
+      Number(extensionOf(b) === 'json') - Number(extensionOf(a) === 'json')
+  )
+  let hasSimplenoteJson = false
+
+  for (const name of names) {
+    if (hasSimplenoteJson && extensionOf(name) === 'txt') continue
+    // The archive itself becomes the top folder
+    const entryPath = `${archiveName}/${name}`
+    try {
+      const parsed = parseEntry(entryPath, strFromU8(entries[name]), Date.now())
+      if (extensionOf(name) === 'json') hasSimplenoteJson = true
+      result.candidates.push(...parsed.candidates)
+      result.errors.push(...parsed.errors)
+    } catch (error) {
+      result.errors.push({ source: entryPath, message: errorMessage(error) })
+    }
+  }
+  return result
+}
+
+// Parses the picked files without saving anything. Files picked as a
+// folder keep their directory structure.
+export async function previewImport(files: File[]): Promise<ImportPreview> {
+  const result: ImportPreview = { candidates: [], errors: [] }
+
+  for (const file of files) {
+    const path = file.webkitRelativePath || file.name
+    try {
+      const parsed =
+        extensionOf(path) === 'zip'
+          ? parseZip(path, new Uint8Array(await file.arrayBuffer()))
+          : parseEntry(path, await file.text(), file.lastModified)
+      result.candidates.push(...parsed.candidates)
+      result.errors.push(...parsed.errors)
+    } catch (error) {
+      result.errors.push({ source: path, message: errorMessage(error) })
+    }
+  }
+
+  return result
+}
+
+// Flags candidates whose title matches an existing note. Only notes whose
+// title is readable can be compared.
+export function findDuplicates(
+  candidates: ImportCandidate[],
+  existing: { id: string; title: string; content: string | null }[]
+): ImportCandidate[] {
+  const byTitle = new Map<string, { id: string; content: string | null }>()
+  for (const note of existing) {
+    const key = normalizeTitle(note.title)
+    if (key && !byTitle.has(key)) byTitle.set(key, note)
+  }
+
+  return candidates.map((candidate) => {
+    const match = byTitle.get(normalizeTitle(candidate.title))
+    if (!match) return { ...candidate, duplicateOf: undefined }
+    return {
+      ...candidate,
+      duplicateOf: {
+        noteId: match.id,
+        sameContent: match.content?.trim() === candidate.content.trim(),
+      },
+    }
+  })
+}
+
+// Finds or creates the folder for `path` below `parentId`
+async function ensureFolder(
+  path: string[],
+  parentId: string | null,
+  folders: Folder[],
+  userId?: string
+) {
+  for (const name of path) {
+    let folder = folders.find((f) => f.parentId === parentId && f.name === name)
+    if (!folder) {
+      folder = {
+        id: crypto.randomUUID(),
+        name,
+        parentId,
+        userId,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      }
+      await notesDB.saveFolder(folder)
+      folders.push(folder)
+    }
+    parentId = folder.id
+  }
+  return parentId
+}
+
+// Saves the chosen candidates as new notes inside `folderId`
+export async function importNotes(
+  candidates: ImportCandidate[],
+  userId?: string,
+  folderId: string | null = null
+): Promise<Note[]> {
+  const folders = await notesDB.getFolders(userId)
+  const imported: Note[] = []
+
+  for (const candidate of candidates) {
+    const note: Note = {
+      id: crypto.randomUUID(),
+      title: candidate.title,
+      content: candidate.content,
+      createdAt: candidate.createdAt,
+      updatedAt: candidate.updatedAt,
+      userId,
+      folderId: await ensureFolder(
+        candidate.folderPath,
+        folderId,
+        folders,
+        userId
+      ),
+    }
+    imported.push(await notesDB.saveNote(note))
+  }
+
+  return imported
+}
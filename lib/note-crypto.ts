@@ -0,0 +1,194 @@
+// Encryption of notes, independent of where the key comes from: a per-note
+// password from the cache or a content key from the vault. The envelope
+// seals the title and content together, so nothing readable is stored or
+// synced for an encrypted note.
+
+import {
+  decryptContent,
+  decryptContentWithKey,
+  encryptContent,
+  encryptContentWithKey,
+  getCachedPassword,
+  isHeaderOutdated,
+} from '@/lib/crypto'
+import type { Note } from '@/lib/db'
+import { extractTags } from '@/lib/tags'
+import { getNoteKey } from '@/lib/vault'
+
+export type NoteSecret =
+  | { password: string }
+  | { key: CryptoKey; wrappedKey: string }
+
+// Everything an encrypted note keeps secret. New metadata (such as tags)
+// goes here so it is sealed along with the text.
+export interface NotePayload {
+  title: string
+  content: string
+  tags?: string[]
+}
+
+// Envelope version written by encryptWithSecret
+export const ENVELOPE_VERSION = 2
+
+// Encryption fields shared by notes and their revisions
+export type Envelope = Pick<
+  Note,
+  | 'encryptedContent'
+  | 'salt'
+  | 'nonce'
+  | 'authTag'
+  | 'wrappedKey'
+  | 'cryptoHeader'
+  | 'envelopeVersion'
+>
+
+// Envelope plus the plaintext fields it replaces, blanked
+export type SealedFields = Envelope & NotePayload
+
+// Assign to a note to drop its encryption
+export const NO_ENVELOPE: Envelope = {
+  encryptedContent: undefined,
+  salt: undefined,
+  nonce: undefined,
+  authTag: undefined,
+  wrappedKey: undefined,
+  cryptoHeader: undefined,
+  envelopeVersion: undefined,
+}
+
+export function isEnvelopeEncrypted(envelope: Envelope) {
+  return !!(
+    envelope.encryptedContent &&
+    envelope.nonce &&
+    envelope.authTag &&
+    (envelope.salt || envelope.wrappedKey)
+  )
+}
+
+export function isVaultEnvelope(envelope: Envelope) {
+  return !!envelope.wrappedKey
+}
+
+// Encrypted before titles were sealed, so the title is still plaintext
+export function isLegacyEnvelope(envelope: Envelope) {
+  return (
+    isEnvelopeEncrypted(envelope) &&
+    (envelope.envelopeVersion ?? 1) < ENVELOPE_VERSION
+  )
+}
+
+// Sealed with an older layout or weaker KDF parameters than this session
+// writes, so it should be re-encrypted once its secret is at hand
+export function needsEnvelopeUpgrade(envelope: Envelope) {
+  if (isLegacyEnvelope(envelope)) return true
+  return (
+    isEnvelopeEncrypted(envelope) &&
+    !envelope.wrappedKey &&
+    isHeaderOutdated(envelope.cryptoHeader)
+  )
+}
+
+// Secret that opens the envelope without asking the user, if any. Notes
+// shared by another account bring their own copy of the content key.
+export async function resolveSecret(
+  noteId: string,
+  envelope: Envelope & Pick<Note, 'sharedKey'>
+): Promise<NoteSecret | null> {
+  if (envelope.wrappedKey) {
+    const key = await getNoteKey(envelope.wrappedKey, envelope.sharedKey)
+    return key ? { key, wrappedKey: envelope.wrappedKey } : null
+  }
+  const password = getCachedPassword(noteId)
+  return password ? { password } : null
+}
+
+// `previous` is the envelope being replaced; its salt is reused while its
+// KDF parameters are current, which skips deriving the key again
+export async function encryptWithSecret(
+  payload: NotePayload,
+  secret: NoteSecret,
+  previous?: Envelope
+): Promise<SealedFields> {
+  const plaintext = JSON.stringify({
+    ...payload,
+    tags: extractTags(payload.content),
+  })
+  const sealed = {
+    title: '',
+    content: '',
+    tags: [],
+    envelopeVersion: ENVELOPE_VERSION,
+  }
+  if ('password' in secret) {
+    const reuseSalt =
+      previous?.salt && !isHeaderOutdated(previous.cryptoHeader)
+        ? previous.salt
+        : undefined
+    const { header, ...encrypted } = await encryptContent(
+      plaintext,
+      secret.password,
+      reuseSalt
+    )
+    return {
+      ...sealed,
+      ...encrypted,
+      cryptoHeader: header,
+      wrappedKey: undefined,
+    }
+  }
+  return {
+    ...sealed,
+    ...(await encryptContentWithKey(plaintext, secret.key)),
+    salt: undefined,
+    cryptoHeader: undefined,
+    wrappedKey: secret.wrappedKey,
+  }
+}
+
+// `title` is only read from legacy envelopes, which left it in plaintext
+export async function decryptWithSecret(
+  envelope: Envelope & Pick<Note, 'title'>,
+  secret: NoteSecret
+): Promise<NotePayload> {
+  const data = {
+    encryptedContent: envelope.encryptedContent!,
+    nonce: envelope.nonce!,
+    authTag: envelope.authTag!,
+  }
+  const plaintext =
+    'password' in secret
+      ? await decryptContent(
+          { ...data, salt: envelope.salt!, header: envelope.cryptoHeader },
+          secret.password
+        )
+      : await decryptContentWithKey(data, secret.key)
+
+  if (isLegacyEnvelope(envelope)) {
+    return {
+      title: envelope.title,
+      content: plaintext,
+      tags: extractTags(plaintext),
+    }
+  }
+  const payload = JSON.parse(plaintext) as Partial<NotePayload>
+  const content = payload.content ?? ''
+  return {
+    title: payload.title ?? '',
+    content,
+    tags: payload.tags ?? extractTags(content),
+  }
+}
+
+// Plaintext of an envelope whose secret is at hand, otherwise null
+export async function tryDecrypt(
+  noteId: string,
+  envelope: Envelope & Pick<Note, 'title' | 'sharedKey'>
+): Promise<NotePayload | null> {
+  const secret = await resolveSecret(noteId, envelope)
+  if (!secret) return null
+  try {
+    return await decryptWithSecret(envelope, secret)
+  } catch {
+    return null
+  }
+}
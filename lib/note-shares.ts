@@ -0,0 +1,145 @@
+// Sharing notes with other accounts. The recipient reads, and as an editor
+// also writes, the owner's copy on the server; row-level security decides
+// what each account sees. Vault-encrypted notes are shared by wrapping
+// their content key for the recipient's public key, see lib/vault.ts.
+
+import { importPublicKey, wrapKeyForPublicKey } from '@/lib/crypto'
+import { notesDB, type Note, type ShareRole } from '@/lib/db'
+import { isEnvelopeEncrypted } from '@/lib/note-crypto'
+import { createClient } from '@/lib/supabase/client'
+import { getNoteKey } from '@/lib/vault'
+
+// Database row shape of the Supabase `note_shares` table
+export interface NoteShareRow {
+  id: string
+  note_id: string
+  owner_id: string
+  owner_email: string
+  recipient_id: string
+  recipient_email: string
+  role: ShareRole
+  wrapped_key: string | null
+  created_at: string
+}
+
+export interface NoteShare {
+  id: string
+  noteId: string
+  recipientId: string
+  recipientEmail: string
+  role: ShareRole
+  createdAt: number
+}
+
+function rowToNoteShare(row: NoteShareRow): NoteShare {
+  return {
+    id: row.id,
+    noteId: row.note_id,
+    recipientId: row.recipient_id,
+    recipientEmail: row.recipient_email,
+    role: row.role,
+    createdAt: Date.parse(row.created_at),
+  }
+}
+
+export function isSharedWithMe(note: Note) {
+  return !!note.ownerId
+}
+
+// Whether this account may change the note
+export function canEditNote(note: Note) {
+  return note.sharedRole !== 'viewer'
+}
+
+// Accounts the owner shared the note with, in the order they were added
+export async function listNoteShares(noteId: string): Promise<NoteShare[]> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from('note_shares')
+    .select('*')
+    .eq('note_id', noteId)
+    .order('created_at', { ascending: true })
+  if (error) throw error
+  return ((data ?? []) as NoteShareRow[]).map(rowToNoteShare)
+}
+
+// Content key of an encrypted note, wrapped for the recipient
+async function wrapNoteKey(note: Note, publicKey: string | null) {
+  if (!note.wrappedKey) {
+    throw new Error('Only notes encrypted with the vault can be shared')
+  }
+  const key = await getNoteKey(note.wrappedKey)
+  if (!key) throw new Error('Unlock the vault first')
+  if (!publicKey) {
+    throw new Error('The recipient has not set up a vault yet')
+  }
+  return wrapKeyForPublicKey(key, await importPublicKey(publicKey))
+}
+
+// Shares the note with the account behind `email`, or changes the role of
+// an existing share. The note must have reached the server.
+export async function shareNote(
+  note: Note,
+  owner: { id: string },
+  email: string,
+  role: ShareRole
+): Promise<NoteShare> {
+  const supabase = createClient()
+  const { data: recipient, error: lookupError } = await supabase
+    .rpc('find_share_recipient', { recipient_email: email.trim() })
+    .maybeSingle<{ user_id: string; public_key: string | null }>()
+  if (lookupError) throw lookupError
+  if (!recipient) throw new Error('No account uses this email')
+  if (recipient.user_id === owner.id) {
+    throw new Error('Notes cannot be shared with yourself')
+  }
+
+  const wrappedKey = isEnvelopeEncrypted(note)
+    ? await wrapNoteKey(note, recipient.public_key)
+    : null
+
+  const { data, error } = await supabase
+    .from('note_shares')
+    .upsert(
+      {
+        note_id: note.id,
+        // The addresses are filled in from the accounts by the database
+        owner_id: owner.id,
+        recipient_id: recipient.user_id,
+        role,
+        wrapped_key: wrappedKey,
+      },
+      { onConflict: 'note_id,recipient_id' }
+    )
+    .select()
+    .single()
+  if (error) throw error
+  return rowToNoteShare(data as NoteShareRow)
+}
+
+export async function updateShareRole(id: string, role: ShareRole) {
+  const supabase = createClient()
+  const { error } = await supabase
+    .from('note_shares')
+    .update({ role })
+    .eq('id', id)
+  if (error) throw error
+}
+
+export async function removeNoteShare(id: string) {
+  const supabase = createClient()
+  const { error } = await supabase.from('note_shares').delete().eq('id', id)
+  if (error) throw error
+}
+
+// Removes a note someone shared with this account, here and on the server
+export async function leaveSharedNote(note: Note) {
+  const supabase = createClient()
+  const { error } = await supabase
+    .from('note_shares')
+    .delete()
+    .eq('note_id', note.id)
+    .eq('recipient_id', note.userId!)
+  if (error) throw error
+  await notesDB.forgetNote(note.id)
+}
@@ -0,0 +1,92 @@
+// Notes in a second IndexedDB database of this browser, apart from the
+// local copy in lib/db.ts. Lets the app run with no server at all, and
+// tests run against a fake IndexedDB.
+
+import Dexie, { type Table } from 'dexie'
+
+import type { Note } from '@/lib/db'
+import {
+  nextRevision,
+  toStoredNote,
+  toSyncedNote,
+  type NotesRepository,
+} from '@/lib/repository'
+
+// Every write and removal, numbered in order; the cursor is a number
+interface ChangeEntry {
+  seq?: number
+  noteId: string
+  userId?: string
+}
+
+class RepositoryDatabase extends Dexie {
+  notes!: Table<Note>
+  changes!: Table<ChangeEntry, number>
+
+  constructor(name: string) {
+    super(name)
+    this.version(1).stores({
+      notes: 'id, userId',
+      changes: '++seq, noteId, userId',
+    })
+  }
+}
+
+export function createIndexedDbRepository(
+  name = 'NotesRepository'
+): NotesRepository {
+  const db = new RepositoryDatabase(name)
+
+  return {
+    kind: 'indexeddb',
+
+    async changes(userId, cursor) {
+      return db.transaction('r', db.notes, db.changes, async () => {
+        const entries = await db.changes
+          .where('seq')
+          .above(cursor ? Number(cursor) : 0)
+          .filter((entry) => entry.userId === userId)
+          .toArray()
+        const ids = [...new Set(entries.map((entry) => entry.noteId))]
+        const notes = (await db.notes.bulkGet(ids)).filter(
+          (note): note is Note => !!note
+        )
+        const present = new Set(notes.map((note) => note.id))
+        const last = await db.changes.orderBy('seq').last()
+        return {
+          notes: notes
+            .sort((a, b) => a.updatedAt - b.updatedAt)
+            .map(toSyncedNote),
+          removed: ids.filter((id) => !present.has(id)),
+          cursor: last ? String(last.seq) : cursor,
+        }
+      })
+    },
+
+    async get(ids) {
+      return (await db.notes.bulkGet(ids))
+        .filter((note): note is Note => !!note)
+        .map(toSyncedNote)
+    },
+
+    async write(note) {
+      return db.transaction('rw', db.notes, db.changes, async () => {
+        const revision = nextRevision(note, await db.notes.get(note.id))
+        if (revision === null) return 'conflict' as const
+        const stored = toStoredNote(note, revision)
+        await db.notes.put(stored)
+        await db.changes.add({ noteId: note.id, userId: stored.userId })
+        return toSyncedNote(stored)
+      })
+    },
+
+    async delete(id) {
+      await db.transaction('rw', db.notes, db.changes, async () => {
+        const stored = await db.notes.get(id)
+        if (!stored) return
+        await db.notes.delete(id)
+        await db.changes.add({ noteId: id, userId: stored.userId })
+      })
+    },
+  }
+}
@@ -0,0 +1,72 @@
+// Notes kept in a Map, for tests and for trying the app without a server.
+// Behaves like the other backends: revisions are checked on every write
+// and removals show up in the change feed.
+
+import type { Note } from '@/lib/db'
+import {
+  nextRevision,
+  toStoredNote,
+  toSyncedNote,
+  type NotesRepository,
+} from '@/lib/repository'
+
+interface Entry {
+  note: Note
+  // Position in the change feed
+  seq: number
+}
+
+export function createMemoryRepository(initial: Note[] = []): NotesRepository {
+  const notes = new Map<string, Entry>()
+  const removed = new Map<string, { userId?: string; seq: number }>()
+  let seq = 0
+  for (const note of initial) {
+    notes.set(note.id, {
+      note: toStoredNote(note, note.revision ?? 1),
+      seq: ++seq,
+    })
+  }
+
+  const copy = (note: Note) => toSyncedNote(structuredClone(note))
+
+  return {
+    kind: 'memory',
+
+    async changes(userId, cursor) {
+      const after = cursor ? Number(cursor) : 0
+      return {
+        notes: [...notes.values()]
+          .filter((entry) => entry.seq > after && entry.note.userId === userId)
+          .sort((a, b) => a.seq - b.seq)
+          .map((entry) => copy(entry.note)),
+        removed: [...removed]
+          .filter(([, entry]) => entry.seq > after && entry.userId === userId)
+          .map(([id]) => id),
+        cursor: String(seq),
+      }
+    },
+
+    async get(ids) {
+      return ids.flatMap((id) => {
+        const entry = notes.get(id)
+        return entry ? [copy(entry.note)] : []
+      })
+    },
+
+    async write(note) {
+      const revision = nextRevision(note, notes.get(note.id)?.note)
+      if (revision === null) return 'conflict'
+      const stored = toStoredNote(structuredClone(note), revision)
+      notes.set(note.id, { note: stored, seq: ++seq })
+      removed.delete(note.id)
+      return copy(stored)
+    },
+
+    async delete(id) {
+      const entry = notes.get(id)
+      if (!entry) return
+      notes.delete(id)
+      removed.set(id, { userId: entry.note.userId, seq: ++seq })
+    },
+  }
+}
@@ -0,0 +1,106 @@
+// Notes behind a plain HTTP server, for self-hosting without Supabase.
+// Notes travel as JSON in the app's `Note` shape, without local sync state.
+// Requests carry `Authorization: Bearer <token>` when there is a token, and
+// the server keeps each account to its own notes:
+//
+//   GET    /notes/changes?userId=&cursor=  { notes, removed, cursor }
+//   GET    /notes?ids=<id>,<id>            { notes }
+//   PUT    /notes/<id>                     { note } with the next revision,
+//                                          409 if `revision` is stale or
+//                                          0 while the note exists
+//   DELETE /notes/<id>                     204, also when already gone
+
+import type { Note } from '@/lib/db'
+import {
+  toStoredNote,
+  toSyncedNote,
+  type NotesRepository,
+} from '@/lib/repository'
+
+export interface HttpRepositoryOptions {
+  url: string
+  token?: () => Promise<string | null>
+  fetch?: typeof globalThis.fetch
+}
+
+// Request helper shared by the HTTP backends, see also webdav.ts
+export function createHttpClient({
+  url,
+  token,
+  fetch = globalThis.fetch,
+}: HttpRepositoryOptions) {
+  const base = url.replace(/\/+$/, '')
+  return async (path: string, init: RequestInit = {}) => {
+    const headers = new Headers(init.headers)
+    const value = await token?.()
+    if (value) headers.set('authorization', `Bearer ${value}`)
+    return fetch(`${base}${path}`, { ...init, headers })
+  }
+}
+
+async function failed(response: Response) {
+  const body = await response.text()
+  let message = body
+  try {
+    message = JSON.parse(body).error ?? body
+  } catch {
+    // Not JSON, the body is the message
+  }
+  return new Error(`${response.status}: ${message || response.statusText}`)
+}
+
+export function createRestRepository(
+  options: HttpRepositoryOptions
+): NotesRepository {
+  const request = createHttpClient(options)
+
+  const json = async <T>(path: string, init?: RequestInit) => {
+    const response = await request(path, init)
+    if (!response.ok) throw await failed(response)
+    return (await response.json()) as T
+  }
+
+  return {
+    kind: 'rest',
+
+    async changes(userId, cursor) {
+      const params = new URLSearchParams({ userId })
+      if (cursor) params.set('cursor', cursor)
+      const changes = await json<{
+        notes: Note[]
+        removed: string[]
+        cursor: string | null
+      }>(`/notes/changes?${params}`)
+      return { ...changes, notes: changes.notes.map(toSyncedNote) }
+    },
+
+    async get(ids) {
+      if (!ids.length) return []
+      const params = new URLSearchParams({ ids: ids.join(',') })
+      const { notes } = await json<{ notes: Note[] }>(`/notes?${params}`)
+      return notes.map(toSyncedNote)
+    },
+
+    async write(note) {
+      const response = await request(`/notes/${encodeURIComponent(note.id)}`, {
+        method: 'PUT',
+        headers: { 'content-type': 'application/json' },
+        // `revision` is the one the changes are based on, 0 for new notes
+        body: JSON.stringify(toStoredNote(note, note.revision ?? 0)),
+      })
+      if (response.status === 409) return 'conflict'
+      if (!response.ok) throw await failed(response)
+      const { note: stored } = (await response.json()) as { note: Note }
+      return toSyncedNote(stored)
+    },
+
+    async delete(id) {
+      const response = await request(`/notes/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok && response.status !== 404) {
+        throw await failed(response)
+      }
+    },
+  }
+}
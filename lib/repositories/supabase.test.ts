@@ -0,0 +1,122 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { expect, test } from 'bun:test'
+
+import { createSupabaseRepository } from '@/lib/repositories/supabase'
+import type { NoteRow } from '@/lib/sync'
+
+const USER = '11111111-1111-1111-1111-111111111111'
+
+function row(id: string, modifiedAt: string): NoteRow {
+  return {
+    id,
+    user_id: USER,
+    title: id,
+    content: '',
+    created_at: modifiedAt,
+    updated_at: modifiedAt,
+    modified_at: modifiedAt,
+    deleted: false,
+    deleted_at: null,
+    folder_id: null,
+    tags: [],
+    encrypted_content: null,
+    salt: null,
+    nonce: null,
+    auth_tag: null,
+    wrapped_key: null,
+    crypto_header: null,
+    envelope_version: null,
+    collab_doc_id: null,
+    revision: 1,
+  }
+}
+
+// Answers the queries of `changes` like PostgREST would, cutting every
+// response off at `maxRows`
+function fakeClient(rows: NoteRow[], maxRows = 1000) {
+  const requests: string[] = []
+  const query = (table: string) => {
+    let after: { modifiedAt: string; id: string } | null = null
+    let limit = maxRows
+    const builder = {
+      select: () => builder,
+      eq: () => builder,
+      order: () => builder,
+      limit: (count: number) => {
+        limit = Math.min(count, maxRows)
+        return builder
+      },
+      or: (filter: string) => {
+        requests.push(filter)
+        const [, modifiedAt, id] = filter.match(
+          /^modified_at\.gt\."([^"]+)",and\(modified_at\.eq\."[^"]+",id\.gt\."([^"]+)"\)$/
+        )!
+        after = { modifiedAt, id }
+        return builder
+      },
+      then: (resolve: (result: { data: unknown[]; error: null }) => void) => {
+        if (table !== 'notes') return resolve({ data: [], error: null })
+        const sorted = [...rows].sort(
+          (a, b) =>
+            a.modified_at!.localeCompare(b.modified_at!) ||
+            a.id.localeCompare(b.id)
+        )
+        const data = sorted
+          .filter(
+            (r) =>
+              !after ||
+              r.modified_at! > after.modifiedAt ||
+              (r.modified_at === after.modifiedAt && r.id > after.id)
+          )
+          .slice(0, limit)
+        resolve({ data, error: null })
+      },
+    }
+    return builder
+  }
+  const client = { from: query } as unknown as SupabaseClient
+  return { client, requests }
+}
+
+const id = (n: number) =>
+  `00000000-0000-0000-0000-${String(n).padStart(12, '0')}`
+
+test('lists every note, across pages and rows written at the same time', async () => {
+  // Backfilled rows all share one time
+  const rows = Array.from({ length: 1200 }, (_, n) =>
+    row(id(n), '2026-10-19T00:00:00+00:00')
+  )
+  const { client } = fakeClient(rows)
+  const repository = createSupabaseRepository(() => client)
+
+  const changes = await repository.changes(USER, null)
+  expect(changes.notes.map((note) => note.id)).toEqual(rows.map((r) => r.id))
+  expect(changes.cursor).toBe(`2026-10-19T00:00:00+00:00|${id(1199)}`)
+})
+
+test('continues after the cursor, including rows sharing its time', async () => {
+  const rows = [
+    row(id(1), '2026-10-19T00:00:00+00:00'),
+    row(id(2), '2026-10-19T00:00:00+00:00'),
+    row(id(3), '2026-10-19T00:00:01+00:00'),
+  ]
+  const { client } = fakeClient(rows)
+  const repository = createSupabaseRepository(() => client)
+
+  const changes = await repository.changes(
+    USER,
+    `2026-10-19T00:00:00+00:00|${id(1)}`
+  )
+  expect(changes.notes.map((note) => note.id)).toEqual([id(2), id(3)])
+})
+
+test('reads cursors that only carry a time', async () => {
+  const { client, requests } = fakeClient([
+    row(id(1), '2026-10-19T00:00:00+00:00'),
+  ])
+  const repository = createSupabaseRepository(() => client)
+
+  const changes = await repository.changes(USER, '2026-10-18T00:00:00+00:00')
+  expect(changes.notes).toHaveLength(1)
+  expect(requests[0]).toContain(`id.gt."${id(0)}"`)
+})
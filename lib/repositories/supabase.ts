@@ -0,0 +1,303 @@
+// Notes in the Supabase `notes` table. Row-level security returns the notes
+// of the signed-in account along with the ones shared with it, and a
+// trigger rejects writes on top of a stale revision. History, the vault,
+// folders and attachments live in tables of their own, the bytes of
+// attachments in the `attachments` storage bucket.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+import type { Attachment, Note } from '@/lib/db'
+import type { NotesRepository } from '@/lib/repository'
+import {
+  attachmentPath,
+  attachmentToRow,
+  folderToRow,
+  noteToRow,
+  revisionToRow,
+  rowToFolder,
+  rowToNote,
+  rowToRevision,
+  rowToVault,
+  vaultToRow,
+  type AttachmentRow,
+  type FolderRow,
+  type NoteRow,
+  type ReceivedShareRow,
+  type RevisionRow,
+  type VaultRow,
+} from '@/lib/sync'
+
+// Postgres error codes raised by the `notes` table on concurrent writes
+const STALE_REVISION = '40001'
+const UNIQUE_VIOLATION = '23505'
+const FOREIGN_KEY_VIOLATION = '23503'
+
+// Notes per request of a pull, below PostgREST's default row limit
+const PAGE_SIZE = 500
+// Sorts before every id, for cursors that only carry a time
+const NIL_UUID = '00000000-0000-0000-0000-000000000000'
+
+// The last note of a pull, as `<modified_at>|<id>`. Cursors of earlier
+// versions hold only the time.
+function parseCursor(cursor: string | null) {
+  if (!cursor) return null
+  const [modifiedAt, id] = cursor.split('|')
+  return { modifiedAt, id: id || NIL_UUID }
+}
+
+// Quotes a value for PostgREST's `or` filter syntax
+const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`
+
+function shareFields(share: ReceivedShareRow): Partial<Note> {
+  return {
+    ownerId: share.owner_id,
+    ownerEmail: share.owner_email,
+    sharedRole: share.role,
+    sharedKey: share.wrapped_key ?? undefined,
+  }
+}
+
+// `client` is called for every request, so it can hand out the browser's
+// client with the current session
+export function createSupabaseRepository(
+  client: () => SupabaseClient
+): NotesRepository {
+  return {
+    kind: 'supabase',
+
+    async changes(userId, cursor) {
+      const supabase = client()
+      const { data: shareData, error: shareError } = await supabase
+        .from('note_shares')
+        .select('note_id, owner_id, owner_email, role, wrapped_key')
+        .eq('recipient_id', userId)
+      if (shareError) throw shareError
+
+      // Pages follow the server's time of the write, so edits made offline
+      // and pushed later are still picked up. Rows written at the same time
+      // are told apart by id. PostgREST cuts every response off at its row
+      // limit, so a listing is only complete after a short page.
+      let position = parseCursor(cursor)
+      const rows: NoteRow[] = []
+      for (;;) {
+        let query = supabase
+          .from('notes')
+          .select('*')
+          .order('modified_at', { ascending: true })
+          .order('id', { ascending: true })
+          .limit(PAGE_SIZE)
+        if (position) {
+          const modifiedAt = quote(position.modifiedAt)
+          const id = quote(position.id)
+          query = query.or(
+            `modified_at.gt.${modifiedAt},and(modified_at.eq.${modifiedAt},id.gt.${id})`
+          )
+        }
+        const { data, error } = await query
+        if (error) throw error
+        const page = (data ?? []) as NoteRow[]
+        rows.push(...page)
+        const last = page[page.length - 1]
+        if (last) position = { modifiedAt: last.modified_at!, id: last.id }
+        if (page.length < PAGE_SIZE) break
+      }
+
+      return {
+        notes: rows.map(rowToNote),
+        // Deletions only show up as missing notes in a full pull, and
+        // through `watch`
+        removed: [],
+        cursor: position ? `${position.modifiedAt}|${position.id}` : null,
+        shares: new Map(
+          ((shareData ?? []) as ReceivedShareRow[]).map((share) => [
+            share.note_id,
+            shareFields(share),
+          ])
+        ),
+      }
+    },
+
+    async get(ids) {
+      if (!ids.length) return []
+      const { data, error } = await client()
+        .from('notes')
+        .select('*')
+        .in('id', ids)
+      if (error) throw error
+      return ((data ?? []) as NoteRow[]).map(rowToNote)
+    },
+
+    async write(note) {
+      const supabase = client()
+      const row = { ...noteToRow(note), revision: (note.revision ?? 0) + 1 }
+
+      if (note.revision) {
+        const { data, error } = await supabase
+          .from('notes')
+          .update(row)
+          .eq('id', note.id)
+          .select()
+        if (error?.code === STALE_REVISION) return 'conflict'
+        if (error) throw error
+        if (data.length) return rowToNote(data[0] as NoteRow)
+        // The note no longer exists remotely, recreate it
+        row.revision = 1
+      }
+
+      const { data, error } = await supabase
+        .from('notes')
+        .insert(row)
+        .select()
+        .single()
+      if (error?.code === UNIQUE_VIOLATION) return 'conflict'
+      if (error) throw error
+      return rowToNote(data as NoteRow)
+    },
+
+    async delete(id) {
+      const { error } = await client().from('notes').delete().eq('id', id)
+      if (error) throw error
+    },
+
+    async saveRevision(revision) {
+      const { error } = await client()
+        .from('note_revisions')
+        .upsert(revisionToRow(revision))
+      if (error) throw error
+    },
+
+    async revisions(noteId) {
+      const { data, error } = await client()
+        .from('note_revisions')
+        .select('*')
+        .eq('note_id', noteId)
+      if (error) throw error
+      return ((data ?? []) as RevisionRow[]).map(rowToRevision)
+    },
+
+    async getVault(userId) {
+      const { data, error } = await client()
+        .from('vaults')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle()
+      if (error) throw error
+      return data ? rowToVault(data as VaultRow) : null
+    },
+
+    async saveVault(vault) {
+      const { error } = await client().from('vaults').upsert(vaultToRow(vault))
+      if (error) throw error
+    },
+
+    async getFolders(userId) {
+      const { data, error } = await client()
+        .from('folders')
+        .select('*')
+        .eq('user_id', userId)
+      if (error) throw error
+      return ((data ?? []) as FolderRow[]).map(rowToFolder)
+    },
+
+    async saveFolders(folders) {
+      const { error } = await client()
+        .from('folders')
+        .upsert(folders.map(folderToRow))
+      if (error) throw error
+    },
+
+    async saveAttachment(attachment) {
+      const supabase = client()
+      const row = attachmentToRow(attachment)
+      const { error: uploadError } = await supabase.storage
+        .from('attachments')
+        .upload(attachmentPath(row.user_id, row.id), attachment.data, {
+          contentType: row.type,
+          upsert: true,
+        })
+      if (uploadError) throw uploadError
+      const { error } = await supabase.from('attachments').upsert(row)
+      if (error?.code === FOREIGN_KEY_VIOLATION) return false
+      if (error) throw error
+      return true
+    },
+
+    async deleteAttachment(attachment) {
+      const supabase = client()
+      const { error: removeError } = await supabase.storage
+        .from('attachments')
+        .remove([attachmentPath(attachment.userId!, attachment.id)])
+      if (removeError) throw removeError
+      const { error } = await supabase
+        .from('attachments')
+        .delete()
+        .eq('id', attachment.id)
+      if (error) throw error
+    },
+
+    async getAttachment(id) {
+      const supabase = client()
+      const { data: row, error } = await supabase
+        .from('attachments')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle<AttachmentRow>()
+      if (error) throw error
+      if (!row) return null
+
+      const { data, error: downloadError } = await supabase.storage
+        .from('attachments')
+        .download(attachmentPath(row.user_id, row.id))
+      if (downloadError) throw downloadError
+
+      const attachment: Attachment = {
+        id: row.id,
+        noteId: row.note_id,
+        userId: row.user_id,
+        name: row.name,
+        type: row.type,
+        size: row.size,
+        data,
+        nonce: row.nonce ?? undefined,
+        authTag: row.auth_tag ?? undefined,
+        createdAt: new Date(row.created_at).getTime(),
+        syncStatus: 'synced',
+      }
+      return attachment
+    },
+
+    // Realtime announces changes made on other devices
+    watch(userId, { onChange, onDelete }) {
+      const supabase = client()
+      const ownNotes = {
+        schema: 'public',
+        table: 'notes',
+        filter: `user_id=eq.${userId}`,
+      }
+      const channel = supabase
+        .channel(`notes:${userId}`)
+        .on<NoteRow>(
+          'postgres_changes',
+          { event: 'INSERT', ...ownNotes },
+          onChange
+        )
+        .on<NoteRow>(
+          'postgres_changes',
+          { event: 'UPDATE', ...ownNotes },
+          onChange
+        )
+        // Deletes cannot be filtered by owner and only carry the id
+        .on<NoteRow>(
+          'postgres_changes',
+          { event: 'DELETE', schema: 'public', table: 'notes' },
+          (payload) => {
+            if (payload.old.id) onDelete(payload.old.id)
+          }
+        )
+        .subscribe()
+      return () => {
+        supabase.removeChannel(channel)
+      }
+    },
+  }
+}
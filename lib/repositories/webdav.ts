@@ -0,0 +1,129 @@
+// Notes as `<id>.json` files in a WebDAV collection, for instance a
+// Nextcloud folder. WebDAV has no revisions, so writes read the stored
+// copy first and are made conditional on its ETag. The change feed is the
+// collection listing, filtered by modification time.
+
+import type { Note } from '@/lib/db'
+import {
+  nextRevision,
+  toStoredNote,
+  toSyncedNote,
+  type NotesRepository,
+} from '@/lib/repository'
+
+import { createHttpClient, type HttpRepositoryOptions } from './rest'
+
+const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:"><d:prop><d:getlastmodified/></d:prop></d:propfind>`
+
+interface Listing {
+  id: string
+  modifiedAt: number
+}
+
+// `href` and `getlastmodified` of every response in a multistatus body,
+// whatever prefix the server uses for the DAV: namespace
+function parseListing(xml: string): Listing[] {
+  const tag = (name: string) =>
+    new RegExp(`<(?:\\w+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${name}>`)
+  const responses = xml.match(
+    /<(?:\w+:)?response\b[\s\S]*?<\/(?:\w+:)?response>/g
+  )
+  return (responses ?? []).flatMap((response) => {
+    const href = decodeURIComponent(response.match(tag('href'))?.[1] ?? '')
+    const id = href.match(/([^/]+)\.json$/)?.[1]
+    const modified = response.match(tag('getlastmodified'))?.[1]
+    if (!id || !modified) return []
+    return [{ id, modifiedAt: new Date(modified).getTime() }]
+  })
+}
+
+export function createWebDavRepository(
+  options: HttpRepositoryOptions
+): NotesRepository {
+  const request = createHttpClient(options)
+  const path = (id: string) => `/${encodeURIComponent(id)}.json`
+
+  async function read(id: string) {
+    const response = await request(path(id))
+    if (response.status === 404) return null
+    if (!response.ok) throw new Error(`${response.status}: GET ${path(id)}`)
+    return {
+      note: (await response.json()) as Note,
+      etag: response.headers.get('etag'),
+    }
+  }
+
+  return {
+    kind: 'webdav',
+
+    // Modification times have a resolution of a second, so notes changed
+    // in the same second as the cursor come again. Removals only show up
+    // as missing notes in a full pull.
+    async changes(userId, cursor) {
+      const response = await request('/', {
+        method: 'PROPFIND',
+        headers: { depth: '1', 'content-type': 'application/xml' },
+        body: PROPFIND_BODY,
+      })
+      if (!response.ok) throw new Error(`${response.status}: PROPFIND`)
+      const since = cursor ? Number(cursor) : -Infinity
+      const changed = parseListing(await response.text())
+        .filter((entry) => entry.modifiedAt >= since)
+        .sort((a, b) => a.modifiedAt - b.modifiedAt)
+
+      const notes: Note[] = []
+      for (const { id } of changed) {
+        const stored = await read(id)
+        if (stored?.note.userId === userId) {
+          notes.push(toSyncedNote(stored.note))
+        }
+      }
+      const last = changed[changed.length - 1]
+      return {
+        notes,
+        removed: [],
+        cursor: last ? String(last.modifiedAt) : cursor,
+      }
+    },
+
+    async get(ids) {
+      const notes: Note[] = []
+      for (const id of ids) {
+        const stored = await read(id)
+        if (stored) notes.push(toSyncedNote(stored.note))
+      }
+      return notes
+    },
+
+    async write(note) {
+      const current = await read(note.id)
+      const revision = nextRevision(note, current?.note)
+      if (revision === null) return 'conflict'
+
+      const stored = toStoredNote(note, revision)
+      const response = await request(path(note.id), {
+        method: 'PUT',
+        headers: {
+          'content-type': 'application/json',
+          // Fails if the file changed since it was read
+          ...(current?.etag
+            ? { 'if-match': current.etag }
+            : { 'if-none-match': '*' }),
+        },
+        body: JSON.stringify(stored),
+      })
+      if (response.status === 412) return 'conflict'
+      if (!response.ok)
+        throw new Error(`${response.status}: PUT ${path(note.id)}`)
+      return toSyncedNote(stored)
+    },
+
+    async delete(id) {
+      const response = await request(path(id), { method: 'DELETE' })
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`${response.status}: DELETE ${path(id)}`)
+      }
+    },
+  }
+}
@@ -0,0 +1,154 @@
+// Where notes are stored remotely. The sync engine keeps the local copy and
+// the outbox in IndexedDB and replays them against the repository chosen by
+// configuration:
+//
+//   NEXT_PUBLIC_NOTES_BACKEND=supabase   the Supabase project (default)
+//   NEXT_PUBLIC_NOTES_BACKEND=rest       a server at NEXT_PUBLIC_NOTES_URL
+//                                        speaking lib/repositories/rest.ts
+//   NEXT_PUBLIC_NOTES_BACKEND=webdav     one JSON file per note in the
+//                                        WebDAV collection at
+//                                        NEXT_PUBLIC_NOTES_URL
+//   NEXT_PUBLIC_NOTES_BACKEND=indexeddb  a second database in this browser,
+//                                        for running without any server
+//   NEXT_PUBLIC_NOTES_BACKEND=memory     nothing kept, for tests
+//
+// Notes sync with every backend. The vault, folders, attachments and
+// history go through the optional methods below, which only the Supabase
+// repository has so far; with other backends they stay on this device.
+// Sharing, API tokens and webhooks need Supabase, see hasSupabaseFeatures.
+
+import { authClient } from '@/lib/auth'
+import type {
+  Attachment,
+  Folder,
+  Note,
+  NoteRevision,
+  VaultRecord,
+} from '@/lib/db'
+import { createIndexedDbRepository } from '@/lib/repositories/indexeddb'
+import { createMemoryRepository } from '@/lib/repositories/memory'
+import { createRestRepository } from '@/lib/repositories/rest'
+import { createSupabaseRepository } from '@/lib/repositories/supabase'
+import { createWebDavRepository } from '@/lib/repositories/webdav'
+import { createClient } from '@/lib/supabase/client'
+
+export type RepositoryKind =
+  | 'supabase'
+  | 'rest'
+  | 'webdav'
+  | 'indexeddb'
+  | 'memory'
+
+export interface NoteChanges {
+  // Oldest change first
+  notes: Note[]
+  // Notes removed for good, from backends that keep track of them
+  removed: string[]
+  // Passed back to get only what changed after this batch
+  cursor: string | null
+  // Share fields of every note shared with the account, by note id. Unset
+  // for backends without sharing.
+  shares?: Map<string, Partial<Note>>
+}
+
+export interface NotesRepository {
+  readonly kind: RepositoryKind
+  // Notes of the account and the ones shared with it: all of them when
+  // `cursor` is null, otherwise the ones changed after it. Backends that
+  // answer in pages fetch them all, the sync engine removes local notes
+  // missing from a full listing.
+  changes(userId: string, cursor: string | null): Promise<NoteChanges>
+  get(ids: string[]): Promise<Note[]>
+  // Stores the note on top of `note.revision`, the revision its changes are
+  // based on, and returns the stored copy with the next revision. Returns
+  // 'conflict' when another write got there first.
+  write(note: Note): Promise<Note | 'conflict'>
+  delete(id: string): Promise<void>
+  saveRevision?(revision: NoteRevision): Promise<void>
+  revisions?(noteId: string): Promise<NoteRevision[]>
+  getVault?(userId: string): Promise<VaultRecord | null>
+  saveVault?(vault: VaultRecord): Promise<void>
+  // Folders are few and small, so they are pushed and pulled as a whole
+  getFolders?(userId: string): Promise<Folder[]>
+  saveFolders?(folders: Folder[]): Promise<void>
+  // Stores an attachment with its bytes. Returns false while its note has
+  // not reached the backend yet.
+  saveAttachment?(attachment: Attachment): Promise<boolean>
+  deleteAttachment?(attachment: Attachment): Promise<void>
+  getAttachment?(id: string): Promise<Attachment | null>
+  // Announces changes made elsewhere as they happen, returns the cleanup
+  watch?(
+    userId: string,
+    handlers: { onChange: () => void; onDelete: (id: string) => void }
+  ): () => void
+}
+
+// The note as a remote backend keeps it: owned by its owner, without local
+// sync state
+export function toStoredNote(note: Note, revision: number): Note {
+  const stored: Note = {
+    ...note,
+    userId: note.ownerId ?? note.userId,
+    revision,
+  }
+  for (const field of [
+    'syncStatus',
+    'baseTitle',
+    'baseContent',
+    'ownerId',
+    'ownerEmail',
+    'sharedRole',
+    'sharedKey',
+  ] as const) {
+    delete stored[field]
+  }
+  return stored
+}
+
+// A stored note as it arrives locally: in sync, and the base of later merges
+export function toSyncedNote(note: Note): Note {
+  return {
+    ...note,
+    syncStatus: 'synced',
+    baseTitle: note.title,
+    baseContent: note.content,
+  }
+}
+
+// Revision a write on top of `base` gets, given the stored copy. Null if
+// the stored copy moved on since `base` was read.
+export function nextRevision(base: Note, stored: Note | undefined) {
+  if (!base.revision) return stored ? null : 1
+  // The note no longer exists remotely, it is created again
+  if (!stored) return 1
+  return stored.revision === base.revision ? base.revision + 1 : null
+}
+
+export const notesBackend = process.env.NEXT_PUBLIC_NOTES_BACKEND || 'supabase'
+
+// Whether the features only Supabase offers are there: sharing, API tokens
+// and webhooks
+export const hasSupabaseFeatures = notesBackend === 'supabase'
+
+export function createNotesRepository(
+  kind = notesBackend,
+  url = process.env.NEXT_PUBLIC_NOTES_URL
+): NotesRepository {
+  switch (kind) {
+    case 'supabase':
+      return createSupabaseRepository(createClient)
+    case 'indexeddb':
+      return createIndexedDbRepository()
+    case 'memory':
+      return createMemoryRepository()
+    case 'rest':
+    case 'webdav': {
+      if (!url) throw new Error(`NEXT_PUBLIC_NOTES_URL is needed for ${kind}`)
+      const create =
+        kind === 'rest' ? createRestRepository : createWebDavRepository
+      return create({ url, token: authClient.accessToken })
+    }
+    default:
+      throw new Error(`Unknown notes backend "${kind}"`)
+  }
+}
@@ -0,0 +1,112 @@
+// Version history: decides when a note is worth a snapshot and keeps
+// snapshots of encrypted notes sealed with the note's key.
+
+import { notesDB, type Note, type NoteRevision } from '@/lib/db'
+import { diffLines } from '@/lib/diff'
+import {
+  encryptWithSecret,
+  isEnvelopeEncrypted,
+  NO_ENVELOPE,
+  resolveSecret,
+  tryDecrypt,
+  type NotePayload,
+  type NoteSecret,
+} from '@/lib/note-crypto'
+
+// Characters that must change between snapshots for an autosave to count
+// as a large edit
+const LARGE_EDIT_THRESHOLD = 500
+
+// Time without edits after which the current state is snapshotted
+export const IDLE_SNAPSHOT_DELAY = 30 * 1000 // 30 seconds
+
+export type SnapshotReason = 'idle' | 'switch' | 'edit' | 'restore'
+
+export type RevisionContent = NotePayload
+
+// Returns null when the revision is encrypted and cannot be read
+export async function readRevision(
+  revision: NoteRevision
+): Promise<RevisionContent | null> {
+  if (!isEnvelopeEncrypted(revision)) {
+    return { title: revision.title, content: revision.content }
+  }
+  return tryDecrypt(revision.noteId, revision)
+}
+
+function changedCharacters(before: string, after: string) {
+  return diffLines(before, after)
+    .filter((line) => line.op !== 'equal')
+    .reduce((total, line) => total + line.line.length + 1, 0)
+}
+
+// Records a revision of `note` with the given plaintext if it differs
+// enough from the latest one. Encrypted notes are only snapshotted while
+// their key is available, rather than ever storing plaintext.
+export async function snapshotNote(
+  note: Note,
+  current: RevisionContent,
+  reason: SnapshotReason
+): Promise<NoteRevision | null> {
+  const secret = isEnvelopeEncrypted(note)
+    ? await resolveSecret(note.id, note)
+    : null
+  if (isEnvelopeEncrypted(note) && !secret) return null
+
+  const [latest] = await notesDB.getRevisions(note.id)
+  const previous = latest ? await readRevision(latest) : null
+
+  if (
+    previous &&
+    previous.title === current.title &&
+    previous.content === current.content
+  ) {
+    return null
+  }
+
+  if (
+    reason === 'edit' &&
+    changedCharacters(previous?.content ?? '', current.content) <
+      LARGE_EDIT_THRESHOLD
+  ) {
+    return null
+  }
+
+  let revision: NoteRevision = {
+    id: crypto.randomUUID(),
+    noteId: note.id,
+    userId: note.userId,
+    title: current.title,
+    content: current.content,
+    createdAt: Date.now(),
+  }
+
+  if (secret) {
+    revision = { ...revision, ...(await encryptWithSecret(current, secret)) }
+  }
+
+  await notesDB.saveRevision(revision)
+  return revision
+}
+
+// Re-keys a note's history when its encryption changes, so revisions never
+// stay readable without the key the note itself requires. Must run while
+// the old key is still available; a null secret means plaintext.
+// `rewrite` is applied to the content of every revision on the way.
+export async function rewrapRevisions(
+  noteId: string,
+  newSecret: NoteSecret | null,
+  rewrite: (content: string) => string = (content) => content
+) {
+  for (const revision of await notesDB.getRevisions(noteId)) {
+    const read = await readRevision(revision)
+    // Encrypted with a key we no longer have, leave it as it is
+    if (!read) continue
+
+    const plain = { ...read, content: rewrite(read.content) }
+    const fields = newSecret
+      ? await encryptWithSecret(plain, newSecret)
+      : { ...NO_ENVELOPE, ...plain }
+    await notesDB.saveRevision({ ...revision, ...fields })
+  }
+}
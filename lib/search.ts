@@ -0,0 +1,241 @@
+// Full-text search: an inverted index over plaintext notes kept in Dexie,
+// plus an in-memory index over unlocked encrypted notes that is rebuilt
+// for every query and never persisted.
+
+import { notesDB, type Note, type SearchDoc, type SearchTerm } from '@/lib/db'
+import { isEnvelopeEncrypted, type NotePayload } from '@/lib/note-crypto'
+
+// A title hit counts as much as this many content hits
+const TITLE_WEIGHT = 5
+// Terms that only start with a query word score less than exact ones
+const PREFIX_WEIGHT = 0.5
+const SNIPPET_RADIUS = 60
+const DEFAULT_LIMIT = 20
+
+export interface Snippet {
+  text: string
+  // [start, end) ranges of `text` that matched the query
+  highlights: [number, number][]
+}
+
+export interface SearchResult {
+  noteId: string
+  score: number
+  encrypted: boolean
+  title: Snippet
+  snippet: Snippet
+}
+
+const WORD = /[\p{L}\p{N}]+/gu
+
+// Case- and accent-insensitive form used for both indexing and queries
+function fold(word: string) {
+  return word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase()
+}
+
+export function tokenize(text: string): string[] {
+  return (text.match(WORD) ?? []).map(fold)
+}
+
+function countTerms(tokens: string[]) {
+  const counts = new Map<string, number>()
+  for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1)
+  return counts
+}
+
+function termsOf(noteId: string, payload: NotePayload): SearchTerm[] {
+  const titleCounts = countTerms(tokenize(payload.title))
+  const contentCounts = countTerms(tokenize(payload.content))
+  const terms = new Set([...titleCounts.keys(), ...contentCounts.keys()])
+  return [...terms].map((term) => ({
+    noteId,
+    term,
+    titleCount: titleCounts.get(term) ?? 0,
+    contentCount: contentCounts.get(term) ?? 0,
+  }))
+}
+
+function isIndexable(note: Note) {
+  return !note.deleted && !isEnvelopeEncrypted(note)
+}
+
+// Called as soon as a note is encrypted, its words must not stay behind
+// until the next refresh
+export async function removeFromIndex(noteId: string) {
+  await notesDB.searchTerms.where('noteId').equals(noteId).delete()
+  await notesDB.searchDocs.delete(noteId)
+}
+
+async function addToIndex(note: Note) {
+  const doc: SearchDoc = {
+    noteId: note.id,
+    updatedAt: note.updatedAt,
+    length: tokenize(note.content).length,
+  }
+  await notesDB.searchTerms.where('noteId').equals(note.id).delete()
+  await notesDB.searchTerms.bulkPut(termsOf(note.id, note))
+  await notesDB.searchDocs.put(doc)
+}
+
+// Brings the index up to date with the notes table. Only notes whose
+// `updatedAt` changed since they were indexed are tokenized again, so this
+// is cheap to call before every search session.
+export async function refreshSearchIndex() {
+  const notes = await notesDB.notes.toArray()
+  const docs = new Map(
+    (await notesDB.searchDocs.toArray()).map((doc) => [doc.noteId, doc])
+  )
+
+  await notesDB.transaction(
+    'rw',
+    [notesDB.searchTerms, notesDB.searchDocs],
+    async () => {
+      for (const note of notes) {
+        const doc = docs.get(note.id)
+        docs.delete(note.id)
+        if (!isIndexable(note)) {
+          if (doc) await removeFromIndex(note.id)
+        } else if (doc?.updatedAt !== note.updatedAt) {
+          await addToIndex(note)
+        }
+      }
+      // Whatever is left belongs to notes that no longer exist
+      for (const noteId of docs.keys()) await removeFromIndex(noteId)
+    }
+  )
+}
+
+function findHighlights(text: string, queryTerms: string[]) {
+  const highlights: [number, number][] = []
+  for (const match of text.matchAll(WORD)) {
+    const word = fold(match[0])
+    if (queryTerms.some((term) => word.startsWith(term))) {
+      highlights.push([match.index, match.index + match[0].length])
+    }
+  }
+  return highlights
+}
+
+// Window of `content` around the first match, with highlights relative to it
+export function makeSnippet(content: string, queryTerms: string[]): Snippet {
+  const all = findHighlights(content, queryTerms)
+  const center = all[0]?.[0] ?? 0
+  let start = Math.max(0, center - SNIPPET_RADIUS)
+  let end = Math.min(content.length, center + SNIPPET_RADIUS * 2)
+
+  // Do not cut words in half
+  if (start > 0) {
+    const space = content.indexOf(' ', start)
+    if (space !== -1 && space < center) start = space + 1
+  }
+  if (end < content.length) {
+    const space = content.lastIndexOf(' ', end)
+    if (space > center) end = space
+  }
+
+  const prefix = start > 0 ? '…' : ''
+  const suffix = end < content.length ? '…' : ''
+  const text = prefix + content.slice(start, end).replace(/\s+/g, ' ') + suffix
+
+  // Whitespace was collapsed, so match again inside the final text
+  return { text, highlights: findHighlights(text, queryTerms) }
+}
+
+interface Candidate {
+  noteId: string
+  score: number
+  matched: Set<string>
+}
+
+// Scores `rows` (index entries whose term starts with one of the query
+// words) by TF-IDF, keeping only notes that match every query word
+function rank(
+  rows: SearchTerm[],
+  queryTerms: string[],
+  docCount: number
+): Candidate[] {
+  const documentFrequency = countTerms(rows.map((row) => row.term))
+  const candidates = new Map<string, Candidate>()
+
+  for (const row of rows) {
+    const idf = Math.log(1 + docCount / (documentFrequency.get(row.term) ?? 1))
+    const frequency = row.titleCount * TITLE_WEIGHT + row.contentCount
+    for (const queryTerm of queryTerms) {
+      if (!row.term.startsWith(queryTerm)) continue
+      const weight = row.term === queryTerm ? 1 : PREFIX_WEIGHT
+      const candidate = candidates.get(row.noteId) ?? {
+        noteId: row.noteId,
+        score: 0,
+        matched: new Set<string>(),
+      }
+      candidate.score += weight * idf * Math.log(1 + frequency)
+      candidate.matched.add(queryTerm)
+      candidates.set(row.noteId, candidate)
+    }
+  }
+
+  return [...candidates.values()].filter(
+    (candidate) => candidate.matched.size === queryTerms.length
+  )
+}
+
+// Searches the notes in `noteIds`. Encrypted notes are only found when
+// their plaintext is in `unlocked`.
+export async function searchNotes(
+  query: string,
+  noteIds: Set<string>,
+  unlocked: Map<string, NotePayload>,
+  limit = DEFAULT_LIMIT
+): Promise<SearchResult[]> {
+  const queryTerms = [...new Set(tokenize(query))]
+  if (queryTerms.length === 0) return []
+
+  const storedRows = (
+    await Promise.all(
+      queryTerms.map((term) =>
+        notesDB.searchTerms.where('term').startsWith(term).toArray()
+      )
+    )
+  )
+    .flat()
+    .filter((row) => noteIds.has(row.noteId))
+
+  const memoryRows = [...unlocked]
+    .filter(([noteId]) => noteIds.has(noteId))
+    .flatMap(([noteId, payload]) => termsOf(noteId, payload))
+    .filter((row) => queryTerms.some((term) => row.term.startsWith(term)))
+
+  // Query words sharing a prefix fetch the same rows more than once
+  const rows = new Map<string, SearchTerm>()
+  for (const row of [...storedRows, ...memoryRows]) {
+    rows.set(`${row.noteId}:${row.term}`, row)
+  }
+
+  const docCount = (await notesDB.searchDocs.count()) + unlocked.size
+  const candidates = rank([...rows.values()], queryTerms, docCount)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+
+  const stored = await notesDB.notes.bulkGet(
+    candidates.filter((c) => !unlocked.has(c.noteId)).map((c) => c.noteId)
+  )
+  const payloads = new Map<string, NotePayload>(unlocked)
+  for (const note of stored) if (note) payloads.set(note.id, note)
+
+  return candidates.flatMap((candidate) => {
+    const payload = payloads.get(candidate.noteId)
+    if (!payload) return []
+    return [
+      {
+        noteId: candidate.noteId,
+        score: candidate.score,
+        encrypted: unlocked.has(candidate.noteId),
+        title: {
+          text: payload.title,
+          highlights: findHighlights(payload.title, queryTerms),
+        },
+        snippet: makeSnippet(payload.content, queryTerms),
+      },
+    ]
+  })
+}
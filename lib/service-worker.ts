@@ -0,0 +1,33 @@
+// Client side of public/sw.js, which cannot import from here and repeats
+// the sync tag.
+
+export const SERVICE_WORKER_URL = `/sw.js?v=${process.env.NEXT_PUBLIC_BUILD_ID}`
+export const OUTBOX_SYNC_TAG = 'notes-outbox'
+
+// Background Sync is missing from the DOM typings
+interface SyncRegistration extends ServiceWorkerRegistration {
+  sync?: { register: (tag: string) => Promise<void> }
+}
+
+export function isServiceWorkerSupported() {
+  return (
+    process.env.NODE_ENV === 'production' &&
+    typeof navigator !== 'undefined' &&
+    'serviceWorker' in navigator
+  )
+}
+
+// Asks the browser to wake the service worker once the connection returns,
+// even while the tab is in the background. Browsers without Background Sync
+// rely on the online event and the retry timer instead.
+export async function requestBackgroundSync() {
+  if (!isServiceWorkerSupported()) return
+  try {
+    const registration = (await navigator.serviceWorker.getRegistration()) as
+      | SyncRegistration
+      | undefined
+    await registration?.sync?.register(OUTBOX_SYNC_TAG)
+  } catch (error) {
+    console.error('Failed to register background sync:', error)
+  }
+}
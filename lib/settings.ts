@@ -0,0 +1,27 @@
+import type { KdfName } from '@/lib/crypto'
+import { notesDB } from '@/lib/db'
+
+export interface Settings {
+  // Days a note stays in the trash before it is purged, 0 keeps it forever
+  trashRetentionDays: number
+  // Key derivation for new password encryption; older notes are upgraded
+  // to it when unlocked
+  kdf: KdfName
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  trashRetentionDays: 30,
+  kdf: 'argon2id',
+}
+
+export async function getSettings(): Promise<Settings> {
+  const entries = await notesDB.settings.toArray()
+  const stored = Object.fromEntries(entries.map((e) => [e.key, e.value]))
+  return { ...DEFAULT_SETTINGS, ...stored }
+}
+
+export async function updateSettings(partial: Partial<Settings>) {
+  await notesDB.settings.bulkPut(
+    Object.entries(partial).map(([key, value]) => ({ key, value }))
+  )
+}
@@ -0,0 +1,175 @@
+// Public read-only links: a snapshot of a note's title and content is
+// published under a random id and served at /s/<id>. Encrypted links seal
+// the snapshot with a fresh key that only travels in the URL fragment.
+
+import {
+  decryptContentWithKey,
+  encryptContentWithKey,
+  exportKeyToString,
+  generateKey,
+  importKeyFromString,
+  type KeyEncryptedData,
+} from '@/lib/crypto'
+import type { NotePayload } from '@/lib/note-crypto'
+import { createClient } from '@/lib/supabase/client'
+
+// Random bytes in a share id
+const SHARE_ID_LENGTH = 16
+
+export const SHARE_EXPIRY_OPTIONS = [
+  { label: 'Never', duration: null },
+  { label: '1 day', duration: 24 * 60 * 60 * 1000 },
+  { label: '7 days', duration: 7 * 24 * 60 * 60 * 1000 },
+  { label: '30 days', duration: 30 * 24 * 60 * 60 * 1000 },
+] as const
+
+export interface SharedNoteRow {
+  id: string
+  note_id: string
+  user_id: string
+  title: string
+  content: string
+  encrypted_content: string | null
+  nonce: string | null
+  auth_tag: string | null
+  created_at: string
+  expires_at: string | null
+  revoked_at: string | null
+}
+
+// What readers of a link get, see get_shared_note
+export type SharedSnapshotRow = Pick<
+  SharedNoteRow,
+  | 'id'
+  | 'title'
+  | 'content'
+  | 'encrypted_content'
+  | 'nonce'
+  | 'auth_tag'
+  | 'created_at'
+  | 'expires_at'
+>
+
+export interface ShareLink {
+  id: string
+  noteId: string
+  encrypted: boolean
+  createdAt: number
+  expiresAt: number | null
+  revokedAt: number | null
+}
+
+const toTime = (value: string | null) => (value ? Date.parse(value) : null)
+
+function rowToShareLink(row: SharedNoteRow): ShareLink {
+  return {
+    id: row.id,
+    noteId: row.note_id,
+    encrypted: row.encrypted_content !== null,
+    createdAt: Date.parse(row.created_at),
+    expiresAt: toTime(row.expires_at),
+    revokedAt: toTime(row.revoked_at),
+  }
+}
+
+export function isShareActive(share: ShareLink, now = Date.now()) {
+  return !share.revokedAt && (share.expiresAt === null || share.expiresAt > now)
+}
+
+function generateShareId() {
+  const bytes = crypto.getRandomValues(new Uint8Array(SHARE_ID_LENGTH))
+  return Array.from(bytes, (b) => b.toString(36).padStart(2, '0')).join('')
+}
+
+export function shareUrl(id: string, key?: string) {
+  const url = new URL(`/s/${id}`, window.location.origin)
+  if (key) url.hash = key
+  return url.toString()
+}
+
+// Publishes a snapshot of the note, which must have reached the server.
+// The link of an encrypted share is only known here, it cannot be rebuilt
+// from the stored row.
+export async function createShare(
+  noteId: string,
+  userId: string,
+  payload: NotePayload,
+  { duration, encrypt }: { duration: number | null; encrypt: boolean }
+): Promise<{ share: ShareLink; url: string }> {
+  let sealed: KeyEncryptedData | null = null
+  let key: string | undefined
+  if (encrypt) {
+    const contentKey = await generateKey()
+    sealed = await encryptContentWithKey(JSON.stringify(payload), contentKey)
+    key = await exportKeyToString(contentKey)
+  }
+
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from('shared_notes')
+    .insert({
+      id: generateShareId(),
+      note_id: noteId,
+      user_id: userId,
+      title: sealed ? '' : payload.title,
+      content: sealed ? '' : payload.content,
+      encrypted_content: sealed?.encryptedContent ?? null,
+      nonce: sealed?.nonce ?? null,
+      auth_tag: sealed?.authTag ?? null,
+      expires_at: duration
+        ? new Date(Date.now() + duration).toISOString()
+        : null,
+    })
+    .select()
+    .single()
+  if (error) {
+    // Foreign key violation: the note is still waiting in the outbox
+    if (error.code === '23503') throw new Error('The note is not synced yet')
+    throw error
+  }
+  const share = rowToShareLink(data as SharedNoteRow)
+  return { share, url: shareUrl(share.id, key) }
+}
+
+// Newest first, revoked and expired ones included
+export async function listShares(noteId: string): Promise<ShareLink[]> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from('shared_notes')
+    .select('*')
+    .eq('note_id', noteId)
+    .order('created_at', { ascending: false })
+  if (error) throw error
+  return ((data ?? []) as SharedNoteRow[]).map(rowToShareLink)
+}
+
+export async function revokeShare(id: string) {
+  const supabase = createClient()
+  const { error } = await supabase
+    .from('shared_notes')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+  if (error) throw error
+}
+
+// Title and content of a shared snapshot. Encrypted snapshots need the key
+// from the link's fragment; a missing or wrong key rejects.
+export async function openSnapshot(
+  row: SharedSnapshotRow,
+  key: string
+): Promise<NotePayload> {
+  if (!row.encrypted_content || !row.nonce || !row.auth_tag) {
+    return { title: row.title, content: row.content }
+  }
+  if (!key) throw new Error('Missing key')
+  const json = await decryptContentWithKey(
+    {
+      encryptedContent: row.encrypted_content,
+      nonce: row.nonce,
+      authTag: row.auth_tag,
+    },
+    await importKeyFromString(key)
+  )
+  const { title, content } = JSON.parse(json) as NotePayload
+  return { title: String(title ?? ''), content: String(content ?? '') }
+}
@@ -6,6 +6,9 @@ export async function updateSession(request: NextRequest) {
     request,
   })
 
+  // Self-hosted setups sign in with the sync server, see lib/auth.ts
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL) return supabaseResponse
+
   // With Fluid compute, don't put this client in a global environment
   // variable. Always create a new one on each request.
   const supabase = createServerClient(
@@ -1,5 +1,6 @@
 import { cookies } from 'next/headers'
 import { createServerClient } from '@supabase/ssr'
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
 
 export async function createClient() {
   const cookieStore = await cookies()
@@ -27,3 +28,27 @@ export async function createClient() {
     }
   )
 }
+
+// Client for requests authenticated with a personal access token instead
+// of a session, see supabase/migrations/*_api_tokens.sql
+export function createTokenClient(token: string) {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      global: { headers: { 'x-api-token': token } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    }
+  )
+}
+
+// Client that bypasses row-level security, for server jobs that work
+// across accounts like the webhook worker. Never hand it to a request of
+// a user.
+export function createAdminClient() {
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SECRET_KEY!,
+    { auth: { persistSession: false, autoRefreshToken: false } }
+  )
+}
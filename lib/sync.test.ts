@@ -0,0 +1,129 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  expect,
+  test,
+} from 'bun:test'
+
+import { notesDB, type Note } from '@/lib/db'
+import { createMemoryRepository } from '@/lib/repositories/memory'
+import type { NotesRepository } from '@/lib/repository'
+import { SyncEngine } from '@/lib/sync'
+
+const USER = 'user-1'
+
+// The engine listens for connectivity on `window` and skips passes while
+// the browser reports being offline. Other test files run in the same
+// process and must not see a browser.
+beforeAll(() => {
+  Object.defineProperty(globalThis, 'window', {
+    value: globalThis,
+    configurable: true,
+  })
+  Object.defineProperty(navigator, 'onLine', {
+    value: true,
+    configurable: true,
+  })
+})
+
+afterAll(() => {
+  Reflect.deleteProperty(globalThis, 'window')
+  Reflect.deleteProperty(navigator, 'onLine')
+})
+
+let remote: NotesRepository
+let engine: SyncEngine
+
+function note(fields: Partial<Note> = {}): Note {
+  const now = Date.now()
+  return {
+    id: crypto.randomUUID(),
+    title: 'Title',
+    content: 'Content',
+    createdAt: now,
+    updatedAt: now,
+    userId: USER,
+    ...fields,
+  }
+}
+
+// Runs a pass and waits for it and any pass it queued to finish
+async function sync() {
+  await engine.sync()
+  while (engine.getState().isSyncing) await Bun.sleep(5)
+}
+
+// The note as another device sees it
+async function stored(id: string) {
+  const [remoteNote] = await remote.get([id])
+  return remoteNote
+}
+
+beforeEach(async () => {
+  await Promise.all(notesDB.tables.map((table) => table.clear()))
+  remote = createMemoryRepository()
+  engine = new SyncEngine(() => remote)
+  engine.start(USER)
+  await sync()
+})
+
+afterEach(() => engine.stop())
+
+test('pushes local notes and marks them synced', async () => {
+  const local = await notesDB.saveNote(note({ title: 'Local' }))
+  await sync()
+
+  expect((await stored(local.id))?.title).toBe('Local')
+  const synced = await notesDB.notes.get(local.id)
+  expect(synced?.syncStatus).toBe('synced')
+  expect(synced?.revision).toBe(1)
+  expect(await notesDB.outbox.count()).toBe(0)
+})
+
+test('pulls notes written elsewhere, however old their edit time', async () => {
+  const first = await remote.write(note({ title: 'First' }))
+  await sync()
+  expect((await notesDB.notes.get((first as Note).id))?.title).toBe('First')
+
+  // Edited offline a day ago and pushed only now
+  const late = await remote.write(
+    note({ title: 'Late', updatedAt: Date.now() - 24 * 60 * 60 * 1000 })
+  )
+  await sync()
+  expect((await notesDB.notes.get((late as Note).id))?.title).toBe('Late')
+})
+
+test('merges edits made elsewhere in the meantime', async () => {
+  const local = await notesDB.saveNote(note({ content: 'a\nb\nc' }))
+  await sync()
+
+  const base = await stored(local.id)
+  await remote.write({ ...base!, content: 'A\nb\nc' })
+  const synced = await notesDB.notes.get(local.id)
+  await notesDB.saveNote({ ...synced!, content: 'a\nb\nC' })
+  await sync()
+
+  expect((await stored(local.id))?.content).toBe('A\nb\nC')
+  expect((await notesDB.notes.get(local.id))?.content).toBe('A\nb\nC')
+  expect(await notesDB.conflicts.count()).toBe(0)
+})
+
+test('drops notes deleted elsewhere', async () => {
+  const local = await notesDB.saveNote(note())
+  await sync()
+
+  await remote.delete(local.id)
+  await sync()
+  expect(await notesDB.notes.get(local.id)).toBeUndefined()
+})
+
+test('deletes notes removed on this device', async () => {
+  const local = await notesDB.saveNote(note())
+  await sync()
+
+  await notesDB.deleteNote(local.id, USER)
+  await sync()
+  expect(await stored(local.id)).toBeUndefined()
+})
@@ -0,0 +1,857 @@
+// Offline-first sync: local writes land in IndexedDB and the outbox first,
+// this engine replays the outbox against the configured notes repository
+// and pulls remote changes, see lib/repository.ts.
+
+import {
+  notesDB,
+  type Attachment,
+  type Folder,
+  type Note,
+  type NoteRevision,
+  type OutboxEntry,
+  type ShareRole,
+  type VaultRecord,
+} from '@/lib/db'
+import { merge3 } from '@/lib/diff'
+import { createNotesRepository, type NotesRepository } from '@/lib/repository'
+import { removeFromIndex } from '@/lib/search'
+import { requestBackgroundSync } from '@/lib/service-worker'
+import { extractTags } from '@/lib/tags'
+
+const SYNC_INTERVAL = 30 * 1000 // 30 seconds
+const LOCAL_CHANGE_DEBOUNCE = 1000
+const MAX_RETRY_DELAY = 5 * 60 * 1000 // 5 minutes
+
+export interface SyncState {
+  isOnline: boolean
+  isSyncing: boolean
+  lastSyncedAt: number | null
+  lastError: string | null
+}
+
+// Database row shape of the Supabase `notes` table
+export interface NoteRow {
+  id: string
+  user_id: string
+  title: string
+  content: string
+  created_at: string
+  updated_at: string
+  deleted: boolean
+  deleted_at: string | null
+  folder_id: string | null
+  tags: string[]
+  encrypted_content: string | null
+  salt: string | null
+  nonce: string | null
+  auth_tag: string | null
+  wrapped_key: string | null
+  crypto_header: string | null
+  envelope_version: number | null
+  collab_doc_id: string | null
+  revision: number
+  // Set by the database on every write, never sent
+  modified_at?: string
+}
+
+export function noteToRow(note: Note): NoteRow {
+  return {
+    id: note.id,
+    user_id: note.ownerId ?? note.userId!,
+    title: note.title,
+    content: note.content,
+    created_at: new Date(note.createdAt).toISOString(),
+    updated_at: new Date(note.updatedAt).toISOString(),
+    deleted: !!note.deleted,
+    deleted_at: note.deletedAt ? new Date(note.deletedAt).toISOString() : null,
+    folder_id: note.folderId ?? null,
+    tags: note.tags ?? [],
+    encrypted_content: note.encryptedContent || null,
+    salt: note.salt || null,
+    nonce: note.nonce || null,
+    auth_tag: note.authTag || null,
+    wrapped_key: note.wrappedKey || null,
+    crypto_header: note.cryptoHeader || null,
+    envelope_version: note.envelopeVersion ?? null,
+    collab_doc_id: note.collabDocId ?? null,
+    revision: note.revision ?? 0,
+  }
+}
+
+export function rowToNote(row: NoteRow): Note {
+  return {
+    id: row.id,
+    title: row.title,
+    content: row.content,
+    createdAt: new Date(row.created_at).getTime(),
+    updatedAt: new Date(row.updated_at).getTime(),
+    userId: row.user_id,
+    deleted: row.deleted,
+    deletedAt: row.deleted_at ? new Date(row.deleted_at).getTime() : undefined,
+    folderId: row.folder_id,
+    tags: row.tags ?? [],
+    encryptedContent: row.encrypted_content ?? undefined,
+    salt: row.salt ?? undefined,
+    nonce: row.nonce ?? undefined,
+    authTag: row.auth_tag ?? undefined,
+    wrappedKey: row.wrapped_key ?? undefined,
+    cryptoHeader: row.crypto_header ?? undefined,
+    envelopeVersion: row.envelope_version ?? undefined,
+    collabDocId: row.collab_doc_id,
+    revision: row.revision,
+    syncStatus: 'synced',
+    baseTitle: row.title,
+    baseContent: row.content,
+  }
+}
+
+// The parts of a `note_shares` row a recipient needs
+export interface ReceivedShareRow {
+  note_id: string
+  owner_id: string
+  owner_email: string
+  role: ShareRole
+  wrapped_key: string | null
+}
+
+// Database row shape of the Supabase `note_revisions` table
+export interface RevisionRow {
+  id: string
+  note_id: string
+  user_id: string
+  title: string
+  content: string
+  created_at: string
+  encrypted_content: string | null
+  salt: string | null
+  nonce: string | null
+  auth_tag: string | null
+  wrapped_key: string | null
+  crypto_header: string | null
+  envelope_version: number | null
+}
+
+export function revisionToRow(revision: NoteRevision): RevisionRow {
+  return {
+    id: revision.id,
+    note_id: revision.noteId,
+    user_id: revision.userId!,
+    title: revision.title,
+    content: revision.content,
+    created_at: new Date(revision.createdAt).toISOString(),
+    encrypted_content: revision.encryptedContent || null,
+    salt: revision.salt || null,
+    nonce: revision.nonce || null,
+    auth_tag: revision.authTag || null,
+    wrapped_key: revision.wrappedKey || null,
+    crypto_header: revision.cryptoHeader || null,
+    envelope_version: revision.envelopeVersion ?? null,
+  }
+}
+
+export function rowToRevision(row: RevisionRow): NoteRevision {
+  return {
+    id: row.id,
+    noteId: row.note_id,
+    userId: row.user_id,
+    title: row.title,
+    content: row.content,
+    createdAt: new Date(row.created_at).getTime(),
+    encryptedContent: row.encrypted_content ?? undefined,
+    salt: row.salt ?? undefined,
+    nonce: row.nonce ?? undefined,
+    authTag: row.auth_tag ?? undefined,
+    wrappedKey: row.wrapped_key ?? undefined,
+    cryptoHeader: row.crypto_header ?? undefined,
+    envelopeVersion: row.envelope_version ?? undefined,
+  }
+}
+
+// Database row shape of the Supabase `vaults` table
+export interface VaultRow {
+  user_id: string
+  salt: string
+  wrapped_key: string
+  crypto_header: string | null
+  public_key: string | null
+  wrapped_private_key: string | null
+  created_at: string
+  updated_at: string
+}
+
+export function vaultToRow(vault: VaultRecord): VaultRow {
+  return {
+    user_id: vault.userId!,
+    salt: vault.salt,
+    wrapped_key: vault.wrappedKey,
+    crypto_header: vault.cryptoHeader || null,
+    public_key: vault.publicKey || null,
+    wrapped_private_key: vault.wrappedPrivateKey || null,
+    created_at: new Date(vault.createdAt).toISOString(),
+    updated_at: new Date(vault.updatedAt).toISOString(),
+  }
+}
+
+export function rowToVault(row: VaultRow): VaultRecord {
+  return {
+    id: row.user_id,
+    userId: row.user_id,
+    salt: row.salt,
+    wrappedKey: row.wrapped_key,
+    cryptoHeader: row.crypto_header ?? undefined,
+    publicKey: row.public_key ?? undefined,
+    wrappedPrivateKey: row.wrapped_private_key ?? undefined,
+    createdAt: new Date(row.created_at).getTime(),
+    updatedAt: new Date(row.updated_at).getTime(),
+    syncStatus: 'synced',
+  }
+}
+
+// Database row shape of the Supabase `folders` table
+export interface FolderRow {
+  id: string
+  user_id: string
+  name: string
+  parent_id: string | null
+  created_at: string
+  updated_at: string
+  deleted: boolean
+}
+
+export function folderToRow(folder: Folder): FolderRow {
+  return {
+    id: folder.id,
+    user_id: folder.userId!,
+    name: folder.name,
+    parent_id: folder.parentId,
+    created_at: new Date(folder.createdAt).toISOString(),
+    updated_at: new Date(folder.updatedAt).toISOString(),
+    deleted: !!folder.deleted,
+  }
+}
+
+export function rowToFolder(row: FolderRow): Folder {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    parentId: row.parent_id,
+    createdAt: new Date(row.created_at).getTime(),
+    updatedAt: new Date(row.updated_at).getTime(),
+    deleted: row.deleted,
+    syncStatus: 'synced',
+  }
+}
+
+// Database row shape of the Supabase `attachments` table, the bytes
+// themselves live in the `attachments` storage bucket under
+// `<user_id>/<id>`
+export interface AttachmentRow {
+  id: string
+  note_id: string
+  user_id: string
+  name: string
+  type: string
+  size: number
+  nonce: string | null
+  auth_tag: string | null
+  created_at: string
+}
+
+// Encrypted attachments keep their name and type to themselves
+export function attachmentToRow(attachment: Attachment): AttachmentRow {
+  const encrypted = !!attachment.nonce
+  return {
+    id: attachment.id,
+    note_id: attachment.noteId,
+    user_id: attachment.userId!,
+    name: encrypted ? '' : attachment.name,
+    type: encrypted ? 'application/octet-stream' : attachment.type,
+    size: attachment.size,
+    nonce: attachment.nonce ?? null,
+    auth_tag: attachment.authTag ?? null,
+    created_at: new Date(attachment.createdAt).toISOString(),
+  }
+}
+
+export const attachmentPath = (userId: string, id: string) => `${userId}/${id}`
+
+function isEncrypted(note: Note) {
+  return !!note.encryptedContent
+}
+
+function mergeText(base: string, local: string, remote: string) {
+  if (local === remote || remote === base) return local
+  if (local === base) return remote
+  return null
+}
+
+// Merges concurrent edits to a note, or returns null if they overlap
+export function mergeNotes(
+  local: Note,
+  remote: Note
+): Pick<Note, 'title' | 'content' | 'tags'> | null {
+  const title = mergeText(local.baseTitle ?? '', local.title, remote.title)
+  if (title === null) return null
+
+  // Ciphertext cannot be merged line by line, only taken as a whole
+  if (isEncrypted(local) || isEncrypted(remote)) {
+    const sameCipher =
+      local.encryptedContent === remote.encryptedContent &&
+      local.nonce === remote.nonce
+    return sameCipher ? { title, content: local.content, tags: [] } : null
+  }
+
+  const merged = merge3(local.baseContent ?? '', local.content, remote.content)
+  if (!merged.clean) {
+    // Snapshots of the same collaborative document, the shared document
+    // settles the content and the next snapshot carries it
+    if (local.collabDocId && local.collabDocId === remote.collabDocId) {
+      return { title, content: local.content, tags: extractTags(local.content) }
+    }
+    return null
+  }
+  return {
+    title,
+    content: merged.content,
+    tags: extractTags(merged.content),
+  }
+}
+
+function errorMessage(error: unknown) {
+  if (error instanceof Error) return error.message
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String(error.message)
+  }
+  return String(error)
+}
+
+export class SyncEngine {
+  private userId: string | null = null
+  private state: SyncState = {
+    isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+    isSyncing: false,
+    lastSyncedAt: null,
+    lastError: null,
+  }
+  private listeners = new Set<() => void>()
+  private cleanups: (() => void)[] = []
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+  private retryDelay = SYNC_INTERVAL
+  private rerun = false
+
+  private repository: NotesRepository | null = null
+
+  // The repository is created on first use: lib/repository.ts reaches this
+  // module through the Supabase repository and may not be loaded yet
+  constructor(private readonly createRemote: () => NotesRepository) {}
+
+  private get remote() {
+    this.repository ??= this.createRemote()
+    return this.repository
+  }
+
+  start(userId: string) {
+    if (this.userId === userId) return
+    this.stop()
+    this.userId = userId
+
+    const handleOnline = () => {
+      this.setState({ isOnline: true })
+      this.sync()
+    }
+    const handleOffline = () => this.setState({ isOnline: false })
+    // Background Sync in the service worker asks for a flush when the
+    // connection returns and retries unless the outbox ends up empty
+    const handleWorkerMessage = async (event: MessageEvent) => {
+      if (event.data?.type !== 'sync') return
+      this.setState({ isOnline: navigator.onLine })
+      await this.sync()
+      const pending = await notesDB.outbox
+        .where('userId')
+        .equals(userId)
+        .count()
+      event.ports[0]?.postMessage({ ok: pending === 0 })
+    }
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage)
+
+    // Changes made on other devices are fetched with a regular pull, so
+    // unpushed local edits still win
+    const unwatch = this.remote.watch?.(userId, {
+      onChange: () => this.requestSync(),
+      onDelete: (noteId) => this.removeDeleted(userId, noteId),
+    })
+
+    const interval = setInterval(() => this.sync(), SYNC_INTERVAL)
+    const unsubscribe = notesDB.onLocalChange(() => this.requestSync())
+
+    this.cleanups = [
+      () => window.removeEventListener('online', handleOnline),
+      () => window.removeEventListener('offline', handleOffline),
+      () =>
+        navigator.serviceWorker?.removeEventListener(
+          'message',
+          handleWorkerMessage
+        ),
+      () => unwatch?.(),
+      () => clearInterval(interval),
+      unsubscribe,
+    ]
+
+    this.sync()
+  }
+
+  stop() {
+    this.cleanups.forEach((cleanup) => cleanup())
+    this.cleanups = []
+    if (this.debounceTimer) clearTimeout(this.debounceTimer)
+    if (this.retryTimer) clearTimeout(this.retryTimer)
+    this.debounceTimer = null
+    this.retryTimer = null
+    this.userId = null
+  }
+
+  getState(): SyncState {
+    return this.state
+  }
+
+  // Called on state changes and after every sync pass that touched notes
+  subscribe(listener: () => void) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  requestSync() {
+    if (!this.state.isOnline) requestBackgroundSync()
+    if (this.debounceTimer) clearTimeout(this.debounceTimer)
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null
+      this.sync()
+    }, LOCAL_CHANGE_DEBOUNCE)
+  }
+
+  async sync() {
+    const userId = this.userId
+    if (!userId) return
+    if (!this.state.isOnline) return
+    if (this.state.isSyncing) {
+      this.rerun = true
+      return
+    }
+
+    this.setState({ isSyncing: true })
+    let failed = false
+    try {
+      failed = !(await this.push(userId))
+      if (this.userId === userId) await this.pull(userId)
+      if (this.userId === userId) await this.syncVault(userId)
+      if (this.userId === userId) await this.syncFolders(userId)
+      if (this.userId === userId) await this.syncAttachments(userId)
+      this.setState({
+        lastSyncedAt: Date.now(),
+        lastError: failed ? this.state.lastError : null,
+      })
+    } catch (error) {
+      failed = true
+      this.setState({ lastError: errorMessage(error) })
+    } finally {
+      this.setState({ isSyncing: false })
+    }
+
+    if (failed) {
+      this.scheduleRetry()
+    } else {
+      this.retryDelay = SYNC_INTERVAL
+    }
+
+    if (this.rerun) {
+      this.rerun = false
+      this.sync()
+    }
+  }
+
+  // Replays the outbox in insertion order. Returns false if any entry failed.
+  private async push(userId: string): Promise<boolean> {
+    const entries = await notesDB.outbox
+      .where('userId')
+      .equals(userId)
+      .sortBy('id')
+
+    let ok = true
+    for (const entry of entries) {
+      if (!navigator.onLine) {
+        this.setState({ isOnline: false })
+        return false
+      }
+
+      try {
+        if (
+          entry.op === 'upsert' &&
+          (await notesDB.conflicts.get(entry.noteId))
+        ) {
+          continue
+        }
+        const pushed = await this.pushEntry(entry)
+        if (pushed === 'conflict') {
+          if (!(await this.handleConflict(entry.noteId))) ok = false
+          continue
+        }
+        await this.completeEntry(entry, pushed)
+      } catch (error) {
+        ok = false
+        const lastError = errorMessage(error)
+        await notesDB.transaction('rw', notesDB.notes, notesDB.outbox, () =>
+          Promise.all([
+            notesDB.outbox.update(entry.id!, {
+              attempts: entry.attempts + 1,
+              lastError,
+            }),
+            entry.op !== 'revision' &&
+              notesDB.notes.update(entry.noteId, { syncStatus: 'failed' }),
+          ])
+        )
+        this.setState({ lastError })
+      }
+    }
+    return ok
+  }
+
+  // Writes the entry to the remote repository. Upserts are conditional on
+  // the revision the local copy is based on; 'conflict' means another
+  // device won.
+  private async pushEntry(
+    entry: OutboxEntry
+  ): Promise<Note | 'conflict' | null> {
+    if (entry.op === 'delete') {
+      await this.remote.delete(entry.noteId)
+      return null
+    }
+
+    if (entry.op === 'revision') {
+      const revision = await notesDB.revisions.get(entry.revisionId!)
+      // Backends without history drop the entry
+      if (revision) await this.remote.saveRevision?.(revision)
+      return null
+    }
+
+    const note = await notesDB.notes.get(entry.noteId)
+    if (!note) return null
+    return this.remote.write(note)
+  }
+
+  private async completeEntry(entry: OutboxEntry, pushed: Note | null) {
+    await notesDB.transaction('rw', notesDB.notes, notesDB.outbox, async () => {
+      const note = await notesDB.notes.get(entry.noteId)
+      if (pushed && note) {
+        await notesDB.notes.update(entry.noteId, {
+          revision: pushed.revision,
+          baseTitle: pushed.title,
+          baseContent: pushed.content,
+        })
+      }
+
+      // The note was edited again while this write was in flight, keep the
+      // entry so the newer state goes out on the next pass.
+      if (pushed && note && note.updatedAt !== pushed.updatedAt) {
+        await notesDB.outbox.update(entry.id!, { attempts: 0 })
+        this.rerun = true
+        return
+      }
+
+      await notesDB.outbox.delete(entry.id!)
+      const remaining = await notesDB.outbox
+        .where('noteId')
+        .equals(entry.noteId)
+        .filter((e) => e.op !== 'revision')
+        .count()
+      if (!remaining) {
+        await notesDB.notes.update(entry.noteId, { syncStatus: 'synced' })
+      }
+    })
+  }
+
+  // Rebases a rejected write onto the remote version. Clean merges are
+  // queued again; overlapping edits are parked for the user to resolve.
+  // Returns false if the note still needs attention.
+  private async handleConflict(noteId: string): Promise<boolean> {
+    const [stored] = await this.remote.get([noteId])
+    const local = await notesDB.notes.get(noteId)
+    if (!local) return true
+
+    if (!stored) {
+      // Deleted remotely in the meantime, push it again as a new note
+      await notesDB.notes.update(noteId, { revision: undefined })
+      this.rerun = true
+      return true
+    }
+
+    // Shared notes stay with this account locally
+    const remote: Note = {
+      ...stored,
+      userId: local.userId,
+      ownerId: local.ownerId,
+      ownerEmail: local.ownerEmail,
+      sharedRole: local.sharedRole,
+      sharedKey: local.sharedKey,
+    }
+    const merged = mergeNotes(local, remote)
+
+    if (merged) {
+      await notesDB.notes.put({
+        ...local,
+        ...merged,
+        revision: remote.revision,
+        baseTitle: remote.title,
+        baseContent: remote.content,
+        syncStatus: 'pending',
+      })
+      this.rerun = true
+      return true
+    }
+
+    await notesDB.transaction(
+      'rw',
+      notesDB.notes,
+      notesDB.conflicts,
+      async () => {
+        await notesDB.conflicts.put({
+          noteId,
+          remote,
+          detectedAt: Date.now(),
+        })
+        await notesDB.notes.update(noteId, { syncStatus: 'conflict' })
+      }
+    )
+    return false
+  }
+
+  // Notes of this account along with the ones shared with it
+  private async pull(userId: string) {
+    // The Supabase cursor used to be a client time, its old key is left
+    // behind so devices pull everything once
+    const cursorKey = `lastPulledAt:${this.remote.kind}:${userId}`
+    const since = (await notesDB.getMeta<string>(cursorKey)) ?? null
+
+    const changes = await this.remote.changes(userId, since)
+    const shares = changes.shares ?? new Map<string, Partial<Note>>()
+
+    // Notes shared since the last pull may not have changed since then
+    const known = new Set([
+      ...changes.notes.map((note) => note.id),
+      ...(await notesDB.notes.where('userId').equals(userId).primaryKeys()),
+    ])
+    const unseen = [...shares.keys()].filter((id) => !known.has(id))
+    const sharedNotes = unseen.length ? await this.remote.get(unseen) : []
+
+    let incoming: Note[] = []
+    await notesDB.transaction('rw', notesDB.notes, notesDB.outbox, async () => {
+      const pendingIds = new Set(
+        (await notesDB.outbox.where('userId').equals(userId).toArray())
+          .filter((entry) => entry.op !== 'revision')
+          .map((entry) => entry.noteId)
+      )
+
+      // Local changes that have not been pushed yet win over remote ones
+      incoming = [...changes.notes, ...sharedNotes]
+        .filter((note) => !pendingIds.has(note.id))
+        .flatMap((note) => {
+          if (note.userId === userId) return [note]
+          const share = shares.get(note.id)
+          return share ? [{ ...note, userId, ...share }] : []
+        })
+      await notesDB.notes.bulkPut(incoming)
+
+      // Roles and keys of shared notes may change without the note itself,
+      // and revoked shares take the local copy with them
+      const localShared = await notesDB.notes
+        .where('userId')
+        .equals(userId)
+        .filter((note) => !!note.ownerId)
+        .toArray()
+      for (const note of localShared) {
+        const share = shares.get(note.id)
+        if (!share) {
+          await notesDB.notes.delete(note.id)
+          await notesDB.outbox.where('noteId').equals(note.id).delete()
+        } else {
+          await notesDB.notes.update(note.id, share)
+        }
+      }
+
+      // A full pull also tells us which synced notes were removed remotely,
+      // some backends report removals on every pull
+      const remoteIds = new Set(changes.notes.map((note) => note.id))
+      const removed = new Set(changes.removed)
+      await notesDB.notes
+        .where('userId')
+        .equals(userId)
+        .filter(
+          (note) =>
+            note.syncStatus === 'synced' &&
+            !pendingIds.has(note.id) &&
+            (removed.has(note.id) || (!since && !remoteIds.has(note.id)))
+        )
+        .delete()
+    })
+
+    // Notes encrypted on another device leave the search index right away
+    for (const note of incoming) {
+      if (note.encryptedContent) await removeFromIndex(note.id)
+    }
+
+    if (changes.cursor && changes.cursor !== since) {
+      await notesDB.setMeta(cursorKey, changes.cursor)
+    }
+  }
+
+  // Drops a note deleted on another device, unless local changes are
+  // waiting to be pushed, which recreate it
+  private async removeDeleted(userId: string, noteId?: string) {
+    if (!noteId) return
+    const removed = await notesDB.transaction(
+      'rw',
+      notesDB.notes,
+      notesDB.outbox,
+      async () => {
+        const pending = await notesDB.outbox
+          .where('noteId')
+          .equals(noteId)
+          .filter((entry) => entry.op !== 'revision')
+          .count()
+        if (pending) return 0
+        return notesDB.notes
+          .where('id')
+          .equals(noteId)
+          .filter((note) => note.userId === userId)
+          .delete()
+      }
+    )
+    if (removed) this.listeners.forEach((listener) => listener())
+  }
+
+  // Fetches the account vault, replacing the local copy unless that has
+  // changes of its own waiting to be pushed
+  async pullVault(userId: string) {
+    if (!this.remote.getVault) return
+    const remote = await this.remote.getVault(userId)
+    if (!remote) return
+
+    const local = await notesDB.vaults.get(userId)
+    if (
+      !local ||
+      (local.syncStatus !== 'pending' && remote.updatedAt > local.updatedAt)
+    ) {
+      await notesDB.vaults.put(remote)
+    }
+  }
+
+  private async syncVault(userId: string) {
+    if (!this.remote.saveVault) return
+    const local = await notesDB.vaults.get(userId)
+    if (local?.syncStatus === 'pending') {
+      await this.remote.saveVault(local)
+      await notesDB.vaults
+        .where('id')
+        .equals(userId)
+        .filter((v) => v.updatedAt === local.updatedAt)
+        .modify({ syncStatus: 'synced' })
+      return
+    }
+    await this.pullVault(userId)
+  }
+
+  private async syncFolders(userId: string) {
+    if (!this.remote.getFolders || !this.remote.saveFolders) return
+    const pending = await notesDB.folders
+      .where('userId')
+      .equals(userId)
+      .filter((f) => f.syncStatus === 'pending')
+      .toArray()
+
+    if (pending.length > 0) {
+      await this.remote.saveFolders(pending)
+      for (const folder of pending) {
+        await notesDB.folders
+          .where('id')
+          .equals(folder.id)
+          .filter((f) => f.updatedAt === folder.updatedAt)
+          .modify({ syncStatus: 'synced' })
+      }
+    }
+
+    for (const remote of await this.remote.getFolders(userId)) {
+      const local = await notesDB.folders.get(remote.id)
+      if (
+        !local ||
+        (local.syncStatus !== 'pending' && remote.updatedAt > local.updatedAt)
+      ) {
+        await notesDB.folders.put(remote)
+      }
+    }
+  }
+
+  // Uploads new attachments of this account and deletes collected ones.
+  // Attachments are never pulled in bulk, see pullAttachment.
+  private async syncAttachments(userId: string) {
+    const remote = this.remote
+    if (!remote.saveAttachment || !remote.deleteAttachment) return
+    const pending = await notesDB.attachments
+      .where('userId')
+      .equals(userId)
+      .filter((a) => a.syncStatus === 'pending')
+      .toArray()
+
+    for (const attachment of pending) {
+      if (attachment.deleted) {
+        await remote.deleteAttachment(attachment)
+        await notesDB.attachments.delete(attachment.id)
+        continue
+      }
+      // Otherwise the note is still waiting in the outbox
+      if (await remote.saveAttachment(attachment)) {
+        await notesDB.attachments.update(attachment.id, {
+          syncStatus: 'synced',
+        })
+      }
+    }
+  }
+
+  // Downloads an attachment this device has not seen, for instance one
+  // added on another device or to a note shared with this account
+  async pullAttachment(id: string): Promise<Attachment | null> {
+    if (!this.userId || !this.state.isOnline) return null
+    if (!this.remote.getAttachment) return null
+    const attachment = await this.remote.getAttachment(id)
+    if (attachment) await notesDB.attachments.put(attachment)
+    return attachment
+  }
+
+  // History is fetched on demand instead of on every pull
+  async pullRevisions(noteId: string) {
+    if (!this.userId || !this.state.isOnline) return
+    if (!this.remote.revisions) return
+    await notesDB.revisions.bulkPut(await this.remote.revisions(noteId))
+  }
+
+  private scheduleRetry() {
+    requestBackgroundSync()
+    if (this.retryTimer) clearTimeout(this.retryTimer)
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      this.sync()
+    }, this.retryDelay)
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY)
+  }
+
+  private setState(partial: Partial<SyncState>) {
+    this.state = { ...this.state, ...partial }
+    this.listeners.forEach((listener) => listener())
+  }
+}
+
+export const syncEngine = new SyncEngine(() => createNotesRepository())
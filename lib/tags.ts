@@ -0,0 +1,30 @@
+// `#tag` syntax in markdown. Tags are case-insensitive and may be nested
+// with slashes, like #work/meetings.
+
+const TAG = /(^|[^\p{L}\p{N}_&/#])#([\p{L}\p{N}_][\p{L}\p{N}_/-]*)/gu
+
+// Code can contain '#' for other reasons (CSS colors, shell comments)
+function stripCode(markdown: string) {
+  return markdown
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, '')
+    .replace(/`[^`\n]*`/g, '')
+}
+
+export function normalizeTag(tag: string) {
+  return tag.replace(/^#/, '').replace(/\/+$/, '').toLowerCase()
+}
+
+export function extractTags(markdown: string): string[] {
+  const tags = new Set<string>()
+  for (const match of stripCode(markdown).matchAll(TAG)) {
+    const tag = normalizeTag(match[2])
+    // A number alone is an issue reference or a heading like #1, not a tag
+    if (tag && !/^\d+$/.test(tag)) tags.add(tag)
+  }
+  return [...tags].sort()
+}
+
+// True when `tag` is `filter` or nested below it
+export function matchesTag(tag: string, filter: string) {
+  return tag === filter || tag.startsWith(`${filter}/`)
+}
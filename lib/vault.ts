@@ -0,0 +1,252 @@
+// Account-level vault: one master passphrase unlocks a data-encryption key
+// (DEK) for the session, and every vault note carries its own content key
+// wrapped with that DEK. Changing the passphrase only re-wraps the DEK.
+
+import {
+  currentHeader,
+  deriveKey,
+  exportPublicKey,
+  generateKey,
+  generateKeyPair,
+  generateSalt,
+  isHeaderOutdated,
+  parseHeader,
+  saltFromBase64,
+  serializeHeader,
+  unwrapKey,
+  unwrapKeyWithPrivateKey,
+  unwrapPrivateKey,
+  wrapKey,
+  wrapPrivateKey,
+} from '@/lib/crypto'
+import { notesDB, type VaultRecord } from '@/lib/db'
+
+const LOCAL_VAULT_ID = 'local'
+
+// Unlocked DEKs by vault id, in memory for the current session only
+const unlockedKeys = new Map<string, CryptoKey>()
+// Unwrapped content keys by wrapped key, so each note is unwrapped once
+const contentKeys = new Map<string, CryptoKey>()
+// Private keys of unlocked account vaults, which open notes shared with
+// the account
+const privateKeys = new Map<string, CryptoKey>()
+
+const listeners = new Set<() => void>()
+
+function notify() {
+  listeners.forEach((listener) => listener())
+}
+
+export function vaultId(userId?: string) {
+  return userId ?? LOCAL_VAULT_ID
+}
+
+export function onVaultChange(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export async function getVault(userId?: string) {
+  return notesDB.vaults.get(vaultId(userId))
+}
+
+export function isVaultUnlocked(userId?: string) {
+  return unlockedKeys.has(vaultId(userId))
+}
+
+// Wraps the DEK under a passphrase with a fresh salt and the current KDF
+async function sealVaultKey(dek: CryptoKey, passphrase: string) {
+  const salt = generateSalt()
+  const header = currentHeader()
+  const kek = await deriveKey(passphrase, saltFromBase64(salt), header)
+  return {
+    salt,
+    wrappedKey: await wrapKey(dek, kek),
+    cryptoHeader: serializeHeader(header),
+  }
+}
+
+// Key pair for receiving shared notes, the private key wrapped with the DEK
+async function createKeyPair(dek: CryptoKey) {
+  const { publicKey, privateKey } = await generateKeyPair()
+  return {
+    privateKey,
+    fields: {
+      publicKey: await exportPublicKey(publicKey),
+      wrappedPrivateKey: await wrapPrivateKey(privateKey, dek),
+    },
+  }
+}
+
+// Opens the key pair of an account vault, creating it for vaults made
+// before notes could be shared
+async function openKeyPair(id: string, dek: CryptoKey) {
+  const vault = await notesDB.vaults.get(id)
+  if (!vault?.userId) return
+  if (vault.wrappedPrivateKey) {
+    try {
+      privateKeys.set(id, await unwrapPrivateKey(vault.wrappedPrivateKey, dek))
+    } catch {}
+    return
+  }
+  const keyPair = await createKeyPair(dek)
+  await notesDB.vaults.put({
+    ...vault,
+    ...keyPair.fields,
+    updatedAt: Date.now(),
+    syncStatus: 'pending',
+  })
+  privateKeys.set(id, keyPair.privateKey)
+}
+
+export async function createVault(passphrase: string, userId?: string) {
+  const dek = await generateKey()
+  const keyPair = userId ? await createKeyPair(dek) : null
+  const now = Date.now()
+
+  const vault: VaultRecord = {
+    id: vaultId(userId),
+    userId,
+    ...(await sealVaultKey(dek, passphrase)),
+    ...keyPair?.fields,
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: userId ? 'pending' : undefined,
+  }
+  await notesDB.vaults.put(vault)
+  unlockedKeys.set(vault.id, dek)
+  if (keyPair) privateKeys.set(vault.id, keyPair.privateKey)
+  notify()
+  return vault
+}
+
+export async function openVault(vault: VaultRecord, passphrase: string) {
+  const kek = await deriveKey(
+    passphrase,
+    saltFromBase64(vault.salt),
+    parseHeader(vault.cryptoHeader)
+  )
+  try {
+    return await unwrapKey(vault.wrappedKey, kek)
+  } catch {
+    throw new Error('Invalid passphrase')
+  }
+}
+
+// Unlocks the vault for this session. Other vaults on this device that
+// accept the same passphrase (such as the one used before signing in) are
+// unlocked too, so notes moved between them stay readable.
+export async function unlockVault(passphrase: string, userId?: string) {
+  const vault = await getVault(userId)
+  if (!vault) throw new Error('No vault')
+  const dek = await openVault(vault, passphrase)
+  unlockedKeys.set(vault.id, dek)
+
+  // Re-wrap with the current KDF parameters; notes are not affected
+  if (isHeaderOutdated(vault.cryptoHeader)) {
+    await notesDB.vaults.put({
+      ...vault,
+      ...(await sealVaultKey(dek, passphrase)),
+      updatedAt: Date.now(),
+      syncStatus: vault.userId ? 'pending' : undefined,
+    })
+  }
+  await openKeyPair(vault.id, dek)
+
+  for (const other of await notesDB.vaults.toArray()) {
+    if (other.id === vault.id || unlockedKeys.has(other.id)) continue
+    try {
+      unlockedKeys.set(other.id, await openVault(other, passphrase))
+    } catch {}
+  }
+  notify()
+}
+
+export function lockVault() {
+  unlockedKeys.clear()
+  contentKeys.clear()
+  privateKeys.clear()
+  notify()
+}
+
+export async function changeVaultPassphrase(
+  currentPassphrase: string,
+  newPassphrase: string,
+  userId?: string
+) {
+  const vault = await getVault(userId)
+  if (!vault) throw new Error('No vault')
+
+  const dek = await openVault(vault, currentPassphrase)
+
+  await notesDB.vaults.put({
+    ...vault,
+    ...(await sealVaultKey(dek, newPassphrase)),
+    updatedAt: Date.now(),
+    syncStatus: vault.userId ? 'pending' : undefined,
+  })
+  unlockedKeys.set(vault.id, dek)
+  notify()
+}
+
+// New content key for a note, wrapped with the unlocked vault key
+export async function createNoteKey(userId?: string) {
+  const dek = unlockedKeys.get(vaultId(userId))
+  if (!dek) throw new Error('Vault is locked')
+
+  const key = await generateKey()
+  const wrappedKey = await wrapKey(key, dek)
+  contentKeys.set(wrappedKey, key)
+  return { key, wrappedKey }
+}
+
+// Content key of a vault note, or null while no matching vault is
+// unlocked. Notes shared by another account are opened with `sharedKey`.
+export async function getNoteKey(wrappedKey: string, sharedKey?: string) {
+  const cached = contentKeys.get(wrappedKey)
+  if (cached) return cached
+
+  for (const dek of unlockedKeys.values()) {
+    try {
+      const key = await unwrapKey(wrappedKey, dek)
+      contentKeys.set(wrappedKey, key)
+      return key
+    } catch {}
+  }
+  if (!sharedKey) return null
+  for (const privateKey of privateKeys.values()) {
+    try {
+      const key = await unwrapKeyWithPrivateKey(sharedKey, privateKey)
+      contentKeys.set(wrappedKey, key)
+      return key
+    } catch {}
+  }
+  return null
+}
+
+// Signing in adopts the signed-out vault when the account has none yet
+export async function migrateLocalVault(userId: string) {
+  const local = await notesDB.vaults.get(LOCAL_VAULT_ID)
+  if (!local || (await getVault(userId))) return
+
+  await notesDB.transaction('rw', notesDB.vaults, async () => {
+    await notesDB.vaults.delete(LOCAL_VAULT_ID)
+    await notesDB.vaults.put({
+      ...local,
+      id: userId,
+      userId,
+      updatedAt: Date.now(),
+      syncStatus: 'pending',
+    })
+  })
+
+  const dek = unlockedKeys.get(LOCAL_VAULT_ID)
+  if (dek) {
+    unlockedKeys.delete(LOCAL_VAULT_ID)
+    unlockedKeys.set(userId, dek)
+    await openKeyPair(userId, dek)
+  }
+  notify()
+}
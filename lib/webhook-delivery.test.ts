@@ -0,0 +1,172 @@
+import { afterEach, expect, test } from 'bun:test'
+
+import {
+  isPublicAddress,
+  MAX_ATTEMPTS,
+  retryDelay,
+  sendDelivery,
+  SIGNATURE_HEADER,
+  signPayload,
+  verifySignature,
+  type PendingDelivery,
+} from '@/lib/webhook-delivery'
+
+const SECRET = 'whsec_test'
+const NOW = Date.UTC(2026, 9, 19)
+
+function delivery(fields: Partial<PendingDelivery> = {}): PendingDelivery {
+  return {
+    id: crypto.randomUUID(),
+    event: 'note.updated',
+    payload: { noteId: 'note-1' },
+    attempts: 0,
+    url: 'http://hooks.example.com/receive',
+    secret: SECRET,
+    ...fields,
+  }
+}
+
+let server: ReturnType<typeof Bun.serve> | undefined
+
+afterEach(() => server?.stop(true))
+
+test('signs payloads the way receivers check them', async () => {
+  const header = await signPayload(SECRET, '{"a":1}', NOW)
+  expect(header).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/)
+
+  expect(await verifySignature(SECRET, '{"a":1}', header, { now: NOW })).toBe(
+    true
+  )
+  expect(await verifySignature('other', '{"a":1}', header, { now: NOW })).toBe(
+    false
+  )
+  expect(await verifySignature(SECRET, '{"a":2}', header, { now: NOW })).toBe(
+    false
+  )
+  expect(await verifySignature(SECRET, '{"a":1}', 'v1=abc', { now: NOW })).toBe(
+    false
+  )
+})
+
+test('rejects signatures older than the tolerance', async () => {
+  const header = await signPayload(SECRET, 'body', NOW)
+  const later = { now: NOW + 6 * 60 * 1000 }
+  expect(await verifySignature(SECRET, 'body', header, later)).toBe(false)
+})
+
+test('tells public addresses from internal ones', () => {
+  for (const address of [
+    '93.184.216.34',
+    '2606:4700::1111',
+    '::ffff:8.8.8.8',
+  ]) {
+    expect(isPublicAddress(address)).toBe(true)
+  }
+  for (const address of [
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '224.0.0.1',
+    '::1',
+    '[::1]',
+    '::',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+    '::ffff:7f00:1',
+    'localhost',
+  ]) {
+    expect(isPublicAddress(address)).toBe(false)
+  }
+})
+
+test('backs off exponentially up to six hours', () => {
+  expect(retryDelay(1)).toBe(30 * 1000)
+  expect(retryDelay(2)).toBe(60 * 1000)
+  expect(retryDelay(5)).toBe(16 * 30 * 1000)
+  expect(retryDelay(20)).toBe(6 * 60 * 60 * 1000)
+})
+
+test('schedules a retry after a failed attempt and gives up at the last', async () => {
+  const options = {
+    lookup: async () => ['93.184.216.34'],
+    post: async () => 500,
+    now: () => NOW,
+  }
+
+  expect(await sendDelivery(delivery({ attempts: 2 }), options)).toEqual({
+    status: 'pending',
+    statusCode: 500,
+    error: 'HTTP 500',
+    nextAttemptAt: NOW + retryDelay(3),
+  })
+  expect(
+    await sendDelivery(delivery({ attempts: MAX_ATTEMPTS - 1 }), options)
+  ).toMatchObject({ status: 'failed', nextAttemptAt: null })
+})
+
+test('does not connect to internal addresses', async () => {
+  let posted = false
+  const result = await sendDelivery(delivery(), {
+    lookup: async () => ['93.184.216.34', '10.0.0.1'],
+    post: async () => {
+      posted = true
+      return 200
+    },
+  })
+  expect(result).toMatchObject({ error: 'The address is not public' })
+  expect(posted).toBe(false)
+
+  const literal = await sendDelivery(
+    delivery({ url: 'http://[::1]:8080/receive' })
+  )
+  expect(literal).toMatchObject({ error: 'The address is not public' })
+})
+
+test('delivers to the address that was checked', async () => {
+  const received: { host: string | null; body: string; valid: boolean }[] = []
+  server = Bun.serve({
+    port: 0,
+    hostname: '127.0.0.1',
+    async fetch(request) {
+      const body = await request.text()
+      received.push({
+        host: request.headers.get('host'),
+        body,
+        valid: await verifySignature(
+          SECRET,
+          body,
+          request.headers.get(SIGNATURE_HEADER) ?? ''
+        ),
+      })
+      return new Response(null, { status: 204 })
+    },
+  })
+
+  // The name resolves once, however it would resolve afterwards
+  let lookups = 0
+  const sent = delivery({
+    url: `http://hooks.example.com:${server.port}/receive`,
+  })
+  const result = await sendDelivery(sent, {
+    lookup: async () => {
+      lookups++
+      return ['127.0.0.1']
+    },
+    allowAddress: (address) => address === '127.0.0.1',
+  })
+
+  expect(result).toEqual({ status: 'succeeded', statusCode: 204 })
+  expect(lookups).toBe(1)
+  expect(received).toEqual([
+    {
+      host: `hooks.example.com:${server.port}`,
+      body: JSON.stringify({ id: sent.id, noteId: 'note-1' }),
+      valid: true,
+    },
+  ])
+})
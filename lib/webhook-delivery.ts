@@ -0,0 +1,294 @@
+// Sends queued webhook deliveries, see supabase/migrations/*_webhooks.sql.
+// Each request carries the JSON payload signed with the webhook's secret:
+//
+//   x-mcx-signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+//
+// Failed deliveries are retried with exponential backoff until
+// MAX_ATTEMPTS. Storage, DNS and the network are passed in, so the worker
+// can run against scripts/webhook-receiver.mjs or any other stand-in.
+//
+// The worker runs inside our network, so it only talks to public
+// addresses, and keeps nothing of a response but its status code. The
+// host name is resolved once and the request goes to the address that was
+// checked, so a second answer from DNS cannot point it elsewhere.
+
+export const SIGNATURE_HEADER = 'x-mcx-signature'
+export const MAX_ATTEMPTS = 8
+
+const FIRST_RETRY_DELAY = 30 * 1000 // 30 seconds
+const MAX_RETRY_DELAY = 6 * 60 * 60 * 1000 // 6 hours
+const REQUEST_TIMEOUT = 10 * 1000
+
+export interface PendingDelivery {
+  id: string
+  event: string
+  payload: Record<string, unknown>
+  // Attempts made before this one
+  attempts: number
+  url: string
+  secret: string
+}
+
+export type DeliveryResult =
+  | { status: 'succeeded'; statusCode: number }
+  | {
+      status: 'pending' | 'failed'
+      statusCode: number | null
+      error: string
+      nextAttemptAt: number | null
+    }
+
+export interface DeliveryStore {
+  // Deliveries that are due, held back from other workers until completed
+  claim(limit: number, onlyId?: string): Promise<PendingDelivery[]>
+  complete(delivery: PendingDelivery, result: DeliveryResult): Promise<void>
+}
+
+type Lookup = (hostname: string) => Promise<string[]>
+
+interface OutgoingRequest {
+  // Where to connect, already checked
+  address: string
+  headers: Record<string, string>
+  body: string
+}
+
+// Posts the request and answers with the status code of the response
+type Post = (url: string, request: OutgoingRequest) => Promise<number>
+
+// Every address the host name resolves to
+async function lookupAll(hostname: string) {
+  const { lookup } = await import('node:dns/promises')
+  const addresses = await lookup(hostname, { all: true, verbatim: true })
+  return addresses.map((entry) => entry.address)
+}
+
+function parseIPv4(address: string) {
+  const parts = address.split('.')
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) {
+    return null
+  }
+  const bytes = parts.map(Number)
+  return bytes.every((byte) => byte <= 255) ? bytes : null
+}
+
+// False for loopback, private, link-local, shared, multicast and other
+// reserved ranges, which must not be reachable through a webhook
+export function isPublicAddress(address: string) {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase()
+  const v4 = parseIPv4(ip)
+  if (v4) {
+    const [a, b] = v4
+    return !(
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 192 && b === 0 && v4[2] === 0) ||
+      (a === 198 && (b === 18 || b === 19))
+    )
+  }
+  if (!ip.includes(':')) return false
+  // IPv4 addresses mapped into IPv6 are judged as IPv4
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return isPublicAddress(mapped[1])
+  if (ip === '::' || ip === '::1' || ip.startsWith('::ffff:')) return false
+  return !/^(f[cd]|fe[89ab]|ff)/.test(ip)
+}
+
+// Refuses destinations that resolve to any address that is not allowed,
+// and returns the one to connect to
+async function checkDestination(
+  url: string,
+  lookup: Lookup,
+  allowAddress: (address: string) => boolean
+) {
+  const { hostname } = new URL(url)
+  const addresses =
+    parseIPv4(hostname) || hostname.startsWith('[')
+      ? [hostname.replace(/^\[|\]$/g, '')]
+      : await lookup(hostname)
+  if (!addresses.length || !addresses.every(allowAddress)) {
+    throw new Error('The address is not public')
+  }
+  return addresses[0]
+}
+
+// Connects to `address` whatever the host name resolves to by now. The
+// URL still names the host, for the Host header and TLS.
+async function postToAddress(
+  url: string,
+  { address, headers, body }: OutgoingRequest
+) {
+  const target = new URL(url)
+  const http = await import('node:http')
+  const https = await import('node:https')
+  const request: typeof http.request =
+    target.protocol === 'https:' ? https.request : http.request
+  const family = address.includes(':') ? 6 : 4
+
+  return new Promise<number>((resolve, reject) => {
+    const outgoing = request(
+      target,
+      {
+        method: 'POST',
+        headers: { ...headers, 'content-length': Buffer.byteLength(body) },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+        lookup: (_hostname, options, callback) => {
+          if (options.all) {
+            callback(null, [{ address, family }])
+          } else {
+            callback(null, address, family)
+          }
+        },
+      },
+      (response) => {
+        // The body is not kept, it would hand the owner whatever the
+        // destination answers
+        response.resume()
+        resolve(response.statusCode ?? 0)
+      }
+    )
+    outgoing.on('error', reject)
+    outgoing.end(body)
+  })
+}
+
+export function retryDelay(attempts: number) {
+  return Math.min(FIRST_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY)
+}
+
+async function hmac(secret: string, message: string) {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    key,
+    encoder.encode(message)
+  )
+  return Array.from(new Uint8Array(signature), (b) =>
+    b.toString(16).padStart(2, '0')
+  ).join('')
+}
+
+export async function signPayload(
+  secret: string,
+  body: string,
+  timestamp: number
+) {
+  const seconds = Math.floor(timestamp / 1000)
+  return `t=${seconds},v1=${await hmac(secret, `${seconds}.${body}`)}`
+}
+
+// Checks a signature header the way receivers should, rejecting signatures
+// older than `tolerance` to stop replays
+export async function verifySignature(
+  secret: string,
+  body: string,
+  header: string,
+  { now = Date.now(), tolerance = 5 * 60 * 1000 } = {}
+) {
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => part.split('=') as [string, string])
+  )
+  const seconds = Number(parts.t)
+  if (!Number.isFinite(seconds) || !parts.v1) return false
+  if (Math.abs(now - seconds * 1000) > tolerance) return false
+  const expected = await hmac(secret, `${seconds}.${body}`)
+  // Compared in constant time, so timing does not reveal how much matched
+  let diff = expected.length ^ parts.v1.length
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ (parts.v1.charCodeAt(i) || 0)
+  }
+  return diff === 0
+}
+
+interface DeliveryOptions {
+  post?: Post
+  lookup?: Lookup
+  // Addresses the worker may connect to, only public ones by default
+  allowAddress?: (address: string) => boolean
+  now?: () => number
+}
+
+// Sends one delivery and decides what happens to it next
+export async function sendDelivery(
+  delivery: PendingDelivery,
+  {
+    post = postToAddress,
+    lookup = lookupAll,
+    allowAddress = isPublicAddress,
+    now = Date.now,
+  }: DeliveryOptions = {}
+): Promise<DeliveryResult> {
+  const body = JSON.stringify({ id: delivery.id, ...delivery.payload })
+  const attempts = delivery.attempts + 1
+  let statusCode: number | null = null
+  let error: string
+  try {
+    const address = await checkDestination(delivery.url, lookup, allowAddress)
+    // Redirects are not followed, they would lead past the check
+    statusCode = await post(delivery.url, {
+      address,
+      headers: {
+        'content-type': 'application/json',
+        'user-agent': 'MCX.NOTES-Webhooks',
+        'x-mcx-event': delivery.event,
+        'x-mcx-delivery': delivery.id,
+        [SIGNATURE_HEADER]: await signPayload(delivery.secret, body, now()),
+      },
+      body,
+    })
+    if (statusCode >= 200 && statusCode < 300) {
+      return { status: 'succeeded', statusCode }
+    }
+    error = `HTTP ${statusCode}`
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e)
+  }
+
+  if (attempts >= MAX_ATTEMPTS) {
+    return { status: 'failed', statusCode, error, nextAttemptAt: null }
+  }
+  return {
+    status: 'pending',
+    statusCode,
+    error,
+    nextAttemptAt: now() + retryDelay(attempts),
+  }
+}
+
+// Sends the deliveries that are due, or only `onlyId`. Returns how many
+// were sent successfully and how many failed.
+export async function deliverWebhooks(
+  store: DeliveryStore,
+  {
+    limit = 50,
+    onlyId,
+    ...options
+  }: DeliveryOptions & { limit?: number; onlyId?: string } = {}
+) {
+  const deliveries = await store.claim(limit, onlyId)
+  let succeeded = 0
+  let failed = 0
+  for (const delivery of deliveries) {
+    const result = await sendDelivery(delivery, options)
+    await store.complete(delivery, result)
+    if (result.status === 'succeeded') {
+      succeeded++
+    } else {
+      failed++
+    }
+  }
+  return { succeeded, failed }
+}
@@ -0,0 +1,44 @@
+// Supabase side of the webhook worker, see lib/webhook-delivery.ts
+
+import { createAdminClient } from '@/lib/supabase/server'
+import type { DeliveryStore, PendingDelivery } from '@/lib/webhook-delivery'
+
+export function createDeliveryStore(): DeliveryStore {
+  const supabase = createAdminClient()
+  return {
+    async claim(limit, onlyId) {
+      const { data, error } = await supabase.rpc('claim_webhook_deliveries', {
+        batch: limit,
+        only_delivery: onlyId ?? null,
+      })
+      if (error) throw error
+      return (data ?? []) as PendingDelivery[]
+    },
+
+    async complete(delivery, result) {
+      const { error } = await supabase
+        .from('webhook_deliveries')
+        .update(
+          result.status === 'succeeded'
+            ? {
+                status: 'succeeded',
+                attempts: delivery.attempts + 1,
+                last_status_code: result.statusCode,
+                last_error: null,
+                delivered_at: new Date().toISOString(),
+              }
+            : {
+                status: result.status,
+                attempts: delivery.attempts + 1,
+                last_status_code: result.statusCode,
+                last_error: result.error,
+                next_attempt_at: new Date(
+                  result.nextAttemptAt ?? Date.now()
+                ).toISOString(),
+              }
+        )
+        .eq('id', delivery.id)
+      if (error) throw error
+    },
+  }
+}
@@ -0,0 +1,170 @@
+// Webhook endpoints of the account and their delivery log. Deliveries are
+// queued by the database and sent by the server, see
+// lib/webhook-delivery.ts.
+
+import { createClient } from '@/lib/supabase/client'
+import { isPublicAddress } from '@/lib/webhook-delivery'
+
+const SECRET_PREFIX = 'whsec_'
+// Random bytes in a signing secret
+const SECRET_LENGTH = 24
+// Entries shown in the delivery log
+const LOG_LENGTH = 20
+
+// Database row shape of the Supabase `webhooks` table
+export interface WebhookRow {
+  id: string
+  user_id: string
+  url: string
+  secret: string
+  active: boolean
+  created_at: string
+}
+
+// Database row shape of the Supabase `webhook_deliveries` table
+export interface WebhookDeliveryRow {
+  id: string
+  webhook_id: string
+  user_id: string
+  event: string
+  payload: unknown
+  status: 'pending' | 'succeeded' | 'failed'
+  attempts: number
+  next_attempt_at: string
+  last_status_code: number | null
+  last_error: string | null
+  created_at: string
+  delivered_at: string | null
+}
+
+export interface Webhook {
+  id: string
+  url: string
+  secret: string
+  active: boolean
+  createdAt: number
+}
+
+export interface WebhookDelivery {
+  id: string
+  event: string
+  status: WebhookDeliveryRow['status']
+  attempts: number
+  nextAttemptAt: number
+  statusCode: number | null
+  error: string | null
+  createdAt: number
+}
+
+function rowToWebhook(row: WebhookRow): Webhook {
+  return {
+    id: row.id,
+    url: row.url,
+    secret: row.secret,
+    active: row.active,
+    createdAt: Date.parse(row.created_at),
+  }
+}
+
+function rowToDelivery(row: WebhookDeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    event: row.event,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: Date.parse(row.next_attempt_at),
+    statusCode: row.last_status_code,
+    error: row.last_error,
+    createdAt: Date.parse(row.created_at),
+  }
+}
+
+function generateSecret() {
+  const bytes = crypto.getRandomValues(new Uint8Array(SECRET_LENGTH))
+  return (
+    SECRET_PREFIX +
+    Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+  )
+}
+
+// Names resolve again when a delivery is sent, this only turns away the
+// addresses that are private on their face
+export function isValidWebhookUrl(url: string) {
+  try {
+    const { protocol, hostname } = new URL(url)
+    if (protocol !== 'https:' && protocol !== 'http:') return false
+    if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+      return false
+    }
+    const literal = /^[\d.]+$/.test(hostname) || hostname.startsWith('[')
+    return !literal || isPublicAddress(hostname)
+  } catch {
+    return false
+  }
+}
+
+export async function listWebhooks(): Promise<Webhook[]> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from('webhooks')
+    .select('*')
+    .order('created_at', { ascending: true })
+  if (error) throw error
+  return ((data ?? []) as WebhookRow[]).map(rowToWebhook)
+}
+
+export async function createWebhook(
+  userId: string,
+  url: string
+): Promise<Webhook> {
+  if (!isValidWebhookUrl(url.trim())) {
+    throw new Error('Enter a public http or https address')
+  }
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from('webhooks')
+    .insert({ user_id: userId, url: url.trim(), secret: generateSecret() })
+    .select()
+    .single()
+  if (error) throw error
+  return rowToWebhook(data as WebhookRow)
+}
+
+export async function setWebhookActive(id: string, active: boolean) {
+  const supabase = createClient()
+  const { error } = await supabase
+    .from('webhooks')
+    .update({ active })
+    .eq('id', id)
+  if (error) throw error
+}
+
+export async function deleteWebhook(id: string) {
+  const supabase = createClient()
+  const { error } = await supabase.from('webhooks').delete().eq('id', id)
+  if (error) throw error
+}
+
+// Most recent deliveries first
+export async function listDeliveries(
+  webhookId: string
+): Promise<WebhookDelivery[]> {
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('webhook_id', webhookId)
+    .order('created_at', { ascending: false })
+    .limit(LOG_LENGTH)
+  if (error) throw error
+  return ((data ?? []) as WebhookDeliveryRow[]).map(rowToDelivery)
+}
+
+// Sends a test delivery right away. Resolves to whether the endpoint
+// accepted it.
+export async function pingWebhook(id: string): Promise<boolean> {
+  const response = await fetch(`/api/webhooks/${id}/ping`, { method: 'POST' })
+  if (!response.ok) throw new Error('Failed to send test delivery')
+  const { ok } = (await response.json()) as { ok: boolean }
+  return ok
+}
@@ -0,0 +1,88 @@
+// `[[Note title]]` links between notes. A link may carry its own label,
+// like [[Note title|label]]. Titles are matched case-insensitively.
+
+// Code spans and blocks come first so links inside them are left alone
+const LINK_OR_CODE =
+  /(^(```|~~~)[^\n]*\n[\s\S]*?^\2[^\n]*$)|(`[^`\n]*`)|\[\[([^[\]\n|]+)(?:\|([^[\]\n]+))?\]\]/gm
+
+// Preview hrefs of wiki links, handled by the app instead of the browser
+export const WIKI_HREF_PREFIX = '#wiki:'
+
+// An unfinished `[[query` right before the caret
+const OPEN_LINK = /\[\[([^[\]\n|]*)$/
+
+export function normalizeTitle(title: string) {
+  return title.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+// Calls `replace` for every link outside of code, keeping the rest as is
+function mapLinks(
+  markdown: string,
+  replace: (target: string, label: string | undefined, link: string) => string
+) {
+  return markdown.replace(
+    LINK_OR_CODE,
+    (match, block, _fence, span, target, label) =>
+      block || span ? match : replace(target.trim(), label?.trim(), match)
+  )
+}
+
+// Normalized titles of every note `markdown` links to
+export function extractLinks(markdown: string): string[] {
+  const links = new Set<string>()
+  mapLinks(markdown, (target) => {
+    links.add(normalizeTitle(target))
+    return ''
+  })
+  return [...links]
+}
+
+// Turns wiki links into regular markdown links for the preview
+export function linkifyWikiLinks(markdown: string) {
+  return mapLinks(markdown, (target, label) => {
+    const href = WIKI_HREF_PREFIX + encodeURIComponent(target)
+    return `[${label ?? target}](<${href}>)`
+  })
+}
+
+// Replaces wiki links with their label, for output outside the app
+export function unlinkWikiLinks(markdown: string) {
+  return mapLinks(markdown, (target, label) => label ?? target)
+}
+
+export function parseWikiHref(href: string | undefined) {
+  if (!href?.startsWith(WIKI_HREF_PREFIX)) return null
+  try {
+    return decodeURIComponent(href.slice(WIKI_HREF_PREFIX.length))
+  } catch {
+    return null
+  }
+}
+
+// Points links to `from` at `to`, keeping custom labels
+export function renameLinks(markdown: string, from: string, to: string) {
+  const key = normalizeTitle(from)
+  return mapLinks(markdown, (target, label, link) => {
+    if (normalizeTitle(target) !== key) return link
+    return label ? `[[${to}|${label}]]` : `[[${to}]]`
+  })
+}
+
+// The line around the first link to `title`, for the backlinks panel
+export function linkContext(markdown: string, title: string) {
+  const key = normalizeTitle(title)
+  return (
+    markdown
+      .split('\n')
+      .find((line) => extractLinks(line).includes(key))
+      ?.trim() ?? ''
+  )
+}
+
+// Start of the link being typed and what was typed so far, if the caret
+// is inside an unfinished `[[`
+export function openLinkAt(text: string, caret: number) {
+  const match = OPEN_LINK.exec(text.slice(0, caret))
+  if (!match) return null
+  return { start: match.index, query: match[1] }
+}
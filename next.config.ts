@@ -2,6 +2,19 @@ import type { NextConfig } from 'next'
 
 const nextConfig: NextConfig = {
   devIndicators: false,
+  env: {
+    // Versions the service worker cache, see public/sw.js
+    NEXT_PUBLIC_BUILD_ID: Date.now().toString(36),
+  },
+  async headers() {
+    return [
+      {
+        // Browsers look for worker updates on every visit
+        source: '/sw.js',
+        headers: [{ key: 'Cache-Control', value: 'no-cache' }],
+      },
+    ]
+  },
 }
 
 export default nextConfig
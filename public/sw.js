@@ -0,0 +1,149 @@
+// Service worker: keeps the app shell in a versioned cache so the installed
+// app starts without a connection, and wakes the sync engine through
+// Background Sync once the connection returns. Registered from
+// hooks/use-service-worker.ts with the build id in its URL.
+
+const VERSION = new URL(self.location.href).searchParams.get('v') ?? 'dev'
+const CACHE_PREFIX = 'notes-shell-'
+const CACHE = `${CACHE_PREFIX}${VERSION}`
+// Same tag as OUTBOX_SYNC_TAG in lib/service-worker.ts
+const OUTBOX_SYNC_TAG = 'notes-outbox'
+// How long an open page gets to flush the outbox before the browser is
+// told to retry later
+const SYNC_REPLY_TIMEOUT = 60_000
+
+const SHELL = [
+  '/',
+  '/app',
+  '/manifest.webmanifest',
+  '/favicon.ico',
+  '/apple-icon.png',
+  '/icon-192x192.png',
+  '/icon-512x512.png',
+]
+
+// Scripts, styles and fonts referenced by a cached page. Chunks that are
+// only loaded later are cached the first time they are fetched.
+async function precacheAssets(cache, url) {
+  const response = await cache.match(url)
+  if (!response) return
+  const html = await response.text()
+  const assets = new Set(
+    [...html.matchAll(/\/_next\/static\/[^"'\s)?]+/g)].map((match) => match[0])
+  )
+  await cache.addAll([...assets])
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(CACHE)
+      await cache.addAll(SHELL)
+      await precacheAssets(cache, '/app')
+    })()
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys()
+      await Promise.all(
+        names
+          .filter((name) => name.startsWith(CACHE_PREFIX) && name !== CACHE)
+          .map((name) => caches.delete(name))
+      )
+      await self.clients.claim()
+    })()
+  )
+})
+
+// The page asks the waiting worker to take over once the user accepts the
+// update prompt
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'skip-waiting') self.skipWaiting()
+})
+
+// Pages of the shell come from the network while online so deploys show
+// up right away, and from the cache otherwise. Every route under /app
+// renders the same client side shell. Other pages, such as shared notes
+// under /s/, are never stored.
+function isShellPage(url) {
+  const { pathname } = new URL(url)
+  return pathname === '/' || pathname === '/app' || pathname.startsWith('/app/')
+}
+
+async function handleNavigation(request) {
+  if (!isShellPage(request.url)) return fetch(request)
+
+  const cache = await caches.open(CACHE)
+  try {
+    const response = await fetch(request)
+    const { pathname } = new URL(request.url)
+    if (response.ok && SHELL.includes(pathname)) {
+      cache.put(pathname, response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached =
+      (await cache.match(request, { ignoreSearch: true })) ??
+      (await cache.match('/app'))
+    if (cached) return cached
+    throw error
+  }
+}
+
+// Build assets have content hashes in their names and never change
+async function handleAsset(request) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (
+    response.ok &&
+    new URL(request.url).pathname.startsWith('/_next/static/')
+  ) {
+    const cache = await caches.open(CACHE)
+    cache.put(request, response.clone())
+  }
+  return response
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+  // Supabase and other origins are left to the sync engine
+  if (new URL(request.url).origin !== self.location.origin) return
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request))
+  } else {
+    event.respondWith(handleAsset(request))
+  }
+})
+
+function askToSync(client) {
+  return new Promise((resolve) => {
+    const channel = new MessageChannel()
+    const timeout = setTimeout(() => resolve(false), SYNC_REPLY_TIMEOUT)
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timeout)
+      resolve(event.data?.ok === true)
+    }
+    client.postMessage({ type: 'sync' }, [channel.port2])
+  })
+}
+
+// Pending writes need the signed in session, which only an open page has,
+// so the worker asks the pages to flush their outbox. Rejecting makes the
+// browser fire the event again later. Without an open page the outbox is
+// flushed when the app starts next time.
+async function flushOutbox() {
+  const clients = await self.clients.matchAll({ type: 'window' })
+  if (clients.length === 0) return
+  const results = await Promise.all(clients.map(askToSync))
+  if (!results.some(Boolean)) throw new Error('Outbox not flushed')
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) event.waitUntil(flushOutbox())
+})
@@ -0,0 +1,27 @@
+// Local stand-in for Supabase Realtime during collaboration testing.
+// Forwards every message to the other sockets of the same `?room=`.
+//
+//   bun scripts/collab-relay.mjs
+//   NEXT_PUBLIC_COLLAB_RELAY_URL=ws://localhost:4455 bun dev
+
+const port = Number(process.env.PORT ?? 4455)
+
+const server = Bun.serve({
+  port,
+  fetch(request, server) {
+    const room = new URL(request.url).searchParams.get('room')
+    if (room && server.upgrade(request, { data: { room } })) return
+    return new Response('Expected a WebSocket with a room', { status: 400 })
+  },
+  websocket: {
+    open(socket) {
+      socket.subscribe(socket.data.room)
+    },
+    message(socket, message) {
+      // publish() skips the sending socket
+      socket.publish(socket.data.room, message)
+    },
+  },
+})
+
+console.log(`Collaboration relay listening on ws://localhost:${server.port}`)
@@ -0,0 +1,51 @@
+// Local stand-in for a webhook endpoint. Prints every delivery and checks
+// its signature; FAIL=<n> answers the first n requests with a 500 to watch
+// the retries. Deliveries only go to public addresses, so expose it
+// through a tunnel and register the tunnel's address.
+//
+//   WEBHOOK_SECRET=whsec_... bun scripts/webhook-receiver.mjs
+//   curl -H "Authorization: Bearer $CRON_SECRET" localhost:3000/api/webhooks/deliver
+
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+const port = Number(process.env.PORT ?? 4456)
+const secret = process.env.WEBHOOK_SECRET
+let failures = Number(process.env.FAIL ?? 0)
+
+function verify(body, header) {
+  const parts = Object.fromEntries(
+    (header ?? '').split(',').map((part) => part.split('='))
+  )
+  const expected = createHmac('sha256', secret)
+    .update(`${parts.t}.${body}`)
+    .digest('hex')
+  return (
+    typeof parts.v1 === 'string' &&
+    parts.v1.length === expected.length &&
+    timingSafeEqual(Buffer.from(parts.v1), Buffer.from(expected))
+  )
+}
+
+const server = Bun.serve({
+  port,
+  async fetch(request) {
+    const body = await request.text()
+    const signature = request.headers.get('x-mcx-signature')
+    const valid = secret ? verify(body, signature) : 'unchecked'
+    console.log(
+      `${request.headers.get('x-mcx-event')} ${request.headers.get(
+        'x-mcx-delivery'
+      )} signature: ${valid}`
+    )
+    console.log(body)
+
+    if (failures > 0) {
+      failures--
+      return new Response('Failing on purpose', { status: 500 })
+    }
+    if (valid === false) return new Response('Bad signature', { status: 401 })
+    return new Response('ok')
+  },
+})
+
+console.log(`Webhook receiver listening on http://localhost:${server.port}`)
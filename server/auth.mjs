@@ -0,0 +1,85 @@
+// Email sign-in for the sync server: a one-time code is mailed, and
+// entering it opens a session whose token the client sends as
+// `Authorization: Bearer <token>`. Accounts are created on first sign-in.
+// Codes and tokens are only stored as SHA-256 hashes.
+
+import { createHash, randomBytes, randomInt } from 'node:crypto'
+
+const CODE_LIFETIME = 10 * 60 * 1000 // 10 minutes
+const CODE_RESEND_DELAY = 60 * 1000
+const MAX_CODE_ATTEMPTS = 5
+const SESSION_LIFETIME = 30 * 24 * 60 * 60 * 1000 // 30 days
+
+const hash = (value) => createHash('sha256').update(value).digest('hex')
+
+// Thrown for requests that cannot succeed as sent, answered with `status`
+export class RequestError extends Error {
+  constructor(status, message) {
+    super(message)
+    this.status = status
+  }
+}
+
+export function normalizeEmail(value) {
+  const email = typeof value === 'string' ? value.trim().toLowerCase() : ''
+  if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+    throw new RequestError(400, 'A valid email address is needed')
+  }
+  return email
+}
+
+export function createAuth(store, mailer) {
+  return {
+    async sendCode(email) {
+      const previous = store.signInCode(email)
+      if (previous && Date.now() - previous.sent_at < CODE_RESEND_DELAY) {
+        throw new RequestError(
+          429,
+          'Wait a minute before asking for a new code'
+        )
+      }
+      const code = String(randomInt(0, 1_000_000)).padStart(6, '0')
+      store.saveSignInCode(email, hash(code), Date.now() + CODE_LIFETIME)
+      await mailer.send({
+        to: email,
+        subject: 'Your MCX.NOTES sign-in code',
+        text: `Your sign-in code is ${code}\n\nIt expires in 10 minutes.`,
+      })
+    },
+
+    // Returns the session token and the account
+    verifyCode(email, code) {
+      const entry = store.signInCode(email)
+      if (
+        !entry ||
+        entry.expires_at < Date.now() ||
+        entry.attempts >= MAX_CODE_ATTEMPTS
+      ) {
+        throw new RequestError(401, 'The code has expired, ask for a new one')
+      }
+      if (hash(String(code).trim()) !== entry.code_hash) {
+        store.countFailedAttempt(email)
+        throw new RequestError(401, 'Wrong code')
+      }
+      store.deleteSignInCode(email)
+
+      const user = store.userByEmail(email) ?? store.createUser(email)
+      const token = randomBytes(32).toString('base64url')
+      store.createSession(hash(token), user.id, Date.now() + SESSION_LIFETIME)
+      return { token, user: { id: user.id, email: user.email } }
+    },
+
+    // The account behind the request's token, or null
+    userFor(request) {
+      const header = request.headers.get('authorization') ?? ''
+      const token = header.match(/^Bearer\s+(\S+)$/i)?.[1]
+      if (!token) return null
+      const user = store.sessionUser(hash(token))
+      return user ? { id: user.id, email: user.email, token } : null
+    },
+
+    signOut(token) {
+      store.deleteSession(hash(token))
+    },
+  }
+}
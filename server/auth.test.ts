@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, expect, setSystemTime, test } from 'bun:test'
+
+import { createAuth, normalizeEmail } from './auth.mjs'
+import { openStore } from './store.mjs'
+
+const EMAIL = 'user@example.com'
+
+let auth: ReturnType<typeof createAuth>
+let sent: { to: string; text: string }[]
+
+// The code of the last message
+const code = () => sent.at(-1)!.text.match(/\d{6}/)![0]
+
+const request = (token: string) =>
+  new Request('http://localhost/auth/user', {
+    headers: { authorization: `Bearer ${token}` },
+  })
+
+beforeEach(() => {
+  sent = []
+  auth = createAuth(openStore(':memory:'), {
+    async send(message: { to: string; text: string }) {
+      sent.push(message)
+    },
+  })
+})
+
+afterEach(() => setSystemTime())
+
+test('signs in with the mailed code', async () => {
+  await auth.sendCode(EMAIL)
+  expect(sent[0].to).toBe(EMAIL)
+
+  const { token, user } = auth.verifyCode(EMAIL, code())
+  expect(user.email).toBe(EMAIL)
+  expect(auth.userFor(request(token))).toMatchObject({ id: user.id })
+
+  // The account is found again on the next sign-in
+  setSystemTime(Date.now() + 2 * 60 * 1000)
+  await auth.sendCode(EMAIL)
+  expect(auth.verifyCode(EMAIL, code()).user.id).toBe(user.id)
+})
+
+test('accepts a code once', async () => {
+  await auth.sendCode(EMAIL)
+  const first = code()
+  auth.verifyCode(EMAIL, first)
+  expect(() => auth.verifyCode(EMAIL, first)).toThrow('expired')
+})
+
+test('gives up after five wrong codes', async () => {
+  await auth.sendCode(EMAIL)
+  const wrong = code() === '000000' ? '000001' : '000000'
+  for (let i = 0; i < 5; i++) {
+    expect(() => auth.verifyCode(EMAIL, wrong)).toThrow('Wrong code')
+  }
+  expect(() => auth.verifyCode(EMAIL, code())).toThrow('expired')
+})
+
+test('lets codes expire after ten minutes', async () => {
+  await auth.sendCode(EMAIL)
+  setSystemTime(Date.now() + 11 * 60 * 1000)
+  expect(() => auth.verifyCode(EMAIL, code())).toThrow('expired')
+})
+
+test('waits a minute before mailing another code', async () => {
+  await auth.sendCode(EMAIL)
+  await expect(auth.sendCode(EMAIL)).rejects.toMatchObject({ status: 429 })
+  expect(sent).toHaveLength(1)
+})
+
+test('ends sessions on sign-out', async () => {
+  await auth.sendCode(EMAIL)
+  const { token } = auth.verifyCode(EMAIL, code())
+  auth.signOut(token)
+  expect(auth.userFor(request(token))).toBeNull()
+  expect(auth.userFor(request('made-up'))).toBeNull()
+})
+
+test('normalizes email addresses', () => {
+  expect(normalizeEmail(' User@Example.COM ')).toBe(EMAIL)
+  expect(() => normalizeEmail('no address')).toThrow()
+})
@@ -0,0 +1,147 @@
+// Self-hosted sync server, an alternative to a Supabase project. Stores
+// notes in SQLite and speaks the contract of lib/repositories/rest.ts,
+// with email sign-in under /auth:
+//
+//   POST /auth/otp      { email }          mails a sign-in code
+//   POST /auth/verify   { email, code }    { token, user }
+//   GET  /auth/user                        { user } of the token
+//   POST /auth/signout                     ends the token's session
+//
+// Sharing, the vault, folders, attachments, history and webhooks need
+// Supabase and are not offered here.
+//
+// It runs on Bun, not Node: the HTTP server is Bun.serve and the database
+// bun:sqlite.
+//
+//   bun server/index.mjs
+//   NEXT_PUBLIC_NOTES_BACKEND=rest NEXT_PUBLIC_NOTES_URL=http://localhost:4457 bun dev
+//
+// PORT, SYNC_DB (the SQLite file), ALLOWED_ORIGIN (the app's origin for
+// CORS, any by default) and the mailer settings in server/mailer.mjs
+// configure it.
+
+import { createAuth, normalizeEmail, RequestError } from './auth.mjs'
+import { createMailer } from './mailer.mjs'
+import { openStore } from './store.mjs'
+
+const port = Number(process.env.PORT ?? 4457)
+const allowedOrigin = process.env.ALLOWED_ORIGIN ?? '*'
+const store = openStore(process.env.SYNC_DB ?? 'mcx-notes.sqlite')
+const auth = createAuth(store, createMailer(process.env))
+
+const cors = {
+  'access-control-allow-origin': allowedOrigin,
+  'access-control-allow-methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'access-control-allow-headers': 'authorization, content-type',
+  'access-control-max-age': '86400',
+}
+
+const json = (body, status = 200) =>
+  Response.json(body, { status, headers: cors })
+const fail = (status, error) => json({ error }, status)
+
+async function readJson(request) {
+  try {
+    const body = await request.json()
+    if (body && typeof body === 'object' && !Array.isArray(body)) return body
+  } catch {
+    // Answered below
+  }
+  throw new RequestError(400, 'Expected a JSON object')
+}
+
+// The fields every note needs, as the client's `Note` type has them
+function checkNote(note, id) {
+  if (note.id !== id) return 'The id does not match the address'
+  if (typeof note.title !== 'string' || typeof note.content !== 'string') {
+    return 'title and content must be strings'
+  }
+  if (!Number.isFinite(note.createdAt) || !Number.isFinite(note.updatedAt)) {
+    return 'createdAt and updatedAt must be timestamps'
+  }
+  if (!Number.isInteger(note.revision ?? 0) || note.revision < 0) {
+    return 'revision must be a whole number'
+  }
+  return null
+}
+
+async function route(request) {
+  const url = new URL(request.url)
+  const { pathname } = url
+  const method = request.method
+
+  if (method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: cors })
+  }
+  if (pathname === '/health') return json({ ok: true })
+
+  if (method === 'POST' && pathname === '/auth/otp') {
+    const { email } = await readJson(request)
+    await auth.sendCode(normalizeEmail(email))
+    return new Response(null, { status: 204, headers: cors })
+  }
+  if (method === 'POST' && pathname === '/auth/verify') {
+    const { email, code } = await readJson(request)
+    return json(auth.verifyCode(normalizeEmail(email), code))
+  }
+
+  const user = auth.userFor(request)
+  if (!user) return fail(401, 'Sign in first')
+
+  if (method === 'GET' && pathname === '/auth/user') {
+    return json({ user: { id: user.id, email: user.email } })
+  }
+  if (method === 'POST' && pathname === '/auth/signout') {
+    auth.signOut(user.token)
+    return new Response(null, { status: 204, headers: cors })
+  }
+
+  if (method === 'GET' && pathname === '/notes/changes') {
+    const userId = url.searchParams.get('userId')
+    if (userId && userId !== user.id) return fail(403, 'Not your notes')
+    const cursor = Number(url.searchParams.get('cursor') ?? 0)
+    if (!Number.isInteger(cursor)) return fail(400, 'Invalid cursor')
+    return json(store.changes(user.id, cursor))
+  }
+  if (method === 'GET' && pathname === '/notes') {
+    const ids = (url.searchParams.get('ids') ?? '').split(',').filter(Boolean)
+    return json({ notes: store.getNotes(user.id, ids) })
+  }
+
+  const id = pathname.match(/^\/notes\/([^/]+)$/)?.[1]
+  if (id && method === 'PUT') {
+    const note = await readJson(request)
+    const problem = checkNote(note, decodeURIComponent(id))
+    if (problem) return fail(400, problem)
+    const stored = store.writeNote(user.id, note)
+    if (stored === null) return fail(403, 'The note belongs to another account')
+    if (stored === 'conflict') {
+      return fail(409, 'The note was changed in the meantime')
+    }
+    return json({ note: stored })
+  }
+  if (id && method === 'DELETE') {
+    const deleted = store.deleteNote(user.id, decodeURIComponent(id))
+    return new Response(null, { status: deleted ? 204 : 404, headers: cors })
+  }
+
+  return fail(404, 'Not found')
+}
+
+const server = Bun.serve({
+  port,
+  async fetch(request) {
+    try {
+      return await route(request)
+    } catch (error) {
+      if (error instanceof RequestError)
+        return fail(error.status, error.message)
+      console.error(error)
+      return fail(500, 'Internal error')
+    }
+  },
+})
+
+setInterval(() => store.cleanUp(), 60 * 60 * 1000)
+
+console.log(`Sync server listening on http://localhost:${server.port}`)
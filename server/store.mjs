@@ -0,0 +1,193 @@
+// SQLite storage of the sync server: accounts, sign-in codes, sessions and
+// notes. Notes are kept as the JSON the client sends, next to the columns
+// the server needs to check revisions and owners.
+
+import { Database } from 'bun:sqlite'
+
+const SCHEMA = `
+  create table if not exists users (
+    id text primary key,
+    email text not null unique,
+    created_at integer not null
+  );
+
+  create table if not exists sign_in_codes (
+    email text primary key,
+    code_hash text not null,
+    expires_at integer not null,
+    attempts integer not null default 0,
+    sent_at integer not null
+  );
+
+  create table if not exists sessions (
+    token_hash text primary key,
+    user_id text not null references users (id) on delete cascade,
+    expires_at integer not null
+  );
+
+  create table if not exists notes (
+    id text primary key,
+    user_id text not null references users (id) on delete cascade,
+    revision integer not null,
+    data text not null
+  );
+
+  -- Every write and removal, numbered in order. The change feed's cursor
+  -- is a position in this table.
+  create table if not exists changes (
+    seq integer primary key autoincrement,
+    note_id text not null,
+    user_id text not null
+  );
+
+  create index if not exists notes_user_id_idx on notes (user_id);
+  create index if not exists changes_user_id_seq_idx on changes (user_id, seq);
+`
+
+export function openStore(path) {
+  const db = new Database(path, { create: true })
+  db.exec('pragma journal_mode = wal; pragma foreign_keys = on;')
+  db.exec(SCHEMA)
+
+  const logChange = db.query(
+    'insert into changes (note_id, user_id) values (?, ?)'
+  )
+  const readNote = db.query('select * from notes where id = ?')
+
+  return {
+    userByEmail(email) {
+      return db.query('select * from users where email = ?').get(email)
+    },
+
+    createUser(email) {
+      const user = { id: crypto.randomUUID(), email, created_at: Date.now() }
+      db.query(
+        'insert into users (id, email, created_at) values (?, ?, ?)'
+      ).run(user.id, user.email, user.created_at)
+      return user
+    },
+
+    signInCode(email) {
+      return db.query('select * from sign_in_codes where email = ?').get(email)
+    },
+
+    saveSignInCode(email, codeHash, expiresAt) {
+      db.query(
+        `insert or replace into sign_in_codes
+          (email, code_hash, expires_at, attempts, sent_at)
+          values (?, ?, ?, 0, ?)`
+      ).run(email, codeHash, expiresAt, Date.now())
+    },
+
+    countFailedAttempt(email) {
+      db.query(
+        'update sign_in_codes set attempts = attempts + 1 where email = ?'
+      ).run(email)
+    },
+
+    deleteSignInCode(email) {
+      db.query('delete from sign_in_codes where email = ?').run(email)
+    },
+
+    createSession(tokenHash, userId, expiresAt) {
+      db.query(
+        'insert into sessions (token_hash, user_id, expires_at) values (?, ?, ?)'
+      ).run(tokenHash, userId, expiresAt)
+    },
+
+    // The user behind a session that has not expired
+    sessionUser(tokenHash) {
+      return db
+        .query(
+          `select users.* from sessions
+            join users on users.id = sessions.user_id
+            where sessions.token_hash = ? and sessions.expires_at > ?`
+        )
+        .get(tokenHash, Date.now())
+    },
+
+    deleteSession(tokenHash) {
+      db.query('delete from sessions where token_hash = ?').run(tokenHash)
+    },
+
+    // Expired codes and sessions
+    cleanUp() {
+      const now = Date.now()
+      db.query('delete from sign_in_codes where expires_at < ?').run(now)
+      db.query('delete from sessions where expires_at < ?').run(now)
+    },
+
+    // Notes of `userId` changed after `cursor`, and the ones removed since
+    changes(userId, cursor) {
+      return db.transaction(() => {
+        const ids = db
+          .query(
+            `select note_id from changes where user_id = ? and seq > ?
+              group by note_id order by max(seq)`
+          )
+          .all(userId, cursor)
+          .map((row) => row.note_id)
+        const notes = []
+        const removed = []
+        for (const id of ids) {
+          const row = readNote.get(id)
+          if (row?.user_id === userId) {
+            notes.push(JSON.parse(row.data))
+          } else {
+            removed.push(id)
+          }
+        }
+        const last = db.query('select max(seq) as seq from changes').get()
+        return { notes, removed, cursor: String(last.seq ?? 0) }
+      })()
+    },
+
+    getNotes(userId, ids) {
+      return ids.flatMap((id) => {
+        const row = readNote.get(id)
+        return row?.user_id === userId ? [JSON.parse(row.data)] : []
+      })
+    },
+
+    // Stores `note` on top of the revision it is based on. Returns the
+    // stored note, 'conflict' for a stale revision, or null if the note
+    // belongs to another account.
+    writeNote(userId, note) {
+      return db.transaction(() => {
+        const stored = readNote.get(note.id)
+        if (stored && stored.user_id !== userId) return null
+
+        let revision
+        if (!note.revision) {
+          revision = stored ? null : 1
+        } else if (!stored) {
+          // Removed in the meantime, the note is created again
+          revision = 1
+        } else {
+          revision =
+            stored.revision === note.revision ? note.revision + 1 : null
+        }
+        if (revision === null) return 'conflict'
+
+        const next = { ...note, userId, revision }
+        db.query(
+          `insert or replace into notes (id, user_id, revision, data)
+            values (?, ?, ?, ?)`
+        ).run(note.id, userId, revision, JSON.stringify(next))
+        logChange.run(note.id, userId)
+        return next
+      })()
+    },
+
+    // False if there was no such note of this account
+    deleteNote(userId, id) {
+      return db.transaction(() => {
+        const { changes } = db
+          .query('delete from notes where id = ? and user_id = ?')
+          .run(id, userId)
+        if (changes) logChange.run(id, userId)
+        return changes > 0
+      })()
+    },
+  }
+}
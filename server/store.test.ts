@@ -0,0 +1,51 @@
+import { beforeEach, expect, test } from 'bun:test'
+
+import { openStore } from './store.mjs'
+
+let store: ReturnType<typeof openStore>
+let userId: string
+
+function note(id: string, revision?: number) {
+  return { id, title: id, content: '', createdAt: 1, updatedAt: 1, revision }
+}
+
+beforeEach(() => {
+  store = openStore(':memory:')
+  userId = store.createUser('user@example.com').id
+})
+
+test('numbers the revisions of a note and refuses stale ones', () => {
+  expect(store.writeNote(userId, note('a'))).toMatchObject({ revision: 1 })
+  expect(store.writeNote(userId, note('a', 1))).toMatchObject({ revision: 2 })
+  expect(store.writeNote(userId, note('a', 1))).toBe('conflict')
+  // Without a revision only new notes are accepted
+  expect(store.writeNote(userId, note('a'))).toBe('conflict')
+})
+
+test('keeps the notes of other accounts apart', () => {
+  const other = store.createUser('other@example.com').id
+  store.writeNote(other, note('a'))
+
+  expect(store.writeNote(userId, note('a', 1))).toBeNull()
+  expect(store.getNotes(userId, ['a'])).toEqual([])
+  expect(store.deleteNote(userId, 'a')).toBe(false)
+  expect(store.changes(userId, 0).notes).toEqual([])
+})
+
+test('lists what changed after the cursor', () => {
+  store.writeNote(userId, note('a'))
+  store.writeNote(userId, note('b'))
+  const first = store.changes(userId, 0)
+  expect(first.notes.map((n: { id: string }) => n.id)).toEqual(['a', 'b'])
+
+  store.writeNote(userId, note('a', 1))
+  store.deleteNote(userId, 'b')
+  store.writeNote(userId, note('c'))
+  const next = store.changes(userId, Number(first.cursor))
+  expect(next.notes.map((n: { id: string }) => n.id)).toEqual(['a', 'c'])
+  expect(next.notes[0].revision).toBe(2)
+  expect(next.removed).toEqual(['b'])
+
+  const last = store.changes(userId, Number(next.cursor))
+  expect(last).toEqual({ notes: [], removed: [], cursor: next.cursor })
+})
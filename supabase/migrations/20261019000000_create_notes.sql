@@ -0,0 +1,25 @@
+-- Baseline `notes` table as used by lib/db.ts and lib/sync.ts
+
+create table if not exists public.notes (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null default '',
+  content text not null default '',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  encrypted_content text,
+  salt text,
+  nonce text,
+  auth_tag text
+);
+
+create index if not exists notes_user_id_updated_at_idx
+  on public.notes (user_id, updated_at);
+
+alter table public.notes enable row level security;
+
+create policy "Users manage their own notes"
+  on public.notes
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
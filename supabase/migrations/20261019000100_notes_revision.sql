@@ -0,0 +1,25 @@
+-- Optimistic concurrency for notes: every accepted write must carry the
+-- next revision number, so a client that saves on top of a stale copy is
+-- rejected with a serialization failure (40001) instead of overwriting.
+
+alter table public.notes
+  add column if not exists revision integer not null default 1;
+
+create or replace function public.notes_check_revision()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.revision is distinct from old.revision + 1 then
+    raise exception 'stale revision % for note % (current %)',
+      new.revision, old.id, old.revision
+      using errcode = '40001';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists notes_check_revision on public.notes;
+create trigger notes_check_revision
+  before update on public.notes
+  for each row execute function public.notes_check_revision();
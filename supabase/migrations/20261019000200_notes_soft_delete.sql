@@ -0,0 +1,10 @@
+-- Soft delete: trashed notes keep syncing so every device sees the move to
+-- the trash and a later restore. Permanent deletion still removes the row.
+
+alter table public.notes
+  add column if not exists deleted boolean not null default false,
+  add column if not exists deleted_at timestamptz;
+
+create index if not exists notes_user_id_deleted_at_idx
+  on public.notes (user_id, deleted_at)
+  where deleted;
@@ -0,0 +1,26 @@
+-- Snapshots of a note's title and content for the history panel. Revisions
+-- of encrypted notes only ever hold the encrypted envelope.
+
+create table if not exists public.note_revisions (
+  id uuid primary key,
+  note_id uuid not null references public.notes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null default '',
+  content text not null default '',
+  created_at timestamptz not null default now(),
+  encrypted_content text,
+  salt text,
+  nonce text,
+  auth_tag text
+);
+
+create index if not exists note_revisions_note_id_created_at_idx
+  on public.note_revisions (note_id, created_at desc);
+
+alter table public.note_revisions enable row level security;
+
+create policy "Users manage their own note revisions"
+  on public.note_revisions
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
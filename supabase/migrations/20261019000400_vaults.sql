@@ -0,0 +1,25 @@
+-- Account vault: the data-encryption key wrapped with the user's master
+-- passphrase. The server only ever sees wrapped keys.
+
+create table if not exists public.vaults (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  salt text not null,
+  wrapped_key text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.vaults enable row level security;
+
+create policy "Users manage their own vault"
+  on public.vaults
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Per-note content keys, wrapped with the vault key
+alter table public.notes
+  add column if not exists wrapped_key text;
+
+alter table public.note_revisions
+  add column if not exists wrapped_key text;
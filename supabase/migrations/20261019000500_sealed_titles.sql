@@ -0,0 +1,9 @@
+-- Envelope layout of encrypted notes. Version 2 seals the title together
+-- with the content and stores an empty title; null or 1 is the original
+-- content-only envelope, upgraded by the client when the note is unlocked.
+
+alter table public.notes
+  add column if not exists envelope_version smallint;
+
+alter table public.note_revisions
+  add column if not exists envelope_version smallint;
@@ -0,0 +1,12 @@
+-- Versioned crypto header (KDF name and parameters, cipher) stored as JSON
+-- text next to password-encrypted data. Null means the original fixed
+-- PBKDF2 parameters.
+
+alter table public.notes
+  add column if not exists crypto_header text;
+
+alter table public.note_revisions
+  add column if not exists crypto_header text;
+
+alter table public.vaults
+  add column if not exists crypto_header text;
@@ -0,0 +1,31 @@
+-- Hierarchical folders and free-form tags. Folder names are stored in
+-- plaintext; tags of encrypted notes live inside the envelope and the
+-- column stays empty for them.
+
+create table if not exists public.folders (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  parent_id uuid,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted boolean not null default false
+);
+
+create index if not exists folders_user_id_idx on public.folders (user_id);
+
+alter table public.folders enable row level security;
+
+create policy "Users manage their own folders"
+  on public.folders
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- No foreign key to folders: offline clients may push a note before the
+-- folder it was moved into, and a missing folder just means top level.
+alter table public.notes
+  add column if not exists folder_id uuid,
+  add column if not exists tags text[] not null default '{}';
+
+create index if not exists notes_tags_idx on public.notes using gin (tags);
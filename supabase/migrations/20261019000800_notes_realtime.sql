@@ -0,0 +1,5 @@
+-- Streams note changes to the owner's other devices. Realtime applies the
+-- row level security policies of `notes` to inserts and updates; deletes
+-- only carry the primary key.
+
+alter publication supabase_realtime add table public.notes;
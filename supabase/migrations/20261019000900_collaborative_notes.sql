@@ -0,0 +1,34 @@
+-- Opt-in collaborative editing. The CRDT updates only travel over private
+-- Realtime broadcast channels named `collab:<note id>:<doc id>`; `content`
+-- keeps a plain snapshot for search, history and sync.
+
+alter table public.notes
+  add column if not exists collab_doc_id text;
+
+-- Owners may join the rooms of their notes. Only plaintext notes become
+-- collaborative, so nothing sealed is ever broadcast.
+create policy "Owners receive collaboration messages"
+  on realtime.messages
+  for select
+  to authenticated
+  using (
+    realtime.topic() like 'collab:%'
+    and exists (
+      select 1 from public.notes
+      where id::text = split_part(realtime.topic(), ':', 2)
+        and user_id = auth.uid()
+    )
+  );
+
+create policy "Owners send collaboration messages"
+  on realtime.messages
+  for insert
+  to authenticated
+  with check (
+    realtime.topic() like 'collab:%'
+    and exists (
+      select 1 from public.notes
+      where id::text = split_part(realtime.topic(), ':', 2)
+        and user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,56 @@
+-- Read-only public links to a snapshot of a note, served at /s/<id>. The
+-- id is random and unguessable; shares with an encrypted snapshot keep the
+-- key in the link's fragment, which never reaches the server.
+
+create table if not exists public.shared_notes (
+  id text primary key,
+  note_id uuid not null references public.notes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null default '',
+  content text not null default '',
+  encrypted_content text,
+  nonce text,
+  auth_tag text,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists shared_notes_note_id_idx
+  on public.shared_notes (note_id);
+
+alter table public.shared_notes enable row level security;
+
+create policy "Users manage their own shared notes"
+  on public.shared_notes
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Readers look a share up by id only, so shares cannot be listed. Revoked
+-- and expired shares are not returned.
+create or replace function public.get_shared_note(share_id text)
+returns table (
+  id text,
+  title text,
+  content text,
+  encrypted_content text,
+  nonce text,
+  auth_tag text,
+  created_at timestamptz,
+  expires_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select s.id, s.title, s.content, s.encrypted_content, s.nonce,
+    s.auth_tag, s.created_at, s.expires_at
+  from public.shared_notes s
+  where s.id = share_id
+    and s.revoked_at is null
+    and (s.expires_at is null or s.expires_at > now());
+$$;
+
+grant execute on function public.get_shared_note(text) to anon, authenticated;
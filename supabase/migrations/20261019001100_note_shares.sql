@@ -0,0 +1,133 @@
+-- Notes shared with other accounts. Recipients read (viewer) or also write
+-- (editor) the owner's row directly; encrypted notes carry their content
+-- key wrapped for the recipient's public key instead of a password.
+
+-- Key pair for receiving shared notes. The private key is wrapped with the
+-- vault key, like the note keys.
+alter table public.vaults
+  add column if not exists public_key text,
+  add column if not exists wrapped_private_key text;
+
+create table if not exists public.note_shares (
+  id uuid primary key default gen_random_uuid(),
+  note_id uuid not null references public.notes (id) on delete cascade,
+  owner_id uuid not null references auth.users (id) on delete cascade,
+  owner_email text not null default '',
+  recipient_id uuid not null references auth.users (id) on delete cascade,
+  recipient_email text not null,
+  role text not null check (role in ('viewer', 'editor')),
+  wrapped_key text,
+  created_at timestamptz not null default now(),
+  unique (note_id, recipient_id)
+);
+
+create index if not exists note_shares_recipient_id_idx
+  on public.note_shares (recipient_id);
+
+-- Role of the current user on a note: 'owner', 'editor', 'viewer' or null.
+-- Security definer so the policies of `notes` and `note_shares` can refer
+-- to each other without recursing.
+create or replace function public.note_role(note uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select case
+    when n.user_id = auth.uid() then 'owner'
+    else (
+      select s.role from public.note_shares s
+      where s.note_id = n.id and s.recipient_id = auth.uid()
+    )
+  end
+  from public.notes n
+  where n.id = note;
+$$;
+
+create or replace function public.note_owner(note uuid)
+returns uuid
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select user_id from public.notes where id = note;
+$$;
+
+alter table public.note_shares enable row level security;
+
+create policy "Owners manage the shares of their notes"
+  on public.note_shares
+  for all
+  using (auth.uid() = owner_id)
+  with check (auth.uid() = owner_id and public.note_role(note_id) = 'owner');
+
+create policy "Recipients see their shares"
+  on public.note_shares
+  for select
+  using (auth.uid() = recipient_id);
+
+-- Leaving a shared note
+create policy "Recipients remove their shares"
+  on public.note_shares
+  for delete
+  using (auth.uid() = recipient_id);
+
+create policy "Recipients read shared notes"
+  on public.notes
+  for select
+  using (public.note_role(id) in ('viewer', 'editor'));
+
+-- Editors change the content, the note stays with its owner
+create policy "Editors update shared notes"
+  on public.notes
+  for update
+  using (public.note_role(id) = 'editor')
+  with check (
+    public.note_role(id) = 'editor' and user_id = public.note_owner(id)
+  );
+
+-- Finds the account to share with. Only exact addresses match, and only
+-- the id and public key are returned.
+create or replace function public.find_share_recipient(recipient_email text)
+returns table (user_id uuid, public_key text)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select u.id, v.public_key
+  from auth.users u
+  left join public.vaults v on v.user_id = u.id
+  where lower(u.email) = lower(recipient_email);
+$$;
+
+revoke execute on function public.find_share_recipient(text) from public, anon;
+grant execute on function public.find_share_recipient(text) to authenticated;
+
+-- Editors join the collaboration rooms of notes shared with them
+drop policy if exists "Owners receive collaboration messages"
+  on realtime.messages;
+drop policy if exists "Owners send collaboration messages"
+  on realtime.messages;
+
+create policy "Writers receive collaboration messages"
+  on realtime.messages
+  for select
+  to authenticated
+  using (
+    realtime.topic() like 'collab:%'
+    and public.note_role(split_part(realtime.topic(), ':', 2)::uuid)
+      in ('owner', 'editor')
+  );
+
+create policy "Writers send collaboration messages"
+  on realtime.messages
+  for insert
+  to authenticated
+  with check (
+    realtime.topic() like 'collab:%'
+    and public.note_role(split_part(realtime.topic(), ':', 2)::uuid)
+      in ('owner', 'editor')
+  );
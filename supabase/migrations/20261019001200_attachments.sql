@@ -0,0 +1,79 @@
+-- Images and files attached to notes. The bytes live in the private
+-- `attachments` bucket under `<user_id>/<id>`, this table tells who may
+-- read them. Attachments of encrypted notes are uploaded as ciphertext.
+
+create table if not exists public.attachments (
+  id uuid primary key,
+  note_id uuid not null references public.notes (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null default '',
+  type text not null default 'application/octet-stream',
+  size bigint not null default 0,
+  nonce text,
+  auth_tag text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists attachments_note_id_idx
+  on public.attachments (note_id);
+
+alter table public.attachments enable row level security;
+
+-- Owners and editors attach files to a note, each manages their own uploads
+create policy "Uploaders manage their attachments"
+  on public.attachments
+  for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id and public.note_role(note_id) in ('owner', 'editor')
+  );
+
+create policy "Readers of a note see its attachments"
+  on public.attachments
+  for select
+  using (public.note_role(note_id) is not null);
+
+insert into storage.buckets (id, name, public)
+values ('attachments', 'attachments', false)
+on conflict (id) do nothing;
+
+create policy "Uploaders write their attachment files"
+  on storage.objects
+  for insert
+  to authenticated
+  with check (
+    bucket_id = 'attachments'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "Uploaders replace their attachment files"
+  on storage.objects
+  for update
+  to authenticated
+  using (
+    bucket_id = 'attachments'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "Uploaders delete their attachment files"
+  on storage.objects
+  for delete
+  to authenticated
+  using (
+    bucket_id = 'attachments'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+-- Files are readable by whoever may read the note they belong to
+create policy "Readers of a note download its attachment files"
+  on storage.objects
+  for select
+  to authenticated
+  using (
+    bucket_id = 'attachments'
+    and exists (
+      select 1 from public.attachments a
+      where a.id::text = storage.filename(name)
+        and public.note_role(a.note_id) is not null
+    )
+  );
@@ -0,0 +1,81 @@
+-- Personal access tokens for the REST API under /api/notes. Only the
+-- SHA-256 hash of a token is stored. API requests reach Postgres without a
+-- session and carry the token in the `x-api-token` header instead, which
+-- the policies below resolve to the account that created it.
+
+create table if not exists public.api_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  token_hash text not null unique,
+  -- First characters of the token, to tell tokens apart in the app
+  prefix text not null,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists api_tokens_user_id_idx
+  on public.api_tokens (user_id);
+
+alter table public.api_tokens enable row level security;
+
+create policy "Users manage their own API tokens"
+  on public.api_tokens
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Hash of the token sent with the current request, null without one
+create or replace function public.request_token_hash()
+returns text
+language sql
+stable
+set search_path = ''
+as $$
+  select encode(
+    sha256(convert_to(
+      current_setting('request.headers', true)::json ->> 'x-api-token',
+      'UTF8'
+    )),
+    'hex'
+  );
+$$;
+
+-- Account behind the token of the current request, null without a valid
+-- one
+create or replace function public.api_token_user()
+returns uuid
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select user_id from public.api_tokens
+  where token_hash = public.request_token_hash() and revoked_at is null;
+$$;
+
+-- Called once per API request, records when the token was last used
+create or replace function public.authenticate_api_token()
+returns uuid
+language sql
+volatile
+security definer
+set search_path = ''
+as $$
+  update public.api_tokens
+  set last_used_at = now()
+  where token_hash = public.request_token_hash() and revoked_at is null
+  returning user_id;
+$$;
+
+grant execute on function public.authenticate_api_token() to anon;
+
+-- Token holders work on the notes of their account, not on notes shared
+-- with it
+create policy "Token holders manage their own notes"
+  on public.notes
+  for all
+  to anon
+  using (user_id = public.api_token_user())
+  with check (user_id = public.api_token_user());
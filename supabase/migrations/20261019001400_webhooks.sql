@@ -0,0 +1,187 @@
+-- Outgoing webhooks. Every change to a note queues one delivery per active
+-- webhook of its owner; the worker behind /api/webhooks/deliver sends them
+-- signed with the webhook's secret and retries failures with backoff, see
+-- lib/webhook-delivery.ts.
+
+create table if not exists public.webhooks (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  url text not null check (url ~ '^https?://'),
+  -- Key of the HMAC signature, readable by the owner to verify payloads
+  secret text not null,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists webhooks_user_id_idx on public.webhooks (user_id);
+
+alter table public.webhooks enable row level security;
+
+create policy "Users manage their own webhooks"
+  on public.webhooks
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create table if not exists public.webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  webhook_id uuid not null references public.webhooks (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  event text not null
+    check (event in ('note.created', 'note.updated', 'note.deleted', 'ping')),
+  payload jsonb not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'succeeded', 'failed')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_status_code integer,
+  last_error text,
+  created_at timestamptz not null default now(),
+  delivered_at timestamptz
+);
+
+create index if not exists webhook_deliveries_webhook_id_created_at_idx
+  on public.webhook_deliveries (webhook_id, created_at desc);
+
+create index if not exists webhook_deliveries_next_attempt_at_idx
+  on public.webhook_deliveries (next_attempt_at)
+  where status = 'pending';
+
+alter table public.webhook_deliveries enable row level security;
+
+-- The delivery log; deliveries are only written by the functions below
+-- and the worker
+create policy "Users see the deliveries of their webhooks"
+  on public.webhook_deliveries
+  for select
+  using (auth.uid() = user_id);
+
+-- Content travels only for notes that are not encrypted, encrypted notes
+-- have none on the server anyway
+create or replace function public.queue_note_webhooks()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  note public.notes;
+  event text;
+begin
+  if tg_op = 'DELETE' then
+    -- Trashing already announced the deletion
+    if old.deleted then return old; end if;
+    note := old;
+    event := 'note.deleted';
+  elsif tg_op = 'INSERT' then
+    note := new;
+    event := 'note.created';
+  else
+    if new.title is not distinct from old.title
+      and new.content is not distinct from old.content
+      and new.encrypted_content is not distinct from old.encrypted_content
+      and new.folder_id is not distinct from old.folder_id
+      and new.deleted = old.deleted
+    then
+      return new;
+    end if;
+    note := new;
+    event := case when new.deleted then 'note.deleted' else 'note.updated' end;
+  end if;
+
+  insert into public.webhook_deliveries (webhook_id, user_id, event, payload)
+  select w.id, w.user_id, event, jsonb_build_object(
+    'event', event,
+    'timestamp', now(),
+    'note', jsonb_strip_nulls(jsonb_build_object(
+      'id', note.id,
+      'title', note.title,
+      'encrypted', note.encrypted_content is not null,
+      'content', case
+        when note.encrypted_content is null and event <> 'note.deleted'
+        then note.content
+      end
+    ))
+  )
+  from public.webhooks w
+  where w.user_id = note.user_id and w.active;
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists queue_note_webhooks on public.notes;
+create trigger queue_note_webhooks
+  after insert or update or delete on public.notes
+  for each row execute function public.queue_note_webhooks();
+
+-- Test delivery from the webhook settings, returns its id
+create or replace function public.ping_webhook(webhook uuid)
+returns uuid
+language sql
+volatile
+security definer
+set search_path = ''
+as $$
+  insert into public.webhook_deliveries (webhook_id, user_id, event, payload)
+  select w.id, w.user_id, 'ping', jsonb_build_object(
+    'event', 'ping',
+    'timestamp', now()
+  )
+  from public.webhooks w
+  where w.id = webhook and w.user_id = auth.uid()
+  returning id;
+$$;
+
+revoke execute on function public.ping_webhook(uuid) from public, anon;
+grant execute on function public.ping_webhook(uuid) to authenticated;
+
+-- Hands due deliveries to a worker together with the webhook's address and
+-- secret. Claimed deliveries are held back for a while, so a worker that
+-- dies mid-batch does not stop them from being retried. Old log entries are
+-- cleaned up on the way.
+create or replace function public.claim_webhook_deliveries(
+  batch integer,
+  only_delivery uuid default null
+)
+returns table (
+  id uuid,
+  event text,
+  payload jsonb,
+  attempts integer,
+  url text,
+  secret text
+)
+language plpgsql
+volatile
+security definer
+set search_path = ''
+as $$
+begin
+  delete from public.webhook_deliveries d
+  where d.status <> 'pending' and d.created_at < now() - interval '30 days';
+
+  return query
+  update public.webhook_deliveries d
+  set next_attempt_at = now() + interval '5 minutes'
+  from public.webhooks w
+  where w.id = d.webhook_id
+    and d.id in (
+      select p.id from public.webhook_deliveries p
+      join public.webhooks pw on pw.id = p.webhook_id
+      where p.status = 'pending'
+        and p.next_attempt_at <= now()
+        and pw.active
+        and (only_delivery is null or p.id = only_delivery)
+      order by p.next_attempt_at
+      limit batch
+      for update of p skip locked
+    )
+  returning d.id, d.event, d.payload, d.attempts, w.url, w.secret;
+end;
+$$;
+
+revoke execute on function public.claim_webhook_deliveries(integer, uuid)
+  from public, anon, authenticated;
+grant execute on function public.claim_webhook_deliveries(integer, uuid)
+  to service_role;
@@ -0,0 +1,16 @@
+-- Webhooks may only point at public hosts. The worker resolves every
+-- destination before sending (lib/webhook-delivery.ts); this turns away
+-- addresses that are private on their face. Existing rows are left to
+-- the worker, which refuses them at delivery time.
+
+alter table public.webhooks drop constraint if exists webhooks_url_check;
+
+alter table public.webhooks
+  add constraint webhooks_url_check check (
+    url ~* '^https?://'
+    and url !~* '^https?://([^/@]*@)?(localhost|[^/:]*\.localhost|\[)'
+    and url !~* '^https?://([^/@]*@)?(0|10|127)\.'
+    and url !~* '^https?://([^/@]*@)?(169\.254|192\.168)\.'
+    and url !~* '^https?://([^/@]*@)?172\.(1[6-9]|2[0-9]|3[01])\.'
+    and url !~* '^https?://([^/@]*@)?100\.(6[4-9]|[7-9][0-9]|1[01][0-9]|12[0-7])\.'
+  ) not valid;
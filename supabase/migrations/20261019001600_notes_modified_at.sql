@@ -0,0 +1,29 @@
+-- When the server last stored a note. `updated_at` comes from the client
+-- that made the edit, so an edit made offline and pushed later carries an
+-- old time and would fall behind the pull cursors of other devices.
+-- Incremental pulls and the notes API page on `modified_at` instead.
+
+alter table public.notes
+  add column if not exists modified_at timestamptz not null default now();
+
+create or replace function public.notes_set_modified_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- clock_timestamp advances within a transaction, so rows written together
+  -- still get distinct times
+  new.modified_at := clock_timestamp();
+  return new;
+end;
+$$;
+
+drop trigger if exists notes_set_modified_at on public.notes;
+create trigger notes_set_modified_at
+  before insert or update on public.notes
+  for each row execute function public.notes_set_modified_at();
+
+create index if not exists notes_modified_at_idx
+  on public.notes (modified_at);
+create index if not exists notes_user_id_modified_at_idx
+  on public.notes (user_id, modified_at);
@@ -0,0 +1,57 @@
+-- Shares carry the addresses of both accounts, which recipients and owners
+-- are shown. They are filled in from auth.users, whatever the client sends.
+
+create or replace function public.note_shares_fill_emails()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  new.owner_email := coalesce(
+    (select email from auth.users where id = new.owner_id),
+    ''
+  );
+  new.recipient_email := coalesce(
+    (select email from auth.users where id = new.recipient_id),
+    ''
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists note_shares_fill_emails on public.note_shares;
+create trigger note_shares_fill_emails
+  before insert or update on public.note_shares
+  for each row execute function public.note_shares_fill_emails();
+
+-- Editors change what the note says and nothing else: not its folder, its
+-- trash state, its key or its collaboration document. The ciphertext
+-- columns are the content of encrypted notes; `tags` follow the content,
+-- `revision` and the times every write.
+create or replace function public.notes_check_editor_changes()
+returns trigger
+language plpgsql
+as $$
+declare
+  editable constant text[] := array[
+    'title', 'content', 'tags', 'encrypted_content', 'nonce', 'auth_tag',
+    'updated_at', 'modified_at', 'revision'
+  ];
+begin
+  if auth.uid() is not null
+    and auth.uid() is distinct from old.user_id
+    and to_jsonb(new) - editable is distinct from to_jsonb(old) - editable
+  then
+    raise exception 'editors may only change the title and content of note %',
+      old.id
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists notes_check_editor_changes on public.notes;
+create trigger notes_check_editor_changes
+  before update on public.notes
+  for each row execute function public.notes_check_editor_changes();
@@ -0,0 +1,77 @@
+// Runs the migrations in PGlite, an in-process Postgres, on top of the
+// parts of Supabase they refer to: roles, auth.users and auth.uid(), the
+// storage and realtime tables and the Realtime publication. Policies are
+// not enforced, the connection is a superuser; triggers are.
+
+import { readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { PGlite } from '@electric-sql/pglite'
+
+const MIGRATIONS = join(import.meta.dir, '..', 'migrations')
+
+const SUPABASE = `
+  create role anon;
+  create role authenticated;
+  create role service_role;
+
+  create schema auth;
+  create table auth.users (id uuid primary key, email text);
+  -- The signed-in account, see signIn
+  create function auth.uid() returns uuid language sql stable as $$
+    select nullif(current_setting('request.jwt.claim.sub', true), '')::uuid
+  $$;
+
+  create schema storage;
+  create table storage.buckets (id text primary key, name text, public boolean);
+  create table storage.objects (
+    id uuid primary key default gen_random_uuid(),
+    bucket_id text,
+    name text
+  );
+  create function storage.foldername(name text) returns text[]
+    language sql immutable as $$
+      select (string_to_array(name, '/'))[1:cardinality(string_to_array(name, '/')) - 1]
+    $$;
+  create function storage.filename(name text) returns text
+    language sql immutable as $$
+      select (string_to_array(name, '/'))[cardinality(string_to_array(name, '/'))]
+    $$;
+
+  create schema realtime;
+  create table realtime.messages (topic text, payload jsonb);
+  create function realtime.topic() returns text language sql stable as $$
+    select current_setting('realtime.topic', true)
+  $$;
+
+  create publication supabase_realtime;
+`
+
+export async function createDatabase() {
+  const db = new PGlite()
+  await db.exec(SUPABASE)
+  for (const file of readdirSync(MIGRATIONS).sort()) {
+    if (!file.endsWith('.sql')) continue
+    try {
+      await db.exec(readFileSync(join(MIGRATIONS, file), 'utf8'))
+    } catch (error) {
+      throw new Error(`${file}: ${(error as Error).message}`)
+    }
+  }
+  return db
+}
+
+export async function createUser(db: PGlite, email: string) {
+  const id = crypto.randomUUID()
+  await db.query('insert into auth.users (id, email) values ($1, $2)', [
+    id,
+    email,
+  ])
+  return id
+}
+
+// Requests after this run as `userId`, or as the service role with null
+export async function signIn(db: PGlite, userId: string | null) {
+  await db.query("select set_config('request.jwt.claim.sub', $1, false)", [
+    userId ?? '',
+  ])
+}
@@ -0,0 +1,105 @@
+import type { PGlite } from '@electric-sql/pglite'
+import { beforeAll, beforeEach, expect, test } from 'bun:test'
+
+import { createDatabase, createUser, signIn } from './database'
+
+let db: PGlite
+let owner: string
+let editor: string
+let noteId: string
+let revision: number
+
+beforeAll(async () => {
+  db = await createDatabase()
+  owner = await createUser(db, 'owner@example.com')
+  editor = await createUser(db, 'editor@example.com')
+}, 60 * 1000)
+
+beforeEach(async () => {
+  await signIn(db, null)
+  noteId = crypto.randomUUID()
+  revision = 1
+  await db.query(
+    `insert into public.notes (id, user_id, title, content, wrapped_key)
+      values ($1, $2, 'Title', 'Content', 'wrapped')`,
+    [noteId, owner]
+  )
+  await db.query(
+    `insert into public.note_shares (note_id, owner_id, recipient_id, role)
+      values ($1, $2, $3, 'editor')`,
+    [noteId, owner, editor]
+  )
+})
+
+// Applies `changes` to the note as `userId`, on top of the current revision
+async function update(userId: string, changes: Record<string, unknown>) {
+  await signIn(db, userId)
+  const columns = Object.keys(changes)
+  await db.query(
+    `update public.notes set ${columns
+      .map((column, i) => `${column} = $${i + 2}`)
+      .join(', ')}, revision = ${revision + 1} where id = $1`,
+    [noteId, ...Object.values(changes)]
+  )
+  revision++
+}
+
+test('fills the addresses of a share from the accounts', async () => {
+  await signIn(db, owner)
+  const other = crypto.randomUUID()
+  await db.query(`insert into public.notes (id, user_id) values ($1, $2)`, [
+    other,
+    owner,
+  ])
+  const { rows } = await db.query<{
+    owner_email: string
+    recipient_email: string
+  }>(
+    `insert into public.note_shares
+      (note_id, owner_id, owner_email, recipient_id, recipient_email, role)
+      values ($1, $2, 'ceo@example.com', $3, 'someone@example.com', 'viewer')
+      returning owner_email, recipient_email`,
+    [other, owner, editor]
+  )
+  expect(rows[0]).toEqual({
+    owner_email: 'owner@example.com',
+    recipient_email: 'editor@example.com',
+  })
+})
+
+test('lets editors change what the note says', async () => {
+  await update(editor, {
+    title: 'Edited',
+    content: 'Edited content',
+    tags: ['tag'],
+    updated_at: new Date().toISOString(),
+  })
+  await update(editor, {
+    encrypted_content: 'cipher',
+    nonce: 'nonce',
+    auth_tag: 'tag',
+  })
+  const { rows } = await db.query<{ title: string; revision: number }>(
+    'select title, revision from public.notes where id = $1',
+    [noteId]
+  )
+  expect(rows[0]).toEqual({ title: 'Edited', revision: 3 })
+})
+
+for (const [column, value] of [
+  ['envelope_version', 3],
+  ['crypto_header', 'argon2id'],
+  ['salt', 'salt'],
+  ['wrapped_key', 'other'],
+  ['deleted', true],
+  ['collab_doc_id', crypto.randomUUID()],
+] as const) {
+  test(`keeps editors from changing ${column}`, async () => {
+    const changes = { [column]: value }
+    await expect(update(editor, changes)).rejects.toMatchObject({
+      code: '42501',
+    })
+    // The owner may
+    await update(owner, changes)
+  })
+}